@@ -0,0 +1,13 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    // Type errors are reported by tsc; the tests only need the code transpiled
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }]
+  },
+  moduleNameMapper: {
+    '^@main/(.*)$': '<rootDir>/src/main/$1',
+    '^@shared/(.*)$': '<rootDir>/src/shared/$1'
+  }
+};
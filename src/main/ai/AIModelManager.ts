@@ -1,17 +1,92 @@
-import { AIModel, ModelConfig, CompletionRequest, ChatRequest, InlineCompletionRequest, AITransaction } from '../../shared/types/ai';
-import { CodeLlamaModel } from './models/CodeLlamaModel';
+import { AIModel, ModelConfig, CompletionRequest, ChatRequest, InlineCompletionRequest, AITransaction, RoutingDecision, RoutingPolicy, RequestPriority, RequestQueueStats, CacheStatus, ResponseCacheStats, TokenUsage, UsageSummary, ProviderBudget, ToolCall, ToolChatRequest, ToolChatResponse, ToolResult, ToolRound, ComparisonResult, ModelPerformanceMetrics, BenchmarkProgress, BenchmarkReport, BenchmarkSummary, OllamaModelInfo, OllamaRunningModel, OllamaPullProgress, EmbeddingResponse, ModelLoadStatus, StructuredChatRequest, WorkspacePolicy, ApiKeyStatus, CredentialProviderId } from '../../shared/types/ai';
+import { OllamaModel } from './models/OllamaModel';
 import { ClaudeModel } from './models/ClaudeModel';
 import { CodestralModel } from './models/CodestralModel';
-import { DeepSeekCoderModel } from './models/DeepSeekCoderModel';
-import { QwenCoderModel } from './models/QwenCoderModel';
-import { LlamaModel } from './models/LlamaModel';
 import { OpenAIModel } from './models/OpenAIModel';
+import { OpenAICompatibleModel } from './models/OpenAICompatibleModel';
+import { MockModel, buildMockConfig } from './models/MockModel';
+import { Cassette, RECORD_CASSETTE_ENV } from './testing/Cassette';
+import { RecordingModel } from './testing/RecordingModel';
+import { OllamaClient, OllamaModelDetails } from './OllamaClient';
+import { ModelHealth, ModelHealthTracker } from './ModelHealthTracker';
+import { ModelRouter } from './ModelRouter';
+import { RequestScheduler } from './RequestScheduler';
+import { ContextBudgeter, ContextBudgetReport } from './ContextBudgeter';
+import { getTokenizerForModel } from './tokenizers';
+import { completionVariables, inlineCompletionVariables, renderPrompt } from './prompts/PromptTemplateRegistry';
+import { CacheKeyInput, ResponseCache } from './ResponseCache';
+import { UsageTracker } from './UsageTracker';
+import { calculateCost } from './pricing';
+import { AIError, toAIError } from './errors';
+import { ToolRegistry } from './tools/ToolRegistry';
+import { PerformanceStore } from './PerformanceStore';
+import { chatWithPromptTools } from './tools/promptTools';
+import { BenchmarkRunner } from './benchmark/BenchmarkRunner';
+import { JsonSchema, parseJsonOutput, validateJsonSchema } from './jsonSchema';
+import { Redactor } from './privacy/Redactor';
+import { RedactingModel, RedactionCounts } from './privacy/RedactingModel';
+import { DEFAULT_WORKSPACE_POLICY } from './privacy/workspacePolicy';
+import { CREDENTIAL_PROVIDERS, CredentialProvider } from './CredentialProvider';
+
+const SUPPORTED_LANGUAGES = ['apex', 'javascript', 'python', 'java', 'soql'];
+// Tool calls allowed per chat turn before the model has to answer
+const MAX_TOOL_ROUNDS = 6;
+// Texts per embedding request for providers that accept batches
+const EMBEDDING_BATCH_SIZE = 32;
+// Answers tried before structured output gives up; each retry shows the model its errors
+const MAX_STRUCTURED_ATTEMPTS = 3;
+// How often Ollama is asked which models are in memory
+const RESIDENCY_POLL_MS = 15000;
+
+interface ChatRunOptions {
+  onToken?: (token: string) => void;
+  onToolCall?: (call: ToolCall, result: ToolResult) => void;
+  // Serve with exactly this model, skipping routing, fallback and the response cache
+  modelId?: string;
+}
+
+// Stats are missing when the request was cancelled before the model finished
+interface ChatRunResult {
+  content: string;
+  modelId?: string;
+  latency?: number;
+  timeToFirstToken?: number;
+  tokens?: number;
+  costUsd?: number;
+  cancelled?: boolean;
+}
 
 export class AIModelManager {
   private models: Map<string, AIModel> = new Map();
   private currentModel: string = 'codellama-7b-instruct';
   private modelConfigs: Map<string, ModelConfig> = new Map();
   private transactions: AITransaction[] = [];
+  private activeRequests: Map<string, AbortController> = new Map();
+  private activeInlineRequestId: string | null = null;
+  private ollamaClient = new OllamaClient();
+  private healthTracker = new ModelHealthTracker();
+  private router = new ModelRouter();
+  private scheduler = new RequestScheduler();
+  private responseCache: ResponseCache | null = null;
+  private usageTracker: UsageTracker | null = null;
+  private toolRegistry: ToolRegistry | null = null;
+  private performanceStore: PerformanceStore | null = null;
+  // Chosen in settings; null picks the first available embedding model
+  private embeddingModel: string | null = null;
+  private recordingCassette: Cassette | null = null;
+  // Shared by every cloud model, so a fallback sees the same placeholders as the primary
+  private redactor = new Redactor();
+  private workspacePolicy: WorkspacePolicy = { ...DEFAULT_WORKSPACE_POLICY };
+  // Environment keys only until main hands over the provider backed by settings
+  private credentials = new CredentialProvider();
+  private healthProbeTimer: NodeJS.Timeout | null = null;
+  // Models Ollama holds in memory, keyed by normalized tag, as of the last poll
+  private residentModels: Map<string, OllamaRunningModel> = new Map();
+  // Model ids with a warm-up request in flight
+  private warmingModels: Set<string> = new Set();
+  private residencyTimer: NodeJS.Timeout | null = null;
+  // Ordered fallback model ids per task, tried after the selected model
+  private fallbackChains: Record<string, string[]> = {};
 
   constructor() {
     this.initializeModelConfigs();
@@ -22,30 +97,32 @@ export class AIModelManager {
     this.modelConfigs.set('codellama-7b-instruct', {
       id: 'codellama-7b-instruct',
       name: 'Code Llama 7B Instruct (Fast)',
-      provider: 'local',
+      provider: 'ollama',
       type: 'chat',
       maxTokens: 2048,
       contextWindow: 4096,
       specialties: ['code-completion', 'code-generation', 'debugging', 'chat', 'general-coding'],
-      languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+      languages: SUPPORTED_LANGUAGES,
       latency: 'low',
       isLocal: true,
-      endpoint: 'http://127.0.0.1:11434/api/generate'
+      endpoint: `${this.ollamaClient.getBaseUrl()}/api/generate`,
+      parameters: { model: 'codellama:7b-instruct', family: 'llama' }
     });
 
     // Larger model for complex tasks (optional)
     this.modelConfigs.set('codellama-70b-instruct', {
       id: 'codellama-70b-instruct',
       name: 'Code Llama 70B Instruct (Powerful)',
-      provider: 'local',
+      provider: 'ollama',
       type: 'chat',
       maxTokens: 4096,
       contextWindow: 16384,
       specialties: ['complex-reasoning', 'architecture', 'code-review'],
-      languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+      languages: SUPPORTED_LANGUAGES,
       latency: 'high',
       isLocal: true,
-      endpoint: 'http://127.0.0.1:11434/api/generate'
+      endpoint: `${this.ollamaClient.getBaseUrl()}/api/generate`,
+      parameters: { model: 'codellama:70b-instruct', family: 'llama' }
     });
 
     // Cloud models (optional, require API keys)
@@ -57,10 +134,11 @@ export class AIModelManager {
       maxTokens: 4096,
       contextWindow: 200000,
       specialties: ['code-review', 'architecture', 'complex-reasoning'],
-      languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+      languages: SUPPORTED_LANGUAGES,
       latency: 'low',
       isLocal: false,
-      endpoint: 'https://api.anthropic.com/v1/messages'
+      endpoint: 'https://api.anthropic.com/v1/messages',
+      parameters: { model: 'claude-3-5-sonnet-20241022' }
     });
 
     this.modelConfigs.set('gpt-4-turbo', {
@@ -71,11 +149,61 @@ export class AIModelManager {
       maxTokens: 4096,
       contextWindow: 128000,
       specialties: ['general-coding', 'reasoning', 'complex-tasks'],
-      languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+      languages: SUPPORTED_LANGUAGES,
+      latency: 'low',
+      isLocal: false,
+      endpoint: 'https://api.openai.com/v1/chat/completions',
+      parameters: { model: 'gpt-4-turbo-preview' }
+    });
+
+    this.modelConfigs.set('codestral', {
+      id: 'codestral',
+      name: 'Codestral',
+      provider: 'mistral',
+      type: 'chat',
+      maxTokens: 4096,
+      contextWindow: 32000,
+      specialties: ['code-completion', 'inline-completion', 'general-coding'],
+      languages: SUPPORTED_LANGUAGES,
+      latency: 'low',
+      isLocal: false,
+      endpoint: 'https://api.mistral.ai/v1/chat/completions',
+      parameters: { model: 'codestral-latest' }
+    });
+
+    // Embedding models for semantic search
+    this.modelConfigs.set('nomic-embed-text', {
+      id: 'nomic-embed-text',
+      name: 'Nomic Embed Text',
+      provider: 'ollama',
+      type: 'embedding',
+      maxTokens: 0,
+      contextWindow: 8192,
+      specialties: ['embedding'],
+      languages: SUPPORTED_LANGUAGES,
+      latency: 'low',
+      isLocal: true,
+      endpoint: `${this.ollamaClient.getBaseUrl()}/api/embeddings`,
+      parameters: { model: 'nomic-embed-text', family: 'nomic-bert' }
+    });
+
+    this.modelConfigs.set('text-embedding-3-small', {
+      id: 'text-embedding-3-small',
+      name: 'OpenAI Embedding 3 Small',
+      provider: 'openai',
+      type: 'embedding',
+      maxTokens: 0,
+      contextWindow: 8191,
+      specialties: ['embedding'],
+      languages: SUPPORTED_LANGUAGES,
       latency: 'low',
       isLocal: false,
-      endpoint: 'https://api.openai.com/v1/chat/completions'
+      endpoint: 'https://api.openai.com/v1/embeddings',
+      parameters: { model: 'text-embedding-3-small' }
     });
+
+    // Offline replay model; only used when selected, never picked by automatic routing
+    this.modelConfigs.set('mock', buildMockConfig());
   }
 
   private logTransaction(transaction: Omit<AITransaction, 'id' | 'timestamp'>): void {
@@ -95,7 +223,8 @@ export class AIModelManager {
     console.log('AI Transaction:', fullTransaction);
   }
 
-  async initialize(): Promise<void> {
+  // preferredModelId is the model the user last selected; it is used, and warmed up, if it came up
+  async initialize(preferredModelId?: string): Promise<void> {
     try {
       this.logTransaction({
         type: 'info',
@@ -105,6 +234,8 @@ export class AIModelManager {
         metadata: { contextLength: 0 }
       });
 
+      await this.discoverOllamaModels();
+
       // Initialize only available models gracefully
       for (const [id, config] of this.modelConfigs) {
         try {
@@ -129,15 +260,28 @@ export class AIModelManager {
         }
       }
 
-      // Set the fastest available model as primary
-      if (this.models.has('codellama-7b-instruct')) {
-        this.currentModel = 'codellama-7b-instruct';
-      } else if (this.models.has('codellama-70b-instruct')) {
-        this.currentModel = 'codellama-70b-instruct';
-      } else if (this.models.size > 0) {
-        this.currentModel = Array.from(this.models.keys())[0];
+      if (preferredModelId && this.models.has(preferredModelId)) {
+        this.currentModel = preferredModelId;
+      } else {
+        this.currentModel = this.selectDefaultModel();
+        if (preferredModelId) {
+          const preferredName = this.modelConfigs.get(preferredModelId)?.name || preferredModelId;
+          console.warn(`⚠️ Selected model ${preferredName} is not available, using ${this.modelConfigs.get(this.currentModel)?.name || 'none'}`);
+          this.logTransaction({
+            type: 'info',
+            model: 'System',
+            operation: 'initialization',
+            response: `Could not restore ${preferredName}: the model is not available`,
+            metadata: { modelId: preferredModelId, fallbackModelId: this.currentModel }
+          });
+        }
       }
 
+      this.startHealthProbes();
+      this.startResidencyPolling();
+      // Not awaited: a cold 70B load takes minutes and requests can be served meanwhile
+      this.warmUpLocalModels();
+
       console.log(`✅ AI Model Manager initialized with ${this.models.size} models`);
       console.log(`✅ Primary model: ${this.modelConfigs.get(this.currentModel)?.name || 'None'}`);
     } catch (error) {
@@ -147,30 +291,259 @@ export class AIModelManager {
     }
   }
 
+  // The fastest available model, used at startup and when the selected model is retired
+  private selectDefaultModel(): string {
+    if (this.models.has('codellama-7b-instruct')) {
+      return 'codellama-7b-instruct';
+    }
+    if (this.models.has('codellama-70b-instruct')) {
+      return 'codellama-70b-instruct';
+    }
+
+    const ids = Array.from(this.models.keys());
+    return ids.find(id => {
+      const config = this.modelConfigs.get(id);
+      return config?.provider !== 'mock' && config?.type !== 'embedding';
+    }) || ids[0] || this.currentModel;
+  }
+
+  // Register a config for every model installed in Ollama that isn't configured yet
+  private async discoverOllamaModels(): Promise<ModelConfig[]> {
+    let installed: OllamaModelInfo[];
+    try {
+      installed = await this.ollamaClient.listModels();
+    } catch (error) {
+      console.warn('⚠️ Ollama model discovery failed:', error.message);
+      return [];
+    }
+
+    const configuredTags = new Set(
+      Array.from(this.modelConfigs.values())
+        .filter(config => config.provider === 'ollama' && config.parameters?.model)
+        .map(config => OllamaClient.normalizeName(config.parameters!.model))
+    );
+
+    const discovered: ModelConfig[] = [];
+    for (const model of installed) {
+      if (configuredTags.has(OllamaClient.normalizeName(model.name))) {
+        continue;
+      }
+
+      let details: OllamaModelDetails | null = null;
+      try {
+        details = await this.ollamaClient.showModel(model.name);
+      } catch (error) {
+        console.warn(`⚠️ Could not read details for ${model.name}:`, error.message);
+      }
+
+      const config = this.buildOllamaConfig(model, details);
+      this.modelConfigs.set(config.id, config);
+      discovered.push(config);
+    }
+
+    if (discovered.length > 0) {
+      this.logTransaction({
+        type: 'info',
+        model: 'Ollama',
+        operation: 'initialization',
+        response: `Discovered ${discovered.length} Ollama model(s): ${discovered.map(config => config.parameters?.model).join(', ')}`,
+        metadata: { contextLength: 0 }
+      });
+    }
+
+    return discovered;
+  }
+
+  private buildOllamaConfig(model: OllamaModelInfo, details: OllamaModelDetails | null): ModelConfig {
+    const family = details?.family || model.family || 'unknown';
+    const families = details?.families || [];
+    const isEmbedding = [family, ...families].some(name => /bert/i.test(name)) || /embed/i.test(model.name);
+    const isCodeModel = /code|coder|codestral|starcoder/i.test(model.name);
+    const parameterSize = details?.parameterSize || model.parameterSize;
+    const billions = parseFloat(parameterSize || '') || 0;
+
+    let specialties: string[];
+    if (isEmbedding) {
+      specialties = ['embedding'];
+    } else if (isCodeModel) {
+      specialties = ['code-completion', 'code-generation', 'debugging', 'chat', 'general-coding'];
+    } else {
+      specialties = ['chat', 'general-coding', 'reasoning'];
+    }
+
+    return {
+      id: `ollama/${model.name}`,
+      name: `${model.name} (Ollama)`,
+      provider: 'ollama',
+      type: isEmbedding ? 'embedding' : 'chat',
+      maxTokens: 2048,
+      contextWindow: details?.contextLength || 4096,
+      specialties,
+      languages: SUPPORTED_LANGUAGES,
+      latency: billions === 0 || billions <= 8 ? 'low' : billions <= 34 ? 'medium' : 'high',
+      isLocal: true,
+      endpoint: `${this.ollamaClient.getBaseUrl()}/api/generate`,
+      parameters: {
+        model: model.name,
+        family,
+        families,
+        parameterSize,
+        quantization: details?.quantization || model.quantization,
+        template: details?.template,
+        size: model.size
+      }
+    };
+  }
+
+  // Pick up models pulled since startup, including configured models that were missing at startup
+  async refreshOllamaModels(): Promise<ModelConfig[]> {
+    const discovered = await this.discoverOllamaModels();
+    const pending = Array.from(this.modelConfigs.values())
+      .filter(config => config.provider === 'ollama' && !this.models.has(config.id) && !discovered.includes(config));
+
+    for (const config of [...discovered, ...pending]) {
+      const model = this.createModelInstance(config);
+      if (!model) continue;
+
+      try {
+        await model.initialize();
+        this.models.set(config.id, model);
+        console.log(`✅ Initialized model: ${config.name}`);
+      } catch (error) {
+        console.warn(`⚠️ Failed to initialize ${config.name}:`, error.message);
+      }
+    }
+
+    return discovered;
+  }
+
+  async listOllamaModels(): Promise<OllamaModelInfo[]> {
+    return this.ollamaClient.listModels();
+  }
+
+  // Models Ollama currently holds in memory
+  async listLoadedOllamaModels(): Promise<OllamaRunningModel[]> {
+    return this.ollamaClient.listRunning();
+  }
+
+  // Downloads a model with progress; cancel with cancelRequest(requestId). Once done the
+  // model is registered (or initialized, if it was configured but missing) like at startup.
+  async pullOllamaModel(requestId: string, name: string, onProgress: (progress: OllamaPullProgress) => void): Promise<ModelConfig[]> {
+    const controller = this.beginRequest(requestId);
+    try {
+      console.log(`⬇️ Pulling ${name} from Ollama...`);
+      await this.ollamaClient.pullModel(name, status => onProgress({ requestId, model: name, ...status }), controller.signal);
+
+      // A re-pulled tag may have new weights, so answers cached for it are stale
+      for (const config of this.getOllamaConfigs(name)) {
+        await this.invalidateResponseCache(config.id);
+      }
+
+      const registered = await this.refreshOllamaModels();
+      this.logTransaction({
+        type: 'info',
+        model: 'Ollama',
+        operation: 'initialization',
+        response: `Pulled ${name}`,
+        metadata: { contextLength: 0, requestId }
+      });
+      return registered;
+    } catch (error) {
+      throw await toAIError(error);
+    } finally {
+      this.endRequest(requestId);
+    }
+  }
+
+  // Removes the model from Ollama and unloads every config serving it. Discovered configs
+  // are dropped; configured ones stay registered so a later pull brings them back.
+  async deleteOllamaModel(name: string): Promise<void> {
+    await this.ollamaClient.deleteModel(name);
+
+    for (const config of this.getOllamaConfigs(name)) {
+      if (config.id === `ollama/${config.parameters?.model}`) {
+        await this.removeModel(config.id);
+        continue;
+      }
+      await this.models.get(config.id)?.cleanup();
+      this.models.delete(config.id);
+      this.healthTracker.reset(config.id);
+      await this.invalidateResponseCache(config.id);
+    }
+
+    this.logTransaction({
+      type: 'info',
+      model: 'Ollama',
+      operation: 'initialization',
+      response: `Deleted ${name}`,
+      metadata: { contextLength: 0 }
+    });
+  }
+
+  private getOllamaConfigs(name: string): ModelConfig[] {
+    const tag = OllamaClient.normalizeName(name);
+    return Array.from(this.modelConfigs.values()).filter(config =>
+      config.provider === 'ollama' && config.parameters?.model && OllamaClient.normalizeName(config.parameters.model) === tag
+    );
+  }
+
   private createModelInstance(config: ModelConfig): AIModel | null {
+    // Cloud models without a key stay registered but are not created until one is added
+    if (!config.isLocal && CredentialProvider.isCredentialProvider(config.provider)) {
+      const apiKey = this.credentials.getKey(config.provider);
+      if (!apiKey) {
+        console.log(`🔑 Skipping ${config.name}: no ${config.provider} API key`);
+        return null;
+      }
+      // Only the instance gets the key; modelConfigs are sent to the renderer
+      config = { ...config, apiKey };
+    }
+
+    let model = this.createProviderModel(config);
+
+    // Nothing leaves the machine unredacted; recording wraps this so cassettes keep the real text
+    if (model && !config.isLocal && config.provider !== 'mock') {
+      model = new RedactingModel(model, this.redactor, {
+        isEnabled: () => this.workspacePolicy.redactSecrets,
+        onRedacted: (counts, operation) => this.logRedaction(config, counts, operation)
+      });
+    }
+
+    // A local server runs one generation at a time; cloud APIs take several in parallel
+    this.scheduler.setLimit(
+      RequestScheduler.endpointKey(config.endpoint),
+      config.parameters?.maxConcurrency || (config.isLocal ? 1 : 4)
+    );
+
+    // Record real provider traffic for later replay by the mock model
+    const cassettePath = process.env[RECORD_CASSETTE_ENV];
+    if (model && cassettePath && config.provider !== 'mock') {
+      this.recordingCassette = this.recordingCassette || new Cassette(cassettePath);
+      return new RecordingModel(model, this.recordingCassette);
+    }
+
+    return model;
+  }
+
+  private createProviderModel(config: ModelConfig): AIModel | null {
     switch (config.provider) {
       case 'local':
-        if (config.id.includes('codellama')) {
-          return new CodeLlamaModel(config);
-        } else if (config.id.includes('deepseek')) {
-          return new DeepSeekCoderModel(config);
-        } else if (config.id.includes('qwen')) {
-          return new QwenCoderModel(config);
-        } else if (config.id.includes('llama')) {
-          return new LlamaModel(config);
-        }
-        break;
+      case 'ollama':
+        return new OllamaModel(config);
       case 'anthropic':
         return new ClaudeModel(config);
       case 'mistral':
         return new CodestralModel(config);
       case 'openai':
         return new OpenAIModel(config);
+      case 'openai-compatible':
+        return new OpenAICompatibleModel(config);
+      case 'mock':
+        return new MockModel(config);
       default:
         console.warn(`Unknown model provider: ${config.provider}`);
         return null;
     }
-    return null;
   }
 
   async setCurrentModel(modelId: string): Promise<void> {
@@ -180,6 +553,7 @@ export class AIModelManager {
     
     const previousModel = this.currentModel;
     this.currentModel = modelId;
+    this.warmUpModel(modelId);
     const newModelName = this.modelConfigs.get(modelId)?.name || modelId;
     
     console.log(`Switched to model: ${newModelName}`);
@@ -198,97 +572,258 @@ export class AIModelManager {
     return this.models.get(this.currentModel) || null;
   }
 
+  getAllModelConfigs(): ModelConfig[] {
+    return Array.from(this.modelConfigs.values());
+  }
+
+  // Register a config to be instantiated by initialize()
+  registerModelConfig(config: ModelConfig): void {
+    this.modelConfigs.set(config.id, config);
+  }
+
   getAvailableModels(): ModelConfig[] {
     return Array.from(this.modelConfigs.values()).filter(config => 
       this.models.has(config.id)
     );
   }
 
-  // Smart model selection with performance optimization
-  selectOptimalModel(taskType: string, context: any, userPreferences?: any): string {
-    const availableModels = this.getAvailableModels();
-    
-    if (availableModels.length === 0) {
-      throw new Error('No AI models available');
+  // Routing policy: pinned selection, per-task/language rules and privacy preference
+  setRoutingPolicy(policy: Partial<RoutingPolicy>): void {
+    this.router.setPolicy(policy);
+  }
+
+  getRoutingPolicy(): RoutingPolicy {
+    return this.router.getPolicy();
+  }
+
+  selectOptimalModel(taskType: string, context: any, message?: string): string {
+    return this.routeRequest(taskType, context, message).modelId;
+  }
+
+  private routeRequest(task: string, context: any, message?: string): RoutingDecision {
+    const available = this.getAvailableModels();
+    const allowed = this.workspacePolicy.localModelsOnly ? available.filter(config => config.isLocal) : available;
+    if (allowed.length === 0 && available.length > 0) {
+      throw new AIError('blocked-by-policy', 'This workspace allows local models only, and no local model is available');
     }
 
-    // Filter models by task specialty
-    let suitableModels = availableModels.filter(model => 
-      model.specialties.includes(taskType) || 
-      model.specialties.includes('general-coding') ||
-      model.specialties.includes('chat')
-    );
+    return this.router.route({
+      task,
+      intent: message ? ModelRouter.inferChatIntent(message) : undefined,
+      language: this.getContextLanguage(context),
+      currentModelId: this.currentModel,
+      available: allowed
+    });
+  }
 
-    // For real-time features, prefer fast models
-    if (taskType === 'inline-completion' || taskType === 'chat') {
-      const fastModels = suitableModels.filter(model => 
-        model.latency === 'low' || model.id.includes('7b')
-      );
-      if (fastModels.length > 0) {
-        suitableModels = fastModels;
+  // Applied when a workspace is opened; see privacy/workspacePolicy.ts
+  setWorkspacePolicy(policy: WorkspacePolicy): void {
+    this.workspacePolicy = { ...policy };
+  }
+
+  getWorkspacePolicy(): WorkspacePolicy {
+    return { ...this.workspacePolicy };
+  }
+
+  setCredentialProvider(credentials: CredentialProvider): void {
+    this.credentials = credentials;
+  }
+
+  // Re-creates the provider's cloud models with its current key under the same ids, so
+  // selections, fallback chains and rules keep pointing at them. Without a key the models
+  // are retired until one is added again. Returns how many models are active afterwards.
+  async reloadProviderModels(provider: CredentialProviderId): Promise<number> {
+    const configs = Array.from(this.modelConfigs.values())
+      .filter(config => config.provider === provider && !config.isLocal);
+    let active = 0;
+
+    for (const config of configs) {
+      const previous = this.models.get(config.id);
+      const model = this.createModelInstance(config);
+
+      if (model) {
+        try {
+          await model.initialize();
+          this.models.set(config.id, model);
+          active++;
+        } catch (error) {
+          console.warn(`⚠️ Failed to initialize ${config.name}:`, error.message);
+          this.models.delete(config.id);
+        }
+      } else {
+        this.models.delete(config.id);
       }
+
+      // Requests already running on the old instance finish on their own
+      await previous?.cleanup().catch(error => console.warn(`⚠️ Cleanup of ${config.name} failed:`, error.message));
+      this.healthTracker.reset(config.id);
     }
 
-    // Prefer local models for privacy
-    if (userPreferences?.preferLocal !== false) {
-      const localModels = suitableModels.filter(model => model.isLocal);
-      if (localModels.length > 0) {
-        suitableModels = localModels;
-      }
+    if (!this.models.has(this.currentModel)) {
+      this.currentModel = this.selectDefaultModel();
     }
 
-    // Return the best available model
-    return this.models.has("codellama-7b-instruct") ? "codellama-7b-instruct" : (suitableModels.length > 0 ? suitableModels[0].id : this.currentModel);
+    this.logTransaction({
+      type: 'info',
+      model: provider,
+      operation: 'initialization',
+      response: active > 0
+        ? `Reloaded ${active} ${provider} model${active === 1 ? '' : 's'} with the ${this.credentials.getSource(provider)} API key`
+        : `Retired ${provider} models: no API key`,
+      metadata: { contextLength: 0, provider, models: configs.map(config => config.id) }
+    });
+    return active;
+  }
+
+  getApiKeyStatus(): ApiKeyStatus[] {
+    return CREDENTIAL_PROVIDERS.map(provider => ({
+      provider,
+      source: this.credentials.getSource(provider),
+      maskedKey: this.credentials.getMaskedKey(provider),
+      models: Array.from(this.modelConfigs.values())
+        .filter(config => config.provider === provider && !config.isLocal)
+        .map(config => ({ id: config.id, name: config.name, active: this.models.has(config.id) }))
+    }));
+  }
+
+  private getContextLanguage(context: any): string | undefined {
+    return context?.language || context?.activeFile?.language || context?.position?.language;
   }
 
-  async getCompletion(prompt: string, context: any): Promise<string> {
+  async getCompletion(prompt: string, context: any, requestId: string = this.generateRequestId()): Promise<string> {
     if (this.models.size === 0) {
-      return 'AI models not available. Please check Ollama connection.';
+      throw this.noModelsError();
     }
 
+    const controller = this.beginRequest(requestId);
+
     try {
       const optimalModel = this.selectOptimalModel('code-completion', context);
-      const model = this.models.get(optimalModel);
-      
-      if (!model) {
-        return 'Selected AI model not available.';
-      }
 
       const request: CompletionRequest = {
         prompt,
         context,
         maxTokens: 512, // Reduced for faster response
         temperature: 0.2,
-        stopSequences: ['\n\n', '```']
+        stopSequences: ['\n\n', '```'],
+        requestId,
+        signal: controller.signal
       };
 
-      return await model.complete(request);
+      return await this.runCachedCompletion(
+        'code-completion',
+        optimalModel,
+        'completion',
+        request,
+        controller.signal,
+        (model, _, onUsage) => model.complete({ ...request, onUsage })
+      );
     } catch (error) {
-      console.error('AI completion failed:', error);
-      return 'Sorry, I encountered an error generating the completion.';
+      if (controller.signal.aborted) {
+        this.logCancellation(requestId, 'completion');
+        return '';
+      }
+      const aiError = await toAIError(error);
+      console.error(`AI completion failed [${aiError.code}]:`, aiError.message);
+      throw aiError;
+    } finally {
+      this.endRequest(requestId);
     }
   }
 
-  async chat(message: string, context: any): Promise<string> {
+  async chat(message: string, context: any, requestId: string = this.generateRequestId()): Promise<string> {
+    return (await this.runChat(requestId, message, context)).content;
+  }
+
+  // Same as chat, but forwards tokens to onToken as the model produces them
+  async chatStream(
+    requestId: string,
+    message: string,
+    context: any,
+    onToken: (token: string) => void,
+    onToolCall?: (call: ToolCall, result: ToolResult) => void
+  ): Promise<string> {
+    return (await this.runChat(requestId, message, context, { onToken, onToolCall })).content;
+  }
+
+  // Sends one message to several models at once. Every model runs as its own request
+  // (`<requestId>:<modelId>`) without fallback or cache, so the columns are comparable
+  // and can be cancelled one by one; a failing model does not fail the others.
+  async compareChat(
+    requestId: string,
+    message: string,
+    context: any,
+    modelIds: string[],
+    onToken: (modelId: string, token: string) => void
+  ): Promise<ComparisonResult[]> {
     if (this.models.size === 0) {
-      return 'AI chat not available. Please check Ollama connection and ensure models are installed.';
+      throw this.noModelsError();
     }
 
-    try {
-      const optimalModel = this.selectOptimalModel('chat', context);
-      const model = this.models.get(optimalModel);
-      
-      if (!model) {
-        return 'Selected AI model not available for chat.';
+    const results = await Promise.all(modelIds.map(async (modelId): Promise<ComparisonResult> => {
+      const modelName = this.modelConfigs.get(modelId)?.name || modelId;
+      const startTime = Date.now();
+      try {
+        const run = await this.runChat(`${requestId}:${modelId}`, message, context, {
+          modelId,
+          onToken: token => onToken(modelId, token)
+        });
+        return {
+          modelId,
+          modelName,
+          content: run.content,
+          latency: run.latency ?? Date.now() - startTime,
+          timeToFirstToken: run.timeToFirstToken,
+          tokens: run.tokens ?? this.countTokens(run.content, modelId),
+          costUsd: run.costUsd,
+          cancelled: run.cancelled
+        };
+      } catch (error) {
+        const aiError = await toAIError(error, this.modelConfigs.get(modelId));
+        return { modelId, modelName, content: '', latency: Date.now() - startTime, tokens: 0, error: aiError.toInfo() };
       }
+    }));
+
+    await this.performanceStore?.recordComparisonRun(ModelRouter.inferChatIntent(message) || 'chat', this.getContextLanguage(context), results);
+    return results;
+  }
+
+  private async runChat(
+    requestId: string,
+    message: string,
+    context: any,
+    options: ChatRunOptions = {}
+  ): Promise<ChatRunResult> {
+    const { onToken, onToolCall } = options;
+    if (this.models.size === 0) {
+      throw this.noModelsError();
+    }
+
+    const controller = this.beginRequest(requestId);
+    // Tokens already streamed are kept if the request is cancelled midway
+    let partialResponse = '';
+    const promptTemplateRefs = new Set<string>();
+
+    try {
+      const routing: RoutingDecision = options.modelId
+        ? { modelId: options.modelId, reason: 'compare mode' }
+        : this.routeRequest('chat', context, message);
+      const optimalModel = routing.modelId;
+      const useTools = !!context.useTools && !!this.toolRegistry;
+      // Compare mode measures the chosen model itself: no fallback, no cached answers
+      const allowFallback = !options.modelId;
 
       const request: ChatRequest = {
         message,
         context,
         history: context.history || [],
         maxTokens: 1024, // Reduced for faster response
-        temperature: 0.3
+        temperature: 0.3,
+        requestId,
+        signal: controller.signal,
+        onPromptTemplate: templateRef => promptTemplateRefs.add(templateRef)
       };
+      let contextBudget: ContextBudgetReport | undefined;
 
       // Log the chat request with enhanced API call details
       this.logTransaction({
@@ -305,7 +840,10 @@ export class AIModelManager {
           modelId: optimalModel,
           provider: this.modelConfigs.get(optimalModel)?.provider || 'unknown',
           isLocal: this.modelConfigs.get(optimalModel)?.isLocal || false,
-          requestId: `req-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+          requestId,
+          streamed: !!onToken,
+          tools: useTools,
+          routingReason: routing.reason,
           timestamp: Date.now(),
           // Request structure details
           requestStructure: {
@@ -317,81 +855,1097 @@ export class AIModelManager {
         }
       });
 
-      // Get the response from the model
-      const startTime = Date.now();
-      const response = await model.chat(request);
-      const latency = Date.now() - startTime;
+      let startTime = Date.now();
+      let timeToFirstToken: number | undefined;
+      const primaryPacked = this.packChatRequest(request, optimalModel);
+      const cacheInput = this.getCacheInput('chat', optimalModel, primaryPacked.request);
+      // Answers built from tool results depend on the workspace as it is now, so they skip the cache
+      const cached: { response?: string; status?: CacheStatus } = useTools || !allowFallback ? {} : await this.readCache(cacheInput);
+      let served: { result: string; modelId: string; hops: number; queuedMs: number; retries: number; usage?: TokenUsage };
+      let toolCallCount: number | undefined;
+
+      if (useTools) {
+        const toolChat = await this.runToolChat(request, optimalModel, controller.signal, onToolCall, allowFallback);
+        contextBudget = toolChat.report;
+        toolCallCount = toolChat.toolCalls;
+        partialResponse = toolChat.result;
+        onToken?.(toolChat.result);
+        served = toolChat;
+      } else if (cached.response !== undefined) {
+        contextBudget = primaryPacked.report;
+        timeToFirstToken = 0;
+        partialResponse = cached.response;
+        onToken?.(cached.response);
+        served = { result: cached.response, modelId: optimalModel, hops: 0, queuedMs: 0, retries: 0 };
+      } else {
+        // Get the response from the model, walking the fallback chain on failure
+        served = await this.runWithFallback(
+          'chat',
+          optimalModel,
+          'chat',
+          controller.signal,
+          (model, modelId, onUsage) => {
+            startTime = Date.now();
+            timeToFirstToken = undefined;
+            // Packed per attempt: a fallback model may have a smaller context window
+            const packed = modelId === optimalModel ? primaryPacked : this.packChatRequest(request, modelId);
+            const attemptRequest = { ...packed.request, onUsage };
+            contextBudget = packed.report;
+            return onToken
+              ? model.chatStream(attemptRequest, token => {
+                  if (timeToFirstToken === undefined) {
+                    timeToFirstToken = Date.now() - startTime;
+                  }
+                  partialResponse += token;
+                  onToken(token);
+                })
+              : model.chat(attemptRequest);
+          },
+          // Once tokens reached the user, switching models would garble the answer
+          () => allowFallback && partialResponse === ''
+        );
+        if (served.modelId === optimalModel) {
+          await this.writeCache(cacheInput, cached.status, served.result);
+        }
+      }
+
+      const { result: response, modelId: servedModel, hops, queuedMs, retries } = served;
+      const latency = Math.max(1, Date.now() - startTime);
+      // Cache hits cost nothing; providers that report no usage are counted with the tokenizer
+      const usage = cached.response === undefined
+        ? served.usage || this.estimateUsage(contextBudget?.used || 0, response, servedModel)
+        : undefined;
+      const costUsd = usage ? await this.recordUsage(servedModel, usage) : undefined;
+      const tokens = usage ? usage.outputTokens : this.countTokens(response, servedModel);
 
       // Log the chat response with enhanced details
       this.logTransaction({
         type: 'response',
-        model: this.modelConfigs.get(optimalModel)?.name || optimalModel,
+        model: this.modelConfigs.get(servedModel)?.name || servedModel,
         operation: 'chat',
         response: response,
         metadata: { 
           latency: latency,
           contextLength: context.history?.length || 0,
-          // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
-          tokens: Math.ceil(response.length / 4),
+          tokens,
           // Enhanced response details
           responseTime: new Date().toISOString(),
           responseSize: response.length,
           // Performance metrics
-          tokensPerSecond: Math.round((Math.ceil(response.length / 4) / (latency / 1000)) * 100) / 100,
+          tokensPerSecond: Math.round((tokens / (latency / 1000)) * 100) / 100,
+          contextBudget,
+          promptTemplate: Array.from(promptTemplateRefs).join(', '),
+          streamed: !!onToken,
+          timeToFirstToken,
+          fallbackHops: hops,
+          usage,
+          costUsd,
+          toolCalls: toolCallCount,
+          cache: cached.status,
+          queueWaitMs: queuedMs,
+          retries,
           // API call completion details
-          endpoint: this.modelConfigs.get(optimalModel)?.endpoint || 'unknown',
-          modelId: optimalModel,
-          provider: this.modelConfigs.get(optimalModel)?.provider || 'unknown',
-          isLocal: this.modelConfigs.get(optimalModel)?.isLocal || false
+          endpoint: this.modelConfigs.get(servedModel)?.endpoint || 'unknown',
+          modelId: servedModel,
+          provider: this.modelConfigs.get(servedModel)?.provider || 'unknown',
+          isLocal: this.modelConfigs.get(servedModel)?.isLocal || false
         }
       });
 
-      return response;
+      return { content: response, modelId: servedModel, latency, timeToFirstToken, tokens, costUsd };
     } catch (error) {
-      console.error('AI chat failed:', error);
+      if (controller.signal.aborted) {
+        this.logCancellation(requestId, 'chat');
+        return { content: partialResponse, cancelled: true };
+      }
+
+      const aiError = await toAIError(error);
+      console.error(`AI chat failed [${aiError.code}]:`, aiError.message);
       
       // Log the chat error
       this.logTransaction({
         type: 'error',
         model: this.modelConfigs.get(this.currentModel)?.name || this.currentModel,
         operation: 'chat',
-        response: `Chat failed: ${error.message}`,
+        response: `Chat failed: ${aiError.message}`,
         metadata: { 
           contextLength: context.history?.length || 0,
-          error: error.message
+          error: aiError.message,
+          errorType: aiError.code,
+          promptTemplate: Array.from(promptTemplateRefs).join(', ')
         }
       });
       
-      return 'Sorry, I encountered an error. Please try again.';
+      throw aiError;
+    } finally {
+      this.endRequest(requestId);
     }
   }
 
-  async getInlineCompletion(code: string, position: any): Promise<string> {
+  // Runs the model, executes the tools it asks for and sends the results back until it answers.
+  // Rounds are kept provider-neutral, so each one can walk the fallback chain on its own.
+  private async runToolChat(
+    request: ChatRequest,
+    primaryModelId: string,
+    signal: AbortSignal,
+    onToolCall?: (call: ToolCall, result: ToolResult) => void,
+    allowFallback: boolean = true
+  ): Promise<{ result: string; modelId: string; hops: number; queuedMs: number; retries: number; usage: TokenUsage; report?: ContextBudgetReport; toolCalls: number }> {
+    const tools = this.toolRegistry!.getDefinitions();
+    const toolRounds: ToolRound[] = [];
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let report: ContextBudgetReport | undefined;
+    let hops = 0;
+    let queuedMs = 0;
+    let retries = 0;
+    let toolCalls = 0;
+    let lastModelId = primaryModelId;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      // Replayed rounds take context space, so history and files are packed into what is left
+      const reservedTokens = toolRounds.length > 0 ? this.countTokens(JSON.stringify(toolRounds), primaryModelId) : 0;
+      const served = await this.runWithFallback<ToolChatResponse>(
+        'chat',
+        primaryModelId,
+        'chat',
+        signal,
+        (model, modelId, onUsage) => {
+          const packed = this.packChatRequest(request, modelId, reservedTokens);
+          const toolRequest: ToolChatRequest = { ...packed.request, onUsage, tools, toolRounds };
+          report = packed.report;
+          return model.chatWithTools ? model.chatWithTools(toolRequest) : chatWithPromptTools(model, toolRequest);
+        },
+        () => allowFallback
+      );
+
+      hops += served.hops;
+      queuedMs += served.queuedMs;
+      retries += served.retries;
+      lastModelId = served.modelId;
+      const roundUsage = served.usage
+        || this.estimateUsage((report?.used || 0) + reservedTokens, served.result.content, served.modelId);
+      usage.inputTokens += roundUsage.inputTokens;
+      usage.outputTokens += roundUsage.outputTokens;
+      usage.estimated = usage.estimated || roundUsage.estimated;
+
+      if (served.result.toolCalls.length === 0) {
+        return { result: served.result.content, modelId: served.modelId, hops, queuedMs, retries, usage, report, toolCalls };
+      }
+
+      const results: ToolResult[] = [];
+      for (const call of served.result.toolCalls) {
+        if (signal.aborted) {
+          throw new AIError('cancelled', 'Request cancelled while running tools');
+        }
+
+        const result = await this.toolRegistry!.execute(call);
+        toolCalls++;
+        results.push(result);
+        onToolCall?.(call, result);
+        this.logTransaction({
+          type: 'info',
+          model: this.modelConfigs.get(served.modelId)?.name || served.modelId,
+          operation: 'chat',
+          prompt: `${call.name} ${JSON.stringify(call.arguments)}`,
+          response: result.content,
+          metadata: { modelId: served.modelId, toolName: call.name, toolRound: round + 1, toolError: !!result.isError }
+        });
+      }
+      toolRounds.push({ content: served.result.content, calls: served.result.toolCalls, results });
+    }
+
+    throw new AIError('unknown', `The model was still calling tools after ${MAX_TOOL_ROUNDS} rounds`, {
+      provider: this.modelConfigs.get(lastModelId)?.provider,
+      modelId: lastModelId
+    });
+  }
+
+  // Asks for a JSON answer matching schema. Providers constrain decoding where they can;
+  // the answer is validated either way, and invalid output is sent back with the
+  // validation errors so the model can repair it.
+  async getStructuredOutput<T = any>(
+    message: string,
+    schema: JsonSchema,
+    context: any = {},
+    options: { schemaName?: string; requestId?: string; maxTokens?: number } = {}
+  ): Promise<T> {
+    if (this.models.size === 0) {
+      throw this.noModelsError();
+    }
+
+    const requestId = options.requestId || this.generateRequestId();
+    const controller = this.beginRequest(requestId);
+    const history = [...(context.history || [])];
+    let answer = message;
+    let errors: string[] = [];
+
+    try {
+      const routing = this.routeRequest('chat', context, message);
+
+      for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+        const request: ChatRequest = {
+          message: answer,
+          context,
+          history,
+          maxTokens: options.maxTokens || 1024,
+          temperature: 0,
+          requestId,
+          signal: controller.signal
+        };
+        let report: ContextBudgetReport | undefined;
+        const startTime = Date.now();
+
+        const served = await this.runWithFallback(
+          'chat',
+          routing.modelId,
+          'chat',
+          controller.signal,
+          (model, modelId, onUsage) => {
+            const config = this.modelConfigs.get(modelId);
+            const systemPrompt = renderPrompt(config, 'structured-output-system', { schema: JSON.stringify(schema, null, 2) });
+            const packed = this.packChatRequest({ ...request, systemPrompt }, modelId);
+            report = packed.report;
+            const structuredRequest: StructuredChatRequest = {
+              ...packed.request,
+              onUsage,
+              schema,
+              schemaName: options.schemaName || 'structured_output'
+            };
+            return model.chatStructured ? model.chatStructured(structuredRequest) : model.chat(structuredRequest);
+          }
+        );
+
+        const modelName = this.modelConfigs.get(served.modelId)?.name || served.modelId;
+        const usage = served.usage || this.estimateUsage(report?.used || 0, served.result, served.modelId);
+        const costUsd = await this.recordUsage(served.modelId, usage);
+
+        let value: any;
+        try {
+          value = parseJsonOutput(served.result);
+          errors = validateJsonSchema(value, schema);
+        } catch (error) {
+          errors = [`not valid JSON: ${error.message}`];
+        }
+
+        if (errors.length === 0) {
+          this.logTransaction({
+            type: 'response',
+            model: modelName,
+            operation: 'chat',
+            prompt: message,
+            response: served.result,
+            metadata: {
+              modelId: served.modelId,
+              structuredOutput: options.schemaName || true,
+              attempt,
+              latency: Date.now() - startTime,
+              fallbackHops: served.hops,
+              usage,
+              costUsd,
+              routingReason: routing.reason
+            }
+          });
+          return value as T;
+        }
+
+        console.log(`🧩 ${modelName} returned invalid structured output (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}): ${errors.join('; ')}`);
+        this.logTransaction({
+          type: 'error',
+          model: modelName,
+          operation: 'chat',
+          prompt: answer,
+          response: served.result,
+          metadata: { modelId: served.modelId, structuredOutput: options.schemaName || true, attempt, validationErrors: errors, usage, costUsd }
+        });
+
+        history.push(
+          { role: 'user', content: answer, timestamp: Date.now() },
+          { role: 'assistant', content: served.result, timestamp: Date.now() }
+        );
+        answer = `That answer does not match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\nReply again with only the corrected JSON.`;
+      }
+
+      throw new AIError('invalid-output', `The model did not return valid structured output after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${errors.slice(0, 3).join('; ')}`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.logCancellation(requestId, 'chat');
+        throw new AIError('cancelled', 'Structured output request cancelled');
+      }
+      throw await toAIError(error);
+    } finally {
+      this.endRequest(requestId);
+    }
+  }
+
+  // Fit system prompt, history, active file, selection and snippets into the model's context window
+  private packChatRequest(
+    request: ChatRequest,
+    modelId: string,
+    reservedTokens: number = 0
+  ): { request: ChatRequest; report: ContextBudgetReport } {
+    const config = this.modelConfigs.get(modelId);
+    const budgeter = new ContextBudgeter(getTokenizerForModel(config));
+    const budget = config.contextWindow - request.maxTokens - reservedTokens;
+
+    const packed = budgeter.packChat({
+      systemPrompt: request.systemPrompt || renderPrompt(config, 'chat-system', {}, request.onPromptTemplate),
+      message: request.message,
+      history: request.history,
+      activeFile: request.context?.activeFile,
+      selection: request.context?.selection,
+      snippets: request.context?.snippets
+    }, budget);
+
+    if (packed.report.dropped.length > 0) {
+      console.log(`✂️ Context for ${config.name}: dropped ${packed.report.dropped.map(entry => entry.label).join(', ')}`);
+    }
+
+    return {
+      request: {
+        ...request,
+        systemPrompt: packed.systemPrompt,
+        message: packed.message,
+        history: packed.history
+      },
+      report: packed.report
+    };
+  }
+
+  setPerformanceStore(store: PerformanceStore | null): void {
+    this.performanceStore = store;
+    this.router.setBenchmarks(store?.getBenchmarkSummaries() || []);
+  }
+
+  getBenchmarkSummaries(): BenchmarkSummary[] {
+    return this.performanceStore?.getBenchmarkSummaries() || [];
+  }
+
+  getPerformanceMetrics(): ModelPerformanceMetrics[] {
+    return this.performanceStore?.getMetrics() || [];
+  }
+
+  // The user picked the best answer of a comparison
+  async recordComparisonVote(message: string, context: any, winnerModelId: string, modelIds: string[]): Promise<void> {
+    const taskType = ModelRouter.inferChatIntent(message) || 'chat';
+    await this.performanceStore?.recordVote(taskType, this.getContextLanguage(context), winnerModelId, modelIds);
+    console.log(`🏆 ${this.modelConfigs.get(winnerModelId)?.name || winnerModelId} won a ${taskType} comparison against ${modelIds.length - 1} models`);
+  }
+
+  // Runs the bundled benchmark suite against the given models (all available local
+  // models by default) in the background lane. Cancel with cancelRequest(runId);
+  // the results of the tasks finished so far are still stored and used for routing.
+  async runBenchmark(
+    runId: string,
+    modelIds?: string[],
+    onProgress?: (progress: BenchmarkProgress) => void
+  ): Promise<BenchmarkReport> {
+    const targets = modelIds || this.getAvailableModels()
+      .filter(config => config.isLocal && config.type !== 'embedding' && config.provider !== 'mock')
+      .map(config => config.id);
+    if (targets.length === 0) {
+      throw new AIError('endpoint-unreachable', 'No local models available to benchmark');
+    }
+
+    const controller = this.beginRequest(runId);
+    const runner = new BenchmarkRunner(async (modelId, task, signal) => {
+      const model = this.models.get(modelId);
+      const config = this.modelConfigs.get(modelId);
+      if (!model || !config) {
+        throw new AIError('endpoint-unreachable', `Model ${modelId} is not available`, { modelId });
+      }
+
+      this.checkPolicy(modelId, 'chat');
+      this.checkBudget(modelId, 'chat');
+      let usage: TokenUsage | undefined;
+      const scheduled = await this.scheduler.schedule(
+        RequestScheduler.endpointKey(config.endpoint || modelId),
+        'background',
+        async () => {
+          // Measured inside the task so time spent waiting in the queue is not counted
+          const startTime = Date.now();
+          const response = await model.chat({
+            message: task.prompt,
+            context: {},
+            history: [],
+            maxTokens: task.maxTokens,
+            temperature: 0,
+            signal,
+            onUsage: reported => { usage = reported; }
+          });
+          return { response, latency: Date.now() - startTime };
+        },
+        { signal }
+      );
+
+      const { response, latency } = scheduled.result;
+      const tokens = usage?.outputTokens ?? this.countTokens(response, modelId);
+      const costUsd = usage ? await this.recordUsage(modelId, usage) : undefined;
+      this.logTransaction({
+        type: 'response',
+        model: config.name,
+        operation: 'chat',
+        prompt: task.prompt,
+        response,
+        metadata: { modelId, benchmarkRunId: runId, benchmarkTask: task.id, latency, tokens, maxTokens: task.maxTokens, temperature: 0, usage, costUsd }
+      });
+      return { response, latency, tokens };
+    });
+
+    try {
+      console.log(`📊 Benchmarking ${targets.join(', ')}`);
+      const report = await runner.run(runId, targets, { signal: controller.signal, onProgress });
+      await this.performanceStore?.recordBenchmark(report.summaries);
+      this.router.setBenchmarks(this.performanceStore ? this.performanceStore.getBenchmarkSummaries() : report.summaries);
+      console.log(`✅ Benchmark ${runId} ${report.cancelled ? 'cancelled' : 'finished'} after ${report.results.length} tasks`);
+      return report;
+    } finally {
+      this.endRequest(runId);
+    }
+  }
+
+  setEmbeddingModel(modelId: string | undefined): void {
+    this.embeddingModel = modelId || null;
+  }
+
+  // The selected embedding model while it is up, otherwise the first available one, local first
+  getEmbeddingModelId(): string | null {
+    const candidates = this.getAvailableModels().filter(config => {
+      const model = this.models.get(config.id);
+      return config.type === 'embedding' && !!model?.embed && model.isAvailable()
+        && (config.isLocal || !this.workspacePolicy.localModelsOnly);
+    });
+    if (this.embeddingModel && candidates.some(config => config.id === this.embeddingModel)) {
+      return this.embeddingModel;
+    }
+    return (candidates.find(config => config.isLocal) || candidates[0])?.id || null;
+  }
+
+  // Embeds texts in batches on the background lane. There is no fallback: vectors of
+  // different models cannot be compared, so callers keep them apart by response.model.
+  async embed(texts: string[], requestId: string = this.generateRequestId()): Promise<EmbeddingResponse> {
+    const modelId = this.getEmbeddingModelId();
+    if (!modelId) {
+      throw new AIError('endpoint-unreachable', 'No embedding model available. Pull nomic-embed-text in Ollama or add an OpenAI API key.');
+    }
+
+    const model = this.models.get(modelId)!;
+    const config = this.modelConfigs.get(modelId)!;
+    const controller = this.beginRequest(requestId);
+    const startTime = Date.now();
+    const embeddings: number[][] = [];
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    // Ollama embeds one text per HTTP request, so each text takes the local slot on its own
+    // and a completion waiting for it goes next instead of after the whole batch
+    const batchSize = config.provider === 'ollama' ? 1 : EMBEDDING_BATCH_SIZE;
+
+    try {
+      for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize);
+        this.checkPolicy(modelId, 'embedding');
+        this.checkBudget(modelId, 'embedding');
+
+        let reported: TokenUsage | undefined;
+        const scheduled = await this.scheduler.schedule(
+          RequestScheduler.endpointKey(config.endpoint),
+          'background',
+          () => model.embed!({ texts: batch, signal: controller.signal, onUsage: batchUsage => { reported = batchUsage; } }),
+          { signal: controller.signal }
+        );
+        embeddings.push(...scheduled.result.embeddings);
+
+        const batchUsage = reported || {
+          inputTokens: batch.reduce((sum, text) => sum + this.countTokens(text, modelId), 0),
+          outputTokens: 0,
+          estimated: true
+        };
+        usage.inputTokens += batchUsage.inputTokens;
+        usage.estimated = usage.estimated || batchUsage.estimated;
+      }
+
+      this.healthTracker.recordSuccess(modelId);
+      const costUsd = await this.recordUsage(modelId, usage);
+      this.logTransaction({
+        type: 'response',
+        model: config.name,
+        operation: 'embedding',
+        response: `${embeddings.length} embeddings (${embeddings[0]?.length || 0} dimensions)`,
+        metadata: { modelId, latency: Date.now() - startTime, texts: texts.length, usage, costUsd }
+      });
+      return { embeddings, model: modelId, dimensions: embeddings[0]?.length || 0 };
+    } catch (error) {
+      const aiError = await toAIError(error, config);
+      if (aiError.code !== 'cancelled' && aiError.code !== 'budget-exceeded') {
+        this.healthTracker.recordFailure(modelId, aiError.message);
+      }
+      this.logTransaction({
+        type: 'error',
+        model: config.name,
+        operation: 'embedding',
+        response: `${config.name} failed: ${aiError.message}`,
+        metadata: { modelId, error: aiError.message, errorType: aiError.code, texts: texts.length }
+      });
+      throw aiError;
+    } finally {
+      this.endRequest(requestId);
+    }
+  }
+
+  setToolRegistry(registry: ToolRegistry | null): void {
+    this.toolRegistry = registry;
+  }
+
+  setUsageTracker(tracker: UsageTracker | null): void {
+    this.usageTracker = tracker;
+  }
+
+  getUsageSummary(): UsageSummary | null {
+    return this.usageTracker?.getSummary() || null;
+  }
+
+  setBudgets(budgets: ProviderBudget[]): void {
+    this.usageTracker?.setBudgets(budgets);
+  }
+
+  private estimateUsage(inputTokens: number, response: string, modelId: string): TokenUsage {
+    return { inputTokens, outputTokens: this.countTokens(response, modelId), estimated: true };
+  }
+
+  // Returns the request's cost in USD
+  private async recordUsage(modelId: string, usage: TokenUsage): Promise<number> {
+    const config = this.modelConfigs.get(modelId);
+    if (!config) return 0;
+    return this.usageTracker ? this.usageTracker.record(config, usage) : calculateCost(config, usage);
+  }
+
+  setResponseCache(cache: ResponseCache | null): void {
+    this.responseCache = cache;
+  }
+
+  getResponseCacheStats(): ResponseCacheStats | null {
+    return this.responseCache?.getStats() || null;
+  }
+
+  // Drops cached responses for one model (e.g. after it was re-pulled) or for all models
+  async invalidateResponseCache(modelId?: string): Promise<number> {
+    if (!this.responseCache) return 0;
+    return modelId ? this.responseCache.invalidateModel(modelId) : this.responseCache.clear();
+  }
+
+  // Cache key material: the prompt as the model would receive it plus the sampling parameters
+  private getCacheInput(
+    operation: AITransaction['operation'],
+    modelId: string,
+    request: CompletionRequest | ChatRequest | InlineCompletionRequest
+  ): CacheKeyInput {
+    const config = this.modelConfigs.get(modelId);
+    let prompt: string;
+
+    switch (operation) {
+      case 'chat': {
+        const chat = request as ChatRequest;
+        const history = chat.history.map(msg => `${msg.role}: ${msg.content}`);
+        prompt = [chat.systemPrompt || '', ...history, `user: ${chat.message}`].join('\n');
+        break;
+      }
+      case 'inline-completion':
+        prompt = renderPrompt(config, 'inline-completion', inlineCompletionVariables(request as InlineCompletionRequest));
+        break;
+      default:
+        prompt = renderPrompt(config, 'completion', completionVariables(request as CompletionRequest));
+    }
+
+    return {
+      modelId,
+      operation,
+      prompt,
+      params: {
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        stopSequences: (request as CompletionRequest).stopSequences
+      }
+    };
+  }
+
+  private async readCache(input: CacheKeyInput): Promise<{ response?: string; status?: CacheStatus }> {
+    if (!this.responseCache) return {};
+
+    if (this.responseCache.shouldBypass(input.params.temperature)) {
+      return { status: this.responseCache.recordBypass() };
+    }
+
+    const response = await this.responseCache.get(ResponseCache.keyFor(input));
+    return { response, status: response === undefined ? 'miss' : 'hit' };
+  }
+
+  private async writeCache(input: CacheKeyInput, status: CacheStatus | undefined, response: string): Promise<void> {
+    if (this.responseCache && status === 'miss') {
+      await this.responseCache.set(ResponseCache.keyFor(input), input, response);
+    }
+  }
+
+  // Completions are served from the response cache when possible; answers from a
+  // fallback model are not cached since the key belongs to the primary model
+  private async runCachedCompletion(
+    task: string,
+    modelId: string,
+    operation: 'completion' | 'inline-completion',
+    request: CompletionRequest | InlineCompletionRequest,
+    signal: AbortSignal,
+    attempt: (model: AIModel, modelId: string, onUsage: (usage: TokenUsage) => void) => Promise<string>
+  ): Promise<string> {
+    const startTime = Date.now();
+    const cacheInput = this.getCacheInput(operation, modelId, request);
+    const cached = await this.readCache(cacheInput);
+    let response = cached.response;
+    let servedModel = modelId;
+    let usage: TokenUsage | undefined;
+    let costUsd: number | undefined;
+
+    if (response === undefined) {
+      const served = await this.runWithFallback(task, modelId, operation, signal, attempt);
+      response = served.result;
+      servedModel = served.modelId;
+      if (servedModel === modelId && !signal.aborted) {
+        await this.writeCache(cacheInput, cached.status, response);
+      }
+      usage = served.usage || this.estimateUsage(this.countTokens(cacheInput.prompt, servedModel), response, servedModel);
+      costUsd = await this.recordUsage(servedModel, usage);
+    }
+
+    this.logTransaction({
+      type: 'response',
+      model: this.modelConfigs.get(servedModel)?.name || servedModel,
+      operation,
+      response,
+      metadata: {
+        latency: Date.now() - startTime,
+        tokens: usage ? usage.outputTokens : this.countTokens(response, servedModel),
+        usage,
+        costUsd,
+        cache: cached.status,
+        modelId: servedModel,
+        provider: this.modelConfigs.get(servedModel)?.provider || 'unknown',
+        isLocal: this.modelConfigs.get(servedModel)?.isLocal || false
+      }
+    });
+
+    return response;
+  }
+
+  private countTokens(text: string, modelId: string): number {
+    const config = this.modelConfigs.get(modelId);
+    return config ? getTokenizerForModel(config).count(text) : Math.ceil(text.length / 4);
+  }
+
+  async getInlineCompletion(code: string, position: any, requestId: string = this.generateRequestId()): Promise<string> {
     if (this.models.size === 0) {
       return '';
     }
 
+    // A newer keystroke supersedes any inline completion still in flight
+    if (this.activeInlineRequestId) {
+      this.cancelRequest(this.activeInlineRequestId);
+    }
+    this.activeInlineRequestId = requestId;
+    const controller = this.beginRequest(requestId);
+
     try {
       const optimalModel = this.selectOptimalModel('inline-completion', { code, position });
-      const model = this.models.get(optimalModel);
-      
-      if (!model) {
-        return '';
-      }
 
       const request: InlineCompletionRequest = {
         code,
         position,
         language: position.language || 'javascript',
         maxTokens: 128, // Very small for fast inline completions
-        temperature: 0.1
+        temperature: 0.1,
+        requestId,
+        signal: controller.signal
       };
 
-      return await model.inlineComplete(request);
+      const completion = await this.runCachedCompletion(
+        'inline-completion',
+        optimalModel,
+        'inline-completion',
+        request,
+        controller.signal,
+        (model, _, onUsage) => model.inlineComplete({ ...request, onUsage })
+      );
+      return controller.signal.aborted ? '' : completion;
     } catch (error) {
-      console.error('Inline completion failed:', error);
-      return '';
+      if (controller.signal.aborted) {
+        return '';
+      }
+      const aiError = await toAIError(error);
+      console.error(`Inline completion failed [${aiError.code}]:`, aiError.message);
+      throw aiError;
+    } finally {
+      if (this.activeInlineRequestId === requestId) {
+        this.activeInlineRequestId = null;
+      }
+      this.endRequest(requestId);
+    }
+  }
+
+  // Fallback chains and model health
+  setFallbackChains(chains: Record<string, string[]>): void {
+    this.fallbackChains = { ...chains };
+  }
+
+  getFallbackChains(): Record<string, string[]> {
+    return { ...this.fallbackChains };
+  }
+
+  private getFallbackChain(task: string, primaryModelId: string): string[] {
+    const fallbacks = (this.fallbackChains[task] || []).filter(id => id !== primaryModelId);
+    return [primaryModelId, ...fallbacks];
+  }
+
+  private getPriority(task: string): RequestPriority {
+    if (task === 'inline-completion') return 'inline';
+    if (task === 'chat' || task === 'code-completion') return 'interactive';
+    return 'background';
+  }
+
+  // Try each model of the task's chain in order, skipping models whose circuit is open.
+  // Every hop is logged so the debug panel shows how a request was actually served.
+  private async runWithFallback<T>(
+    task: string,
+    primaryModelId: string,
+    operation: AITransaction['operation'],
+    signal: AbortSignal,
+    attempt: (model: AIModel, modelId: string, onUsage: (usage: TokenUsage) => void) => Promise<T>,
+    canFallback: () => boolean = () => true
+  ): Promise<{ result: T; modelId: string; hops: number; queuedMs: number; retries: number; usage?: TokenUsage }> {
+    let lastError: AIError | null = null;
+    let lastModelId: string | null = null;
+    let hops = 0;
+    let queuedMs = 0;
+    let retries = 0;
+
+    for (const modelId of this.getFallbackChain(task, primaryModelId)) {
+      const model = this.models.get(modelId);
+      const modelName = this.modelConfigs.get(modelId)?.name || modelId;
+      if (!model) continue;
+
+      if (!this.healthTracker.canAttempt(modelId)) {
+        const circuitState = this.healthTracker.getHealth(modelId).state;
+        this.logTransaction({
+          type: 'info',
+          model: modelName,
+          operation,
+          response: circuitState === 'half-open'
+            ? `Skipped ${modelName}: circuit half-open, waiting on a trial request`
+            : `Skipped ${modelName}: circuit open after repeated failures`,
+          metadata: { modelId, circuitState }
+        });
+        if (!canFallback()) {
+          throw new AIError('endpoint-unreachable', `${modelName} is paused after repeated failures`, { modelId });
+        }
+        continue;
+      }
+
+      if (lastError) {
+        hops++;
+        this.logTransaction({
+          type: 'info',
+          model: modelName,
+          operation,
+          response: `Falling back from ${this.modelConfigs.get(lastModelId!)?.name || lastModelId} to ${modelName}`,
+          metadata: { modelId, fallbackHop: hops, fallbackFrom: lastModelId, task }
+        });
+      }
+
+      try {
+        this.checkPolicy(modelId, operation);
+        this.checkBudget(modelId, operation);
+
+        let usage: TokenUsage | undefined;
+        const scheduled = await this.scheduler.schedule(
+          RequestScheduler.endpointKey(this.modelConfigs.get(modelId)?.endpoint || modelId),
+          this.getPriority(task),
+          () => attempt(model, modelId, reported => { usage = reported; }),
+          {
+            signal,
+            onRetry: (retry, delayMs, error) => {
+              retries++;
+              this.logTransaction({
+                type: 'info',
+                model: modelName,
+                operation,
+                response: `Retrying ${modelName} in ${delayMs}ms after ${error.code}`,
+                metadata: { modelId, retry, retryDelayMs: delayMs, errorType: error.code }
+              });
+            }
+          }
+        );
+        this.healthTracker.recordSuccess(modelId);
+        queuedMs += scheduled.queuedMs;
+        return { result: scheduled.result, modelId, hops, queuedMs, retries, usage };
+      } catch (error) {
+        if (signal.aborted) {
+          this.healthTracker.releaseTrial(modelId);
+          throw error;
+        }
+
+        const aiError = await toAIError(error, this.modelConfigs.get(modelId));
+        lastError = aiError;
+        lastModelId = modelId;
+        // An oversized request, an exhausted budget or a policy block says nothing about the model's health
+        const countsAsFailure = aiError.code !== 'context-overflow'
+          && aiError.code !== 'budget-exceeded'
+          && aiError.code !== 'blocked-by-policy';
+        if (!countsAsFailure) {
+          this.healthTracker.releaseTrial(modelId);
+        }
+        const circuitOpened = countsAsFailure && this.healthTracker.recordFailure(modelId, aiError.message);
+        const health = this.healthTracker.getHealth(modelId);
+
+        this.logTransaction({
+          type: 'error',
+          model: modelName,
+          operation,
+          response: `${modelName} failed: ${aiError.message}`,
+          metadata: {
+            modelId,
+            error: aiError.message,
+            errorType: aiError.code,
+            circuitState: health.state,
+            consecutiveFailures: health.consecutiveFailures
+          }
+        });
+
+        if (circuitOpened) {
+          this.logTransaction({
+            type: 'info',
+            model: modelName,
+            operation,
+            response: `Circuit opened for ${modelName} after ${health.consecutiveFailures} consecutive failures`,
+            metadata: { modelId, circuitState: 'open' }
+          });
+        }
+
+        if (!canFallback()) {
+          throw aiError;
+        }
+      }
     }
+
+    throw lastError || new AIError('endpoint-unreachable', `No healthy model available for ${task}`);
+  }
+
+  // The last line of defence for localModelsOnly: whatever picked the model, a cloud call is refused here
+  private checkPolicy(modelId: string, operation: AITransaction['operation']): void {
+    const config = this.modelConfigs.get(modelId);
+    if (!config || config.isLocal || !this.workspacePolicy.localModelsOnly) return;
+
+    this.logTransaction({
+      type: 'info',
+      model: config.name,
+      operation,
+      response: `Blocked ${config.name}: this workspace allows local models only`,
+      metadata: { modelId, provider: config.provider, policy: 'localModelsOnly' }
+    });
+    throw new AIError('blocked-by-policy', `${config.name} is a cloud model and this workspace allows local models only`, {
+      provider: config.provider,
+      modelId
+    });
+  }
+
+  private logRedaction(config: ModelConfig, counts: RedactionCounts, operation: AITransaction['operation']): void {
+    const summary = Object.entries(counts).map(([kind, count]) => `${count} ${kind}`).join(', ');
+    console.log(`🛡️ Redacted ${summary} before sending to ${config.name}`);
+    this.logTransaction({
+      type: 'info',
+      model: config.name,
+      operation,
+      response: `Redacted ${summary} before sending to ${config.name}`,
+      metadata: { modelId: config.id, provider: config.provider, redactions: counts }
+    });
+  }
+
+  // Throws budget-exceeded past a hard limit; soft limits only leave a warning in the debug log
+  private checkBudget(modelId: string, operation: AITransaction['operation']): void {
+    const config = this.modelConfigs.get(modelId);
+    if (!this.usageTracker || !config) return;
+
+    for (const warning of this.usageTracker.checkBudget(config)) {
+      console.warn(`⚠️ ${config.provider} ${warning.period} spend $${warning.spentUsd.toFixed(2)} is over the soft budget of $${warning.softLimitUsd!.toFixed(2)}`);
+      this.logTransaction({
+        type: 'info',
+        model: config.name,
+        operation,
+        response: `Soft budget passed: ${warning.period} ${config.provider} spend $${warning.spentUsd.toFixed(2)} of $${warning.softLimitUsd!.toFixed(2)}`,
+        metadata: { modelId, provider: config.provider, budgetState: warning.state }
+      });
+    }
+  }
+
+  private noModelsError(): AIError {
+    return new AIError('endpoint-unreachable', 'No AI models available. Check that Ollama is running or configure an API key.');
+  }
+
+  getQueueStats(): RequestQueueStats[] {
+    return this.scheduler.getStats();
+  }
+
+  getModelHealth(): ModelHealth[] {
+    return Array.from(this.modelConfigs.keys()).map(id => this.healthTracker.getHealth(id));
+  }
+
+  // Loads the selected model and the local models of the fallback chains, one at a time
+  private async warmUpLocalModels(): Promise<void> {
+    const modelIds = new Set([this.currentModel, ...Object.values(this.fallbackChains).flat()]);
+    for (const modelId of modelIds) {
+      await this.warmUpModel(modelId);
+    }
+  }
+
+  // Asks Ollama to load a local chat model ahead of the first request. Bypasses the scheduler
+  // so a long load does not hold the endpoint's slot; Ollama queues the load itself. Never throws.
+  async warmUpModel(modelId: string): Promise<void> {
+    const config = this.modelConfigs.get(modelId);
+    const tag = config?.parameters?.model;
+    if (!config || !tag || config.provider !== 'ollama' || config.type === 'embedding' || !this.models.has(modelId)) return;
+    if (this.warmingModels.has(modelId) || this.residentModels.has(OllamaClient.normalizeName(tag))) return;
+
+    this.warmingModels.add(modelId);
+    const startTime = Date.now();
+    try {
+      console.log(`🔥 Warming up ${config.name}...`);
+      await this.ollamaClient.loadModel(tag, config.parameters?.keepAlive);
+      await this.refreshResidency();
+      this.logTransaction({
+        type: 'info',
+        model: config.name,
+        operation: 'initialization',
+        response: `Loaded ${config.name} into memory`,
+        metadata: { modelId, latency: Date.now() - startTime, contextLength: 0 }
+      });
+    } catch (error) {
+      const aiError = await toAIError(error, config);
+      console.warn(`⚠️ Warm-up of ${config.name} failed:`, aiError.message);
+    } finally {
+      this.warmingModels.delete(modelId);
+    }
+  }
+
+  startResidencyPolling(intervalMs: number = RESIDENCY_POLL_MS): void {
+    this.stopResidencyPolling();
+    this.refreshResidency();
+    this.residencyTimer = setInterval(() => this.refreshResidency(), intervalMs);
+  }
+
+  stopResidencyPolling(): void {
+    if (this.residencyTimer) {
+      clearInterval(this.residencyTimer);
+      this.residencyTimer = null;
+    }
+  }
+
+  private async refreshResidency(): Promise<void> {
+    try {
+      const running = await this.ollamaClient.listRunning();
+      this.residentModels = new Map(running.map(model => [OllamaClient.normalizeName(model.name), model]));
+    } catch (error) {
+      // Ollama is down, so nothing is loaded
+      this.residentModels.clear();
+    }
+  }
+
+  // Load state of a model (the selected one by default) for the status bar
+  getModelLoadStatus(modelId: string = this.currentModel): ModelLoadStatus {
+    const config = this.modelConfigs.get(modelId);
+    const model = this.models.get(modelId);
+    const base = { modelId, modelName: config?.name || modelId };
+
+    if (!config || !model || !model.isAvailable() || this.healthTracker.getHealth(modelId).state === 'open') {
+      return { ...base, state: 'unavailable' };
+    }
+    if (config.provider !== 'ollama') {
+      return { ...base, state: 'remote' };
+    }
+    if (this.warmingModels.has(modelId)) {
+      return { ...base, state: 'loading' };
+    }
+
+    const resident = this.residentModels.get(OllamaClient.normalizeName(config.parameters?.model || modelId));
+    return resident ? { ...base, state: 'loaded', expiresAt: resident.expiresAt } : { ...base, state: 'unloaded' };
+  }
+
+  // Periodically re-probe models whose circuit is open so they can recover without a request
+  startHealthProbes(intervalMs: number = 30000): void {
+    this.stopHealthProbes();
+    this.healthProbeTimer = setInterval(() => {
+      this.probeUnhealthyModels().catch(error => {
+        console.warn('Model health probe failed:', error.message);
+      });
+    }, intervalMs);
+  }
+
+  stopHealthProbes(): void {
+    if (this.healthProbeTimer) {
+      clearInterval(this.healthProbeTimer);
+      this.healthProbeTimer = null;
+    }
+  }
+
+  private async probeUnhealthyModels(): Promise<void> {
+    for (const modelId of this.healthTracker.getProbeCandidates()) {
+      const model = this.models.get(modelId);
+      if (!model) continue;
+
+      const modelName = this.modelConfigs.get(modelId)?.name || modelId;
+      try {
+        await model.healthCheck();
+        this.healthTracker.recordSuccess(modelId);
+        this.logTransaction({
+          type: 'info',
+          model: modelName,
+          operation: 'initialization',
+          response: `${modelName} recovered, circuit closed`,
+          metadata: { modelId, circuitState: 'closed' }
+        });
+      } catch (error) {
+        this.healthTracker.recordFailure(modelId, error.message);
+      }
+    }
+  }
+
+  // Request lifecycle and cancellation
+  private generateRequestId(): string {
+    return `req-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+  }
+
+  private beginRequest(requestId: string): AbortController {
+    const controller = new AbortController();
+    this.activeRequests.set(requestId, controller);
+    return controller;
+  }
+
+  private endRequest(requestId: string): void {
+    this.activeRequests.delete(requestId);
+  }
+
+  cancelRequest(requestId: string): boolean {
+    const controller = this.activeRequests.get(requestId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.activeRequests.delete(requestId);
+    return true;
+  }
+
+  private logCancellation(requestId: string, operation: AITransaction['operation']): void {
+    this.logTransaction({
+      type: 'info',
+      model: this.modelConfigs.get(this.currentModel)?.name || this.currentModel,
+      operation,
+      response: `Request ${requestId} cancelled`,
+      metadata: { requestId, cancelled: true }
+    });
   }
 
   async addModel(config: ModelConfig): Promise<void> {
@@ -413,16 +1967,29 @@ export class AIModelManager {
       const model = this.models.get(modelId);
       await model?.cleanup();
       this.models.delete(modelId);
-      this.modelConfigs.delete(modelId);
+    }
+    this.healthTracker.reset(modelId);
+    await this.invalidateResponseCache(modelId);
+
+    if (this.modelConfigs.delete(modelId)) {
       console.log(`Removed model: ${modelId}`);
     }
   }
 
   async cleanup(): Promise<void> {
+    this.stopHealthProbes();
+    this.stopResidencyPolling();
+
+    for (const controller of this.activeRequests.values()) {
+      controller.abort();
+    }
+    this.activeRequests.clear();
+
     for (const model of this.models.values()) {
       await model.cleanup();
     }
     this.models.clear();
+    await this.responseCache?.flush();
   }
 
   // Get status for UI display
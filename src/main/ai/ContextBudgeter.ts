@@ -0,0 +1,311 @@
+import { ChatMessage } from '../../shared/types/ai';
+import { AIError } from './errors';
+import { Tokenizer } from './tokenizers';
+
+// How a section is shortened when it doesn't fit: 'drop' removes it entirely,
+// the others keep the head, the tail, both ends, or the lines around focusLine.
+export type TruncationStrategy = 'drop' | 'head' | 'tail' | 'middle' | 'around';
+
+export interface ContextSection {
+  id: string;
+  label: string;
+  content: string;
+  // Higher priorities are packed first
+  priority: number;
+  truncation: TruncationStrategy;
+  focusLine?: number;
+  // A truncated section smaller than this isn't worth sending
+  minTokens?: number;
+  // Never dropped: lower priorities give way first, and pack() throws if even its minimum cannot fit
+  required?: boolean;
+}
+
+export interface PackedSection {
+  id: string;
+  label: string;
+  content: string;
+  tokens: number;
+  originalTokens: number;
+  truncated: boolean;
+}
+
+export interface ContextBudgetReport {
+  tokenizer: string;
+  budget: number;
+  used: number;
+  included: Array<{ id: string; label: string; tokens: number; truncated: boolean }>;
+  dropped: Array<{ id: string; label: string; tokens: number }>;
+}
+
+export interface ChatContextInput {
+  systemPrompt: string;
+  message: string;
+  history: ChatMessage[];
+  activeFile?: {
+    path: string;
+    language?: string;
+    content: string;
+    cursorPosition?: { line: number; column: number };
+  } | null;
+  selection?: string;
+  snippets?: Array<{ path: string; content: string }>;
+}
+
+export interface PackedChatContext {
+  systemPrompt: string;
+  message: string;
+  history: ChatMessage[];
+  report: ContextBudgetReport;
+}
+
+// Chat templates add role markers and separators around every message
+const PER_MESSAGE_OVERHEAD = 4;
+const OMISSION_MARKER_TOKENS = 12;
+
+export class ContextBudgeter {
+  constructor(private tokenizer: Tokenizer) {}
+
+  // Packs sections by priority into the token budget; the result keeps the input order
+  pack(sections: ContextSection[], budget: number): { sections: PackedSection[]; report: ContextBudgetReport } {
+    const byPriority = [...sections].sort((a, b) => Number(!!b.required) - Number(!!a.required) || b.priority - a.priority);
+    const originalTokens = new Map(sections.map(section => [section.id, this.tokenizer.count(section.content)]));
+    const minimum = (section: ContextSection) => Math.min(originalTokens.get(section.id)!, section.minTokens ?? 32);
+    const packed = new Map<string, PackedSection>();
+    const dropped: ContextBudgetReport['dropped'] = [];
+    let remaining = budget;
+
+    // Every required section keeps its minimum until it is packed, so one cannot crowd out another
+    let reserved = sections.filter(section => section.required).reduce((sum, section) => sum + minimum(section), 0);
+    if (reserved > budget) {
+      throw new AIError('context-overflow', `The context window leaves ${budget} tokens, too few for the system prompt and message (${reserved} tokens at least)`);
+    }
+
+    for (const section of byPriority) {
+      const tokens = originalTokens.get(section.id)!;
+      if (section.required) {
+        reserved -= minimum(section);
+      }
+      const available = remaining - reserved;
+
+      if (tokens <= available) {
+        packed.set(section.id, { ...section, tokens, originalTokens: tokens, truncated: false });
+        remaining -= tokens;
+        continue;
+      }
+
+      if (!section.required && (section.truncation === 'drop' || available < (section.minTokens ?? 32))) {
+        dropped.push({ id: section.id, label: section.label, tokens });
+        continue;
+      }
+      if (section.truncation === 'drop') {
+        throw new AIError('context-overflow', `${section.label} (${tokens} tokens) does not fit in the ${budget} token context budget`);
+      }
+
+      const content = this.truncate(section, available);
+      const truncatedTokens = this.tokenizer.count(content);
+      packed.set(section.id, { ...section, content, tokens: truncatedTokens, originalTokens: tokens, truncated: true });
+      remaining -= truncatedTokens;
+    }
+
+    const result = sections.filter(section => packed.has(section.id)).map(section => packed.get(section.id)!);
+
+    return {
+      sections: result,
+      report: {
+        tokenizer: this.tokenizer.name,
+        budget,
+        used: budget - remaining,
+        included: result.map(({ id, label, tokens, truncated }) => ({ id, label, tokens, truncated })),
+        dropped
+      }
+    };
+  }
+
+  packChat(input: ChatContextInput, budget: number): PackedChatContext {
+    const sections: ContextSection[] = [
+      { id: 'system', label: 'System prompt', content: input.systemPrompt, priority: 100, truncation: 'head', required: true },
+      { id: 'message', label: 'User message', content: input.message, priority: 100, truncation: 'middle', required: true }
+    ];
+
+    if (input.selection) {
+      sections.push({ id: 'selection', label: 'Selection', content: input.selection, priority: 90, truncation: 'middle' });
+    }
+
+    // The latest exchange outranks the open file; older turns lose to it
+    input.history.forEach((msg, index) => {
+      const age = input.history.length - 1 - index;
+      sections.push({
+        id: `history-${index}`,
+        label: `History #${index + 1} (${msg.role})`,
+        content: msg.content,
+        priority: age < 2 ? 85 : Math.max(10, 50 - age),
+        truncation: 'drop'
+      });
+    });
+
+    if (input.activeFile?.content) {
+      sections.push({
+        id: 'active-file',
+        label: `Active file ${input.activeFile.path}`,
+        content: input.activeFile.content,
+        priority: 60,
+        truncation: input.activeFile.cursorPosition ? 'around' : 'head',
+        focusLine: input.activeFile.cursorPosition ? input.activeFile.cursorPosition.line - 1 : undefined,
+        minTokens: 64
+      });
+    }
+
+    (input.snippets || []).forEach((snippet, index) => {
+      sections.push({
+        id: `snippet-${index}`,
+        label: `Snippet ${snippet.path}`,
+        content: snippet.content,
+        priority: 40 - index,
+        truncation: 'drop'
+      });
+    });
+
+    const overhead = (input.history.length + 2) * PER_MESSAGE_OVERHEAD;
+    const { sections: packed, report } = this.pack(sections, Math.max(0, budget - overhead));
+    const byId = new Map(packed.map(section => [section.id, section]));
+
+    // History must stay contiguous: once a turn is dropped, everything older goes too
+    let oldestKept = 0;
+    input.history.forEach((_, index) => {
+      if (!byId.has(`history-${index}`)) oldestKept = index + 1;
+    });
+    for (let index = 0; index < oldestKept; index++) {
+      const section = byId.get(`history-${index}`);
+      if (section) {
+        byId.delete(section.id);
+        report.used -= section.tokens;
+        report.included = report.included.filter(entry => entry.id !== section.id);
+        report.dropped.push({ id: section.id, label: section.label, tokens: section.tokens });
+      }
+    }
+
+    const history = input.history.filter((_, index) => byId.has(`history-${index}`));
+    const contextBlock = this.buildContextBlock(input, byId);
+
+    return {
+      systemPrompt: byId.get('system')?.content || '',
+      message: contextBlock ? `${contextBlock}\n\n${byId.get('message')?.content || ''}` : byId.get('message')?.content || '',
+      history,
+      report
+    };
+  }
+
+  private buildContextBlock(input: ChatContextInput, sections: Map<string, PackedSection>): string {
+    const language = input.activeFile?.language || '';
+    const parts: string[] = [];
+
+    const selection = sections.get('selection');
+    if (selection) {
+      parts.push(`Selected code:\n\`\`\`${language}\n${selection.content}\n\`\`\``);
+    }
+
+    const activeFile = sections.get('active-file');
+    if (activeFile && input.activeFile) {
+      const note = activeFile.truncated ? ' (excerpt)' : '';
+      parts.push(`Current file: ${input.activeFile.path}${note}\n\`\`\`${language}\n${activeFile.content}\n\`\`\``);
+    }
+
+    const snippets = (input.snippets || [])
+      .map((snippet, index) => ({ snippet, section: sections.get(`snippet-${index}`) }))
+      .filter(({ section }) => !!section)
+      .map(({ snippet, section }) => `// ${snippet.path}\n${section!.content}`);
+    if (snippets.length > 0) {
+      parts.push(`Related code:\n\`\`\`\n${snippets.join('\n\n')}\n\`\`\``);
+    }
+
+    return parts.join('\n\n');
+  }
+
+  private truncate(section: ContextSection, maxTokens: number): string {
+    const lines = section.content.split('\n');
+    const budget = maxTokens - OMISSION_MARKER_TOKENS;
+    const cost = (line: string) => this.tokenizer.count(line) + 1;
+
+    // A single oversized line (minified code, long prose): cut characters instead
+    if (lines.length === 1) {
+      const ratio = Math.max(0, budget) / Math.max(1, this.tokenizer.count(section.content));
+      const keep = Math.floor(section.content.length * ratio);
+      if (section.truncation === 'middle') {
+        // Keep both ends, like the line-based 'middle' below
+        const headChars = Math.ceil(keep / 2);
+        const tailChars = keep - headChars;
+        const omitted = section.content.length - keep;
+        return `${section.content.slice(0, headChars)} ... (${omitted} characters omitted) ... ${section.content.slice(section.content.length - tailChars)}`;
+      }
+      return section.truncation === 'tail' ? section.content.slice(-keep) : section.content.slice(0, keep);
+    }
+
+    let start: number;
+    let end: number;
+    let used = 0;
+
+    const grow = (index: number): boolean => {
+      const lineCost = cost(lines[index]);
+      if (used + lineCost > budget) return false;
+      used += lineCost;
+      return true;
+    };
+
+    switch (section.truncation) {
+      case 'tail':
+        start = lines.length;
+        while (start > 0 && grow(start - 1)) start--;
+        return this.joinWithMarkers(lines, start, lines.length);
+
+      case 'middle': {
+        // Alternate between the head and the tail, keeping both ends
+        let head = 0;
+        let tail = lines.length;
+        let fromHead = true;
+        while (head < tail) {
+          const index = fromHead ? head : tail - 1;
+          if (!grow(index)) break;
+          if (fromHead) head++; else tail--;
+          fromHead = !fromHead;
+        }
+        const omitted = tail - head;
+        return [
+          ...lines.slice(0, head),
+          `... (${omitted} lines omitted) ...`,
+          ...lines.slice(tail)
+        ].join('\n');
+      }
+
+      case 'around': {
+        const focus = Math.min(Math.max(section.focusLine ?? 0, 0), lines.length - 1);
+        start = focus;
+        end = focus;
+        let expanded = true;
+        while (expanded) {
+          expanded = false;
+          if (end < lines.length && grow(end)) {
+            end++;
+            expanded = true;
+          }
+          if (start > 0 && grow(start - 1)) {
+            start--;
+            expanded = true;
+          }
+        }
+        return this.joinWithMarkers(lines, start, end);
+      }
+
+      default:
+        end = 0;
+        while (end < lines.length && grow(end)) end++;
+        return this.joinWithMarkers(lines, 0, end);
+    }
+  }
+
+  private joinWithMarkers(lines: string[], start: number, end: number): string {
+    const kept = lines.slice(start, end);
+    if (start > 0) kept.unshift(`... (${start} lines above omitted) ...`);
+    if (end < lines.length) kept.push(`... (${lines.length - end} lines below omitted) ...`);
+    return kept.join('\n');
+  }
+}
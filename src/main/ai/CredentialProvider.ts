@@ -0,0 +1,48 @@
+import { ApiKeySource, CredentialProviderId } from '../../shared/types/ai';
+
+export const CREDENTIAL_PROVIDERS: CredentialProviderId[] = ['anthropic', 'openai', 'mistral'];
+
+const API_KEY_ENV: Record<CredentialProviderId, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  mistral: 'MISTRAL_API_KEY'
+};
+
+// The one place cloud API keys are read from: keys saved in settings win over the
+// environment. Models get their key injected into their config when they are created.
+export class CredentialProvider {
+  private keys: Map<CredentialProviderId, string> = new Map();
+
+  static isCredentialProvider(provider: string): provider is CredentialProviderId {
+    return (CREDENTIAL_PROVIDERS as string[]).includes(provider);
+  }
+
+  // An empty key removes the saved one, leaving the environment variable if there is one
+  setKey(provider: CredentialProviderId, apiKey?: string): void {
+    if (apiKey && apiKey.trim()) {
+      this.keys.set(provider, apiKey.trim());
+    } else {
+      this.keys.delete(provider);
+    }
+  }
+
+  getKey(provider: string): string | undefined {
+    if (!CredentialProvider.isCredentialProvider(provider)) {
+      return undefined;
+    }
+    return this.keys.get(provider) || process.env[API_KEY_ENV[provider]] || undefined;
+  }
+
+  getSource(provider: CredentialProviderId): ApiKeySource {
+    if (this.keys.has(provider)) return 'settings';
+    if (process.env[API_KEY_ENV[provider]]) return 'environment';
+    return 'none';
+  }
+
+  // Enough of the key to tell two keys apart, e.g. "sk-ant…x7Qa"
+  getMaskedKey(provider: CredentialProviderId): string | undefined {
+    const key = this.getKey(provider);
+    if (!key) return undefined;
+    return key.length > 12 ? `${key.slice(0, 6)}…${key.slice(-4)}` : '…';
+  }
+}
@@ -0,0 +1,125 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ModelHealth {
+  modelId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  openedAt?: number;
+}
+
+export interface HealthTrackerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+// Per-model circuit breaker: after failureThreshold consecutive failures the
+// circuit opens and the model is skipped until cooldownMs has passed, after
+// which a single trial request (half-open) decides whether it closes again.
+export class ModelHealthTracker {
+  private health: Map<string, ModelHealth> = new Map();
+  // Half-open models whose trial request has not settled yet
+  private trials: Set<string> = new Set();
+  private options: HealthTrackerOptions;
+
+  constructor(options: Partial<HealthTrackerOptions> = {}) {
+    this.options = {
+      failureThreshold: 3,
+      cooldownMs: 60000,
+      ...options
+    };
+  }
+
+  private getOrCreate(modelId: string): ModelHealth {
+    let entry = this.health.get(modelId);
+    if (!entry) {
+      entry = {
+        modelId,
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalFailures: 0,
+        totalSuccesses: 0
+      };
+      this.health.set(modelId, entry);
+    }
+    return entry;
+  }
+
+  canAttempt(modelId: string): boolean {
+    const entry = this.getOrCreate(modelId);
+
+    if (entry.state === 'open' && this.isCooldownElapsed(entry)) {
+      entry.state = 'half-open';
+    }
+
+    if (entry.state === 'open') return false;
+    if (entry.state === 'half-open') {
+      // Everyone else waits for the trial's outcome
+      if (this.trials.has(modelId)) return false;
+      this.trials.add(modelId);
+    }
+    return true;
+  }
+
+  // Ends a trial that neither succeeded nor failed (cancelled, or refused before reaching the model)
+  releaseTrial(modelId: string): void {
+    this.trials.delete(modelId);
+  }
+
+  recordSuccess(modelId: string): void {
+    const entry = this.getOrCreate(modelId);
+    this.trials.delete(modelId);
+    entry.state = 'closed';
+    entry.consecutiveFailures = 0;
+    entry.totalSuccesses++;
+    entry.lastSuccessAt = Date.now();
+    entry.openedAt = undefined;
+  }
+
+  // Returns true when this failure opened the circuit
+  recordFailure(modelId: string, error: string): boolean {
+    const entry = this.getOrCreate(modelId);
+    const wasOpen = entry.state === 'open';
+    this.trials.delete(modelId);
+
+    entry.consecutiveFailures++;
+    entry.totalFailures++;
+    entry.lastError = error;
+    entry.lastFailureAt = Date.now();
+
+    if (entry.state === 'half-open' || entry.consecutiveFailures >= this.options.failureThreshold) {
+      entry.state = 'open';
+      entry.openedAt = Date.now();
+    }
+
+    return !wasOpen && entry.state === 'open';
+  }
+
+  // Open circuits whose cooldown has passed and are due for a background probe
+  getProbeCandidates(): string[] {
+    return Array.from(this.health.values())
+      .filter(entry => entry.state === 'open' && this.isCooldownElapsed(entry))
+      .map(entry => entry.modelId);
+  }
+
+  getHealth(modelId: string): ModelHealth {
+    return { ...this.getOrCreate(modelId) };
+  }
+
+  getAllHealth(): ModelHealth[] {
+    return Array.from(this.health.values()).map(entry => ({ ...entry }));
+  }
+
+  reset(modelId: string): void {
+    this.health.delete(modelId);
+    this.trials.delete(modelId);
+  }
+
+  private isCooldownElapsed(entry: ModelHealth): boolean {
+    return !!entry.openedAt && Date.now() - entry.openedAt >= this.options.cooldownMs;
+  }
+}
@@ -0,0 +1,169 @@
+import { BenchmarkSummary, ModelConfig, RoutingDecision, RoutingPolicy, RoutingRule } from '../../shared/types/ai';
+import { AIError } from './errors';
+
+export interface RoutingContext {
+  task: string;
+  // More specific task inferred from the request, e.g. 'code-review' for a chat message
+  intent?: string;
+  language?: string;
+  currentModelId: string;
+  available: ModelConfig[];
+}
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  mode: 'pinned',
+  rules: [],
+  preferLocal: true
+};
+
+// Tasks where the user is waiting on the answer, so latency matters
+const INTERACTIVE_TASKS = ['chat', 'inline-completion'];
+
+const LATENCY_SCORE: Record<ModelConfig['latency'], number> = {
+  low: 2,
+  medium: 1,
+  high: 0
+};
+
+// A model that passes the whole benchmark suite outweighs a specialty match
+const BENCHMARK_WEIGHT = 3;
+
+const CHAT_INTENT_PATTERNS: Array<{ intent: string; pattern: RegExp }> = [
+  { intent: 'code-review', pattern: /\b(review|audit|critique)\b/i },
+  { intent: 'debugging', pattern: /\b(debug|bug|error|exception|stack ?trace)\b/i },
+  { intent: 'architecture', pattern: /\b(architecture|design pattern|system design)\b/i }
+];
+
+// Picks the model for a request: the pinned selection, the first matching rule,
+// or the best-scoring available model by specialty, language, benchmark results, latency and locality.
+export class ModelRouter {
+  private policy: RoutingPolicy = { ...DEFAULT_ROUTING_POLICY };
+  private benchmarks: BenchmarkSummary[] = [];
+
+  setPolicy(policy: Partial<RoutingPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  getPolicy(): RoutingPolicy {
+    return { ...this.policy, rules: this.policy.rules.map(rule => ({ ...rule })) };
+  }
+
+  setBenchmarks(summaries: BenchmarkSummary[]): void {
+    this.benchmarks = [...summaries];
+  }
+
+  static inferChatIntent(message: string): string | undefined {
+    return CHAT_INTENT_PATTERNS.find(({ pattern }) => pattern.test(message))?.intent;
+  }
+
+  route(context: RoutingContext): RoutingDecision {
+    const candidates = context.available.filter(config => config.type !== 'embedding');
+
+    if (candidates.length === 0) {
+      throw new AIError('endpoint-unreachable', 'No AI models available');
+    }
+
+    const availableIds = new Set(candidates.map(config => config.id));
+
+    if (this.policy.mode === 'pinned' && availableIds.has(context.currentModelId)) {
+      return { modelId: context.currentModelId, reason: 'pinned to selected model' };
+    }
+
+    const rule = this.policy.rules.find(rule =>
+      rule.enabled && availableIds.has(rule.modelId) && this.matchesRule(rule, context)
+    );
+    if (rule) {
+      return { modelId: rule.modelId, reason: `rule: ${this.describeRule(rule)}`, ruleId: rule.id };
+    }
+
+    return this.selectByScore(candidates, context);
+  }
+
+  private matchesRule(rule: RoutingRule, context: RoutingContext): boolean {
+    const taskMatches = !rule.task || rule.task === context.task || rule.task === context.intent;
+    const languageMatches = !rule.language || rule.language === context.language;
+    return taskMatches && languageMatches;
+  }
+
+  private describeRule(rule: RoutingRule): string {
+    return `${rule.task || 'any task'} / ${rule.language || 'any language'} → ${rule.modelId}`;
+  }
+
+  private selectByScore(candidates: ModelConfig[], context: RoutingContext): RoutingDecision {
+    // The mock model only answers when pinned or named by a rule
+    let pool = candidates.filter(config => config.provider !== 'mock');
+    if (pool.length === 0) {
+      throw new AIError('endpoint-unreachable', 'No AI models available');
+    }
+
+    let privacyNote = '';
+
+    // Automatic routing only leaves the machine when no local model can serve the request
+    if (this.policy.preferLocal) {
+      const localModels = pool.filter(config => config.isLocal);
+      if (localModels.length > 0) {
+        pool = localModels;
+        privacyNote = ', local only';
+      }
+    }
+
+    const ranked = pool
+      .map(config => ({ config, score: this.scoreModel(config, context) }))
+      .sort((a, b) => b.score - a.score);
+
+    const pinnedNote = this.policy.mode === 'pinned' ? 'selected model unavailable, ' : '';
+    return {
+      modelId: ranked[0].config.id,
+      reason: `${pinnedNote}auto: best match for ${context.intent || context.task}${privacyNote}`
+    };
+  }
+
+  private scoreModel(config: ModelConfig, context: RoutingContext): number {
+    let score = 0;
+
+    if (context.intent && config.specialties.includes(context.intent)) {
+      score += 4;
+    } else if (config.specialties.includes(context.task)) {
+      score += 3;
+    } else if (config.specialties.includes('general-coding')) {
+      score += 1;
+    }
+
+    if (context.language && config.languages.includes(context.language)) {
+      score += 1;
+    }
+
+    const passRate = this.getBenchmarkPassRate(config.id, context.language);
+    if (passRate !== undefined) {
+      score += BENCHMARK_WEIGHT * passRate;
+    }
+
+    if (INTERACTIVE_TASKS.includes(context.task)) {
+      score += LATENCY_SCORE[config.latency] ?? 0;
+    }
+
+    // Ties go to the model the user selected
+    if (config.id === context.currentModelId) {
+      score += 0.5;
+    }
+
+    return score;
+  }
+
+  // Pass rate for the request's language, or across all benchmarked languages when
+  // that one was not measured; undefined for models that were never benchmarked
+  private getBenchmarkPassRate(modelId: string, language?: string): number | undefined {
+    const summaries = this.benchmarks.filter(summary => summary.modelId === modelId);
+    if (summaries.length === 0) {
+      return undefined;
+    }
+
+    const forLanguage = language && summaries.find(summary => summary.language === language);
+    if (forLanguage) {
+      return forLanguage.passRate;
+    }
+
+    const tasks = summaries.reduce((sum, summary) => sum + summary.tasks, 0);
+    return summaries.reduce((sum, summary) => sum + summary.passRate * summary.tasks, 0) / Math.max(tasks, 1);
+  }
+}
@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { OllamaModelInfo, OllamaRunningModel } from '../../shared/types/ai';
+import { AIError } from './errors';
+import { readNdjsonStream } from './streaming';
+
+export interface OllamaModelDetails {
+  name: string;
+  family?: string;
+  families: string[];
+  parameterSize?: string;
+  quantization?: string;
+  contextLength?: number;
+  template?: string;
+}
+
+export const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+// How long Ollama keeps a model in memory after its last request (Ollama's own default is 5m)
+export const DEFAULT_KEEP_ALIVE = '30m';
+
+// Thin wrapper around the Ollama management API (/api/tags, /api/show, /api/pull, /api/delete, /api/ps)
+export class OllamaClient {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST) {
+    this.baseUrl = OllamaClient.toBaseUrl(baseUrl);
+  }
+
+  // Accepts either a host or a full endpoint such as http://host:11434/api/generate
+  static toBaseUrl(endpoint: string): string {
+    return endpoint.replace(/\/api\/.*$/, '').replace(/\/+$/, '');
+  }
+
+  // Ollama treats a bare name as the :latest tag
+  static normalizeName(name: string): string {
+    return name.includes(':') ? name : `${name}:latest`;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  async listModels(): Promise<OllamaModelInfo[]> {
+    const response = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
+    const models = response.data.models || [];
+
+    return models.map((model: any) => ({
+      name: model.name,
+      size: model.size,
+      digest: model.digest,
+      modifiedAt: model.modified_at,
+      family: model.details?.family,
+      parameterSize: model.details?.parameter_size,
+      quantization: model.details?.quantization_level
+    }));
+  }
+
+  async hasModel(name: string): Promise<boolean> {
+    const target = OllamaClient.normalizeName(name);
+    const models = await this.listModels();
+    return models.some(model => OllamaClient.normalizeName(model.name) === target);
+  }
+
+  async showModel(name: string): Promise<OllamaModelDetails> {
+    const response = await axios.post(`${this.baseUrl}/api/show`, { model: name }, { timeout: 10000 });
+    const data = response.data;
+    const modelInfo = data.model_info || {};
+    const architecture = modelInfo['general.architecture'];
+
+    return {
+      name,
+      family: data.details?.family,
+      families: data.details?.families || [],
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+      contextLength: architecture ? modelInfo[`${architecture}.context_length`] : undefined,
+      template: data.template
+    };
+  }
+
+  // Streams download progress; resolves once Ollama reports success
+  async pullModel(
+    name: string,
+    onProgress: (status: { status: string; digest?: string; total?: number; completed?: number }) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await axios.post(`${this.baseUrl}/api/pull`, { model: name, stream: true }, {
+      signal,
+      responseType: 'stream',
+      timeout: 30000 // Applies until the first byte arrives
+    });
+
+    let failure: string | null = null;
+    await readNdjsonStream(response.data, chunk => {
+      if (chunk.error) {
+        failure = chunk.error;
+        return;
+      }
+      onProgress({ status: chunk.status, digest: chunk.digest, total: chunk.total, completed: chunk.completed });
+    });
+
+    if (failure) {
+      throw new AIError('unknown', `Pulling ${name} failed: ${failure}`, { provider: 'ollama', modelName: name });
+    }
+  }
+
+  // A generate request without a prompt only loads the model into memory
+  async loadModel(name: string, keepAlive: string | number = DEFAULT_KEEP_ALIVE): Promise<void> {
+    await axios.post(`${this.baseUrl}/api/generate`, { model: name, keep_alive: keepAlive }, {
+      timeout: 600000 // Large models can take minutes to load from disk
+    });
+  }
+
+  async deleteModel(name: string): Promise<void> {
+    await axios.delete(`${this.baseUrl}/api/delete`, { data: { model: name }, timeout: 10000 });
+  }
+
+  async listRunning(): Promise<OllamaRunningModel[]> {
+    const response = await axios.get(`${this.baseUrl}/api/ps`, { timeout: 5000 });
+    const models = response.data.models || [];
+
+    return models.map((model: any) => ({
+      name: model.name,
+      size: model.size,
+      sizeVram: model.size_vram,
+      expiresAt: model.expires_at
+    }));
+  }
+}
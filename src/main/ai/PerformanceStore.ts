@@ -0,0 +1,141 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BenchmarkSummary, ComparisonResult, ModelPerformanceMetrics } from '../../shared/types/ai';
+
+interface PerformanceRecord {
+  modelId: string;
+  taskType: string;
+  runs: number;
+  failures: number;
+  // Summed over successful runs only
+  totalLatency: number;
+  comparisons: number;
+  wins: number;
+  lastUpdated: number;
+}
+
+interface PerformanceFile {
+  version: 1;
+  records: PerformanceRecord[];
+  // Latest benchmark summary per model and language
+  benchmarks?: BenchmarkSummary[];
+}
+
+// Persisted per-model, per-task results: latency and failures of measured runs,
+// plus the winner votes cast in chat compare mode and the offline benchmark results
+export class PerformanceStore {
+  private records: Map<string, PerformanceRecord> = new Map();
+  private benchmarks: Map<string, BenchmarkSummary> = new Map();
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  static taskKey(task: string, language?: string): string {
+    return language ? `${task}:${language}` : task;
+  }
+
+  async load(): Promise<number> {
+    try {
+      const data: PerformanceFile = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.records = new Map((data.records || []).map(record => [this.recordKey(record.modelId, record.taskType), record]));
+      this.benchmarks = new Map((data.benchmarks || []).map(summary => [this.recordKey(summary.modelId, summary.language), summary]));
+    } catch (error) {
+      // Nothing measured yet
+      this.records = new Map();
+      this.benchmarks = new Map();
+    }
+    return this.records.size;
+  }
+
+  async recordComparisonRun(task: string, language: string | undefined, results: ComparisonResult[]): Promise<void> {
+    const taskType = PerformanceStore.taskKey(task, language);
+    for (const result of results) {
+      // A stopped answer says nothing about the model
+      if (result.cancelled) continue;
+
+      const record = this.getRecord(result.modelId, taskType);
+      record.runs++;
+      if (result.error) {
+        record.failures++;
+      } else {
+        record.totalLatency += result.latency;
+      }
+      record.lastUpdated = Date.now();
+    }
+    await this.queueSave();
+  }
+
+  async recordVote(task: string, language: string | undefined, winnerModelId: string, modelIds: string[]): Promise<void> {
+    const taskType = PerformanceStore.taskKey(task, language);
+    for (const modelId of modelIds) {
+      const record = this.getRecord(modelId, taskType);
+      record.comparisons++;
+      if (modelId === winnerModelId) {
+        record.wins++;
+      }
+      record.lastUpdated = Date.now();
+    }
+    await this.queueSave();
+  }
+
+  // A new run replaces the earlier summary for the same model and language
+  async recordBenchmark(summaries: BenchmarkSummary[]): Promise<void> {
+    for (const summary of summaries) {
+      this.benchmarks.set(this.recordKey(summary.modelId, summary.language), summary);
+    }
+    await this.queueSave();
+  }
+
+  getBenchmarkSummaries(): BenchmarkSummary[] {
+    return Array.from(this.benchmarks.values());
+  }
+
+  getMetrics(): ModelPerformanceMetrics[] {
+    return Array.from(this.records.values()).map(record => {
+      const successes = record.runs - record.failures;
+      return {
+        modelId: record.modelId,
+        taskType: record.taskType,
+        avgLatency: successes > 0 ? Math.round(record.totalLatency / successes) : 0,
+        successRate: record.runs > 0 ? successes / record.runs : 0,
+        userSatisfaction: record.comparisons > 0 ? record.wins / record.comparisons : 0,
+        errorRate: record.runs > 0 ? record.failures / record.runs : 0,
+        lastUpdated: record.lastUpdated,
+        runs: record.runs,
+        comparisons: record.comparisons,
+        wins: record.wins
+      };
+    });
+  }
+
+  private getRecord(modelId: string, taskType: string): PerformanceRecord {
+    const key = this.recordKey(modelId, taskType);
+    let record = this.records.get(key);
+    if (!record) {
+      record = { modelId, taskType, runs: 0, failures: 0, totalLatency: 0, comparisons: 0, wins: 0, lastUpdated: Date.now() };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+
+  private recordKey(modelId: string, taskType: string): string {
+    return `${modelId}|${taskType}`;
+  }
+
+  private queueSave(): Promise<void> {
+    this.pendingSave = this.pendingSave.then(() => this.save()).catch(error => {
+      console.error('❌ Failed to write model performance data:', error);
+    });
+    return this.pendingSave;
+  }
+
+  private async save(): Promise<void> {
+    const file: PerformanceFile = {
+      version: 1,
+      records: Array.from(this.records.values()),
+      benchmarks: Array.from(this.benchmarks.values())
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+  }
+}
@@ -0,0 +1,249 @@
+import { RequestPriority, RequestQueueStats } from '../../shared/types/ai';
+import { AIError, toAIError } from './errors';
+
+// Lanes in the order they are served
+export const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'inline', 'background'];
+
+export interface SchedulerOptions {
+  defaultLimit: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest a lane waits before a retry; beyond it the error is surfaced so fallback can take over
+  maxRetryWaitMs: Record<RequestPriority, number>;
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  onRetry?: (retry: number, delayMs: number, error: AIError) => void;
+}
+
+export interface ScheduledResult<T> {
+  result: T;
+  queuedMs: number;
+  retries: number;
+}
+
+interface Waiter {
+  start: () => void;
+}
+
+interface EndpointQueue {
+  limit: number;
+  active: number;
+  lanes: Record<RequestPriority, Waiter[]>;
+  pausedUntil: number;
+  resumeTimer: NodeJS.Timeout | null;
+  completed: number;
+  retries: number;
+}
+
+// Per-endpoint request queue: at most `limit` requests run against an endpoint at once,
+// waiting requests start in lane order, and rate-limited requests are retried with
+// exponential backoff (or the server's Retry-After, which also pauses the whole endpoint).
+export class RequestScheduler {
+  private queues: Map<string, EndpointQueue> = new Map();
+  private options: SchedulerOptions;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = {
+      defaultLimit: 2,
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 30000,
+      maxRetryWaitMs: {
+        interactive: 10000,
+        // A retried inline completion would arrive after the user typed on
+        inline: 0,
+        background: 60000
+      },
+      ...options
+    };
+  }
+
+  // Requests to the same server share a queue, e.g. every model of one Ollama instance
+  static endpointKey(endpoint: string): string {
+    try {
+      const origin = new URL(endpoint).origin;
+      return origin === 'null' ? endpoint : origin;
+    } catch (error) {
+      return endpoint;
+    }
+  }
+
+  setLimit(endpoint: string, limit: number): void {
+    const queue = this.getQueue(endpoint);
+    queue.limit = Math.max(1, limit);
+    this.drain(queue);
+  }
+
+  async schedule<T>(
+    endpoint: string,
+    priority: RequestPriority,
+    task: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<ScheduledResult<T>> {
+    const queue = this.getQueue(endpoint);
+    let queuedMs = 0;
+    let retries = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const waitStart = Date.now();
+      await this.acquire(queue, priority, options.signal);
+      queuedMs += Date.now() - waitStart;
+
+      let failure: any;
+      try {
+        const result = await task();
+        queue.completed++;
+        return { result, queuedMs, retries };
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.release(queue);
+      }
+
+      const aiError = await toAIError(failure);
+      const delay = options.signal?.aborted ? null : this.getRetryDelay(aiError, attempt, priority);
+      if (delay === null) {
+        throw failure;
+      }
+
+      if (aiError.details.retryAfterMs !== undefined) {
+        this.pause(queue, delay);
+      }
+
+      retries++;
+      queue.retries++;
+      console.log(`⏳ Retrying request to ${endpoint} in ${delay}ms after ${aiError.code} (retry ${retries})`);
+      options.onRetry?.(retries, delay, aiError);
+      await this.sleep(delay, options.signal);
+    }
+  }
+
+  getStats(): RequestQueueStats[] {
+    const now = Date.now();
+    return Array.from(this.queues.entries()).map(([endpoint, queue]) => ({
+      endpoint,
+      limit: queue.limit,
+      active: queue.active,
+      queued: {
+        interactive: queue.lanes.interactive.length,
+        inline: queue.lanes.inline.length,
+        background: queue.lanes.background.length
+      },
+      pausedUntil: queue.pausedUntil > now ? queue.pausedUntil : undefined,
+      completed: queue.completed,
+      retries: queue.retries
+    }));
+  }
+
+  private getQueue(endpoint: string): EndpointQueue {
+    let queue = this.queues.get(endpoint);
+    if (!queue) {
+      queue = {
+        limit: this.options.defaultLimit,
+        active: 0,
+        lanes: { interactive: [], inline: [], background: [] },
+        pausedUntil: 0,
+        resumeTimer: null,
+        completed: 0,
+        retries: 0
+      };
+      this.queues.set(endpoint, queue);
+    }
+    return queue;
+  }
+
+  // Only rate limits and overloaded servers are worth waiting out
+  private getRetryDelay(error: AIError, attempt: number, priority: RequestPriority): number | null {
+    const retryable = error.code === 'rate-limit'
+      || (error.code === 'endpoint-unreachable' && error.details.status === 503);
+    if (!retryable || attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+    const delay = error.details.retryAfterMs ?? Math.round(backoff * (1 + Math.random() * 0.25));
+
+    return delay > this.options.maxRetryWaitMs[priority] ? null : delay;
+  }
+
+  private acquire(queue: EndpointQueue, priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AIError('cancelled', 'Request cancelled while queued'));
+    }
+
+    if (this.canStart(queue) && this.queuedCount(queue) === 0) {
+      queue.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const lane = queue.lanes[priority];
+        const index = lane.indexOf(waiter);
+        if (index !== -1) lane.splice(index, 1);
+        reject(new AIError('cancelled', 'Request cancelled while queued'));
+      };
+      const waiter: Waiter = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      queue.lanes[priority].push(waiter);
+      this.drain(queue);
+    });
+  }
+
+  private release(queue: EndpointQueue): void {
+    queue.active = Math.max(0, queue.active - 1);
+    this.drain(queue);
+  }
+
+  private drain(queue: EndpointQueue): void {
+    while (this.canStart(queue)) {
+      const lane = PRIORITY_ORDER.find(priority => queue.lanes[priority].length > 0);
+      if (!lane) return;
+
+      queue.active++;
+      queue.lanes[lane].shift()!.start();
+    }
+
+    if (queue.pausedUntil > Date.now() && !queue.resumeTimer && this.queuedCount(queue) > 0) {
+      queue.resumeTimer = setTimeout(() => {
+        queue.resumeTimer = null;
+        this.drain(queue);
+      }, queue.pausedUntil - Date.now());
+    }
+  }
+
+  private canStart(queue: EndpointQueue): boolean {
+    return queue.active < queue.limit && Date.now() >= queue.pausedUntil;
+  }
+
+  private queuedCount(queue: EndpointQueue): number {
+    return PRIORITY_ORDER.reduce((sum, priority) => sum + queue.lanes[priority].length, 0);
+  }
+
+  private pause(queue: EndpointQueue, delayMs: number): void {
+    queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + delayMs);
+  }
+
+  private sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AIError('cancelled', 'Request cancelled during backoff'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+}
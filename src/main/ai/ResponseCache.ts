@@ -0,0 +1,237 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CacheStatus, ResponseCacheStats } from '../../shared/types/ai';
+
+export interface CacheKeyInput {
+  modelId: string;
+  operation: string;
+  // The prompt exactly as the model would see it
+  prompt: string;
+  params: {
+    temperature?: number;
+    maxTokens?: number;
+    stopSequences?: string[];
+  };
+}
+
+interface CacheIndexEntry {
+  key: string;
+  modelId: string;
+  operation: string;
+  bytes: number;
+  createdAt: number;
+  lastAccessAt: number;
+}
+
+interface CacheIndexFile {
+  version: 1;
+  entries: CacheIndexEntry[];
+}
+
+export interface ResponseCacheOptions {
+  maxBytes: number;
+  // Sampling above this temperature is meant to vary, so it is never cached
+  maxTemperature: number;
+}
+
+const INDEX_FILE = 'index.json';
+const INDEX_SAVE_DELAY_MS = 1000;
+
+// Content-addressed LRU of model responses on disk: one file per response plus an
+// index holding access order and sizes, trimmed to maxBytes on every write
+export class ResponseCache {
+  // Map order is the LRU order: least recently used first
+  private index: Map<string, CacheIndexEntry> = new Map();
+  private options: ResponseCacheOptions;
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private bypasses = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string, options: Partial<ResponseCacheOptions> = {}) {
+    this.options = {
+      maxBytes: 50 * 1024 * 1024,
+      maxTemperature: 0.5,
+      ...options
+    };
+  }
+
+  static keyFor(input: CacheKeyInput): string {
+    const params = {
+      temperature: input.params.temperature,
+      maxTokens: input.params.maxTokens,
+      stopSequences: input.params.stopSequences || []
+    };
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([input.modelId, input.operation, input.prompt, params]))
+      .digest('hex');
+  }
+
+  async load(): Promise<number> {
+    try {
+      const data: CacheIndexFile = JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf-8'));
+      const entries = (data.entries || []).sort((a, b) => a.lastAccessAt - b.lastAccessAt);
+      this.index = new Map(entries.map(entry => [entry.key, entry]));
+    } catch (error) {
+      // No cache yet: the directory is created on the first write
+      this.index = new Map();
+    }
+    this.totalBytes = Array.from(this.index.values()).reduce((sum, entry) => sum + entry.bytes, 0);
+    return this.index.size;
+  }
+
+  shouldBypass(temperature: number | undefined): boolean {
+    return (temperature ?? 0) > this.options.maxTemperature;
+  }
+
+  recordBypass(): CacheStatus {
+    this.bypasses++;
+    return 'bypass';
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.index.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      const response = await fs.readFile(this.entryPath(key), 'utf-8');
+      this.hits++;
+      entry.lastAccessAt = Date.now();
+      this.index.delete(key);
+      this.index.set(key, entry);
+      this.scheduleSave();
+      return response;
+    } catch (error) {
+      // The file was removed behind our back; forget the entry
+      this.misses++;
+      this.forget(key);
+      this.scheduleSave();
+      return undefined;
+    }
+  }
+
+  async set(key: string, input: Pick<CacheKeyInput, 'modelId' | 'operation'>, response: string): Promise<void> {
+    const bytes = Buffer.byteLength(response, 'utf-8');
+    if (!response || bytes > this.options.maxBytes) return;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.entryPath(key), response);
+    } catch (error) {
+      console.error('❌ Failed to write response cache entry:', error);
+      return;
+    }
+
+    this.forget(key);
+    const now = Date.now();
+    this.index.set(key, { key, modelId: input.modelId, operation: input.operation, bytes, createdAt: now, lastAccessAt: now });
+    this.totalBytes += bytes;
+
+    await this.evict();
+    this.scheduleSave();
+  }
+
+  async invalidateModel(modelId: string): Promise<number> {
+    const keys = Array.from(this.index.values()).filter(entry => entry.modelId === modelId).map(entry => entry.key);
+    await this.remove(keys);
+    console.log(`🧹 Cleared ${keys.length} cached responses for ${modelId}`);
+    return keys.length;
+  }
+
+  async clear(): Promise<number> {
+    const keys = Array.from(this.index.keys());
+    await this.remove(keys);
+    this.hits = 0;
+    this.misses = 0;
+    this.bypasses = 0;
+    return keys.length;
+  }
+
+  getStats(): ResponseCacheStats {
+    const byModel: Record<string, number> = {};
+    for (const entry of this.index.values()) {
+      byModel[entry.modelId] = (byModel[entry.modelId] || 0) + 1;
+    }
+
+    return {
+      entries: this.index.size,
+      bytes: this.totalBytes,
+      maxBytes: this.options.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      bypasses: this.bypasses,
+      byModel
+    };
+  }
+
+  // Write the index now instead of waiting for the debounce, e.g. on shutdown
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.queueSave();
+    await this.pendingSave;
+  }
+
+  private async evict(): Promise<void> {
+    const evicted: string[] = [];
+    let remainingBytes = this.totalBytes;
+    for (const entry of this.index.values()) {
+      if (remainingBytes <= this.options.maxBytes) break;
+      evicted.push(entry.key);
+      remainingBytes -= entry.bytes;
+    }
+    await this.remove(evicted);
+  }
+
+  private async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.forget(key);
+      await fs.unlink(this.entryPath(key)).catch(() => undefined);
+    }
+    if (keys.length > 0) {
+      this.scheduleSave();
+    }
+  }
+
+  private forget(key: string): void {
+    const entry = this.index.get(key);
+    if (!entry) return;
+    this.totalBytes -= entry.bytes;
+    this.index.delete(key);
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.txt`);
+  }
+
+  // Access order changes on every hit, so index writes are batched
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.queueSave();
+    }, INDEX_SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private queueSave(): void {
+    this.pendingSave = this.pendingSave.then(() => this.save()).catch(error => {
+      console.error('❌ Failed to write response cache index:', error);
+    });
+  }
+
+  private async save(): Promise<void> {
+    const file: CacheIndexFile = { version: 1, entries: Array.from(this.index.values()) };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, INDEX_FILE), JSON.stringify(file));
+  }
+}
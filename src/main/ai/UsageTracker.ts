@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BudgetStatus, ModelConfig, ProviderBudget, TokenUsage, UsageSummary, UsageTotals } from '../../shared/types/ai';
+import { AIError } from './errors';
+import { calculateCost } from './pricing';
+
+interface UsageRecord extends UsageTotals {
+  provider: string;
+}
+
+interface UsageFile {
+  version: 1;
+  // Day (YYYY-MM-DD, local time) -> model id -> totals
+  days: Record<string, Record<string, UsageRecord>>;
+}
+
+// Days of history kept on disk
+const RETENTION_DAYS = 400;
+
+// Persisted daily token and cost totals per model, with per-provider budgets
+// checked before each request is sent
+export class UsageTracker {
+  private days: UsageFile['days'] = {};
+  private budgets: ProviderBudget[] = [];
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<void> {
+    try {
+      const data: UsageFile = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.days = data.days || {};
+    } catch (error) {
+      // First run: nothing recorded yet
+      this.days = {};
+    }
+  }
+
+  setBudgets(budgets: ProviderBudget[]): void {
+    this.budgets = budgets.map(budget => ({ ...budget }));
+  }
+
+  getBudgets(): ProviderBudget[] {
+    return this.budgets.map(budget => ({ ...budget }));
+  }
+
+  // Adds a request's usage to today's totals and returns its cost in USD
+  async record(config: ModelConfig, usage: TokenUsage): Promise<number> {
+    const costUsd = calculateCost(config, usage);
+    const day = UsageTracker.dayKey(new Date());
+    const models = this.days[day] || (this.days[day] = {});
+    const record = models[config.id] || (models[config.id] = {
+      provider: config.provider,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0
+    });
+
+    record.requests++;
+    record.inputTokens += usage.inputTokens;
+    record.outputTokens += usage.outputTokens;
+    record.costUsd += costUsd;
+
+    this.pendingSave = this.pendingSave.then(() => this.save()).catch(error => {
+      console.error('❌ Failed to write usage data:', error);
+    });
+    await this.pendingSave;
+    return costUsd;
+  }
+
+  // Throws budget-exceeded when a hard limit is reached; returns soft limits already passed
+  checkBudget(config: ModelConfig): BudgetStatus[] {
+    const statuses = this.getBudgetStatuses().filter(status => status.provider === config.provider);
+
+    const exceeded = statuses.find(status => status.state === 'exceeded');
+    if (exceeded) {
+      throw new AIError(
+        'budget-exceeded',
+        `${config.name} is blocked: ${exceeded.period} ${exceeded.provider} spend $${exceeded.spentUsd.toFixed(2)} reached the hard budget of $${exceeded.hardLimitUsd!.toFixed(2)}`,
+        { provider: config.provider, modelId: config.id }
+      );
+    }
+
+    return statuses.filter(status => status.state === 'warning');
+  }
+
+  getSummary(): UsageSummary {
+    const now = new Date();
+    const today = UsageTracker.dayKey(now);
+    const month = today.substring(0, 7);
+    const summary: UsageSummary = { today: {}, month: {}, monthByModel: {}, budgets: this.getBudgetStatuses() };
+
+    for (const [day, models] of Object.entries(this.days)) {
+      if (!day.startsWith(month)) continue;
+
+      for (const [modelId, record] of Object.entries(models)) {
+        this.addTotals(summary.month, record.provider, record);
+        this.addTotals(summary.monthByModel, modelId, record);
+        if (day === today) {
+          this.addTotals(summary.today, record.provider, record);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  private getBudgetStatuses(): BudgetStatus[] {
+    const today = UsageTracker.dayKey(new Date());
+
+    return this.budgets.map(budget => {
+      const prefix = budget.period === 'daily' ? today : today.substring(0, 7);
+      const spentUsd = this.getSpend(budget.provider, prefix);
+      const state: BudgetStatus['state'] =
+        budget.hardLimitUsd !== undefined && spentUsd >= budget.hardLimitUsd ? 'exceeded' :
+        budget.softLimitUsd !== undefined && spentUsd >= budget.softLimitUsd ? 'warning' : 'ok';
+      return { ...budget, spentUsd, state };
+    });
+  }
+
+  // Spend of one provider over the days whose key starts with prefix (a day or a month)
+  private getSpend(provider: string, prefix: string): number {
+    let total = 0;
+    for (const [day, models] of Object.entries(this.days)) {
+      if (!day.startsWith(prefix)) continue;
+      for (const record of Object.values(models)) {
+        if (record.provider === provider) total += record.costUsd;
+      }
+    }
+    return total;
+  }
+
+  private addTotals(target: Record<string, UsageTotals>, key: string, record: UsageTotals): void {
+    const totals = target[key] || (target[key] = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+    totals.requests += record.requests;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.costUsd += record.costUsd;
+  }
+
+  private async save(): Promise<void> {
+    const cutoff = UsageTracker.dayKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const day of Object.keys(this.days)) {
+      if (day < cutoff) delete this.days[day];
+    }
+
+    const file: UsageFile = { version: 1, days: this.days };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+  }
+
+  private static dayKey(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
@@ -0,0 +1,288 @@
+import { ModelConfig } from '../../../shared/types/ai';
+import { AIModelManager } from '../AIModelManager';
+import { CredentialProvider } from '../CredentialProvider';
+import { buildMockConfig } from '../models/MockModel';
+import { buildOpenAICompatibleConfig } from '../models/OpenAICompatibleModel';
+import { DEFAULT_WORKSPACE_POLICY } from '../privacy/workspacePolicy';
+import { RECORD_CASSETTE_ENV } from '../testing/Cassette';
+import { ProviderStubServer, StubRequest } from '../testing/ProviderStubServer';
+
+const SECRET = 'sk-ant-REDACTED';
+
+const ollamaConfig = (baseUrl: string): ModelConfig => ({
+  id: 'local-fast',
+  name: 'Local Fast',
+  provider: 'ollama',
+  type: 'chat',
+  maxTokens: 2048,
+  contextWindow: 4096,
+  specialties: ['chat', 'general-coding'],
+  languages: ['javascript'],
+  latency: 'low',
+  isLocal: true,
+  endpoint: `${baseUrl}/api/generate`,
+  parameters: { model: 'codellama:7b-instruct', family: 'llama' }
+});
+
+const backupConfig = (baseUrl: string): ModelConfig => buildOpenAICompatibleConfig({
+  id: 'local-backup',
+  name: 'Local Backup',
+  baseUrl: `${baseUrl}/v1`,
+  model: 'backup'
+});
+
+const claudeConfig = (baseUrl: string): ModelConfig => ({
+  id: 'cloud',
+  name: 'Cloud Claude',
+  provider: 'anthropic',
+  type: 'chat',
+  maxTokens: 4096,
+  contextWindow: 200000,
+  specialties: ['code-review', 'complex-reasoning'],
+  languages: ['javascript'],
+  latency: 'low',
+  isLocal: false,
+  endpoint: `${baseUrl}/v1/messages`,
+  parameters: { model: 'claude-3-5-sonnet-20241022' }
+});
+
+// Answers by protocol, so each response shows which model served it; paths in failPaths get a 500
+function respondByProtocol(failPaths: string[] = []) {
+  return (request: StubRequest): string => {
+    if (failPaths.includes(request.path)) {
+      throw new Error(`stubbed crash on ${request.path}`);
+    }
+    return `${request.protocol} answer to: ${request.text}`;
+  };
+}
+
+describe('AIModelManager', () => {
+  const stub = new ProviderStubServer({ models: ['codellama:7b-instruct', 'backup'] });
+  const savedEnv = { OLLAMA_HOST: process.env.OLLAMA_HOST, record: process.env[RECORD_CASSETTE_ENV] };
+  let baseUrl: string;
+  let manager: AIModelManager;
+
+  const chatRequests = (path: string) => stub.requests.filter(request => request.path === path);
+  const lastResponse = () => manager.getTransactions().filter(tx => tx.type === 'response').pop()!;
+  const logged = (pattern: RegExp) => manager.getTransactions().filter(tx => pattern.test(tx.response || ''));
+
+  beforeAll(async () => {
+    baseUrl = await stub.start();
+    // Warm-up and residency polling talk to the manager's own Ollama client
+    process.env.OLLAMA_HOST = baseUrl;
+    delete process.env[RECORD_CASSETTE_ENV];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+    process.env.OLLAMA_HOST = savedEnv.OLLAMA_HOST;
+    if (savedEnv.OLLAMA_HOST === undefined) delete process.env.OLLAMA_HOST;
+    if (savedEnv.record !== undefined) process.env[RECORD_CASSETTE_ENV] = savedEnv.record;
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    stub.setResponder(respondByProtocol());
+    manager = new AIModelManager();
+
+    const credentials = new CredentialProvider();
+    credentials.setKey('anthropic', 'sk-ant-test-key');
+    manager.setCredentialProvider(credentials);
+
+    for (const config of [ollamaConfig(baseUrl), backupConfig(baseUrl), claudeConfig(baseUrl), buildMockConfig()]) {
+      await manager.addModel(config);
+    }
+    stub.requests.length = 0;
+  });
+
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+
+  it('creates only the models it can reach or has a key for', async () => {
+    await manager.addModel({ ...ollamaConfig(baseUrl), id: 'not-pulled', parameters: { model: 'deepseek-coder:6.7b' } });
+    await manager.addModel({ ...claudeConfig(baseUrl), id: 'openai-cloud', provider: 'openai' });
+
+    expect(manager.getAvailableModels().map(config => config.id).sort()).toEqual(['cloud', 'local-backup', 'local-fast', 'mock']);
+  });
+
+  describe('initialize', () => {
+    let fresh: AIModelManager;
+    const warmUps = () => stub.requests.filter(request => request.path === '/api/generate' && !request.body.prompt);
+
+    beforeEach(() => {
+      fresh = new AIModelManager();
+      fresh.registerModelConfig(backupConfig(baseUrl));
+    });
+
+    afterEach(async () => {
+      await fresh.cleanup();
+    });
+
+    it('selects the saved model and warms up no other', async () => {
+      await fresh.initialize('local-backup');
+      // Warm-up runs in the background
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(fresh.getCurrentModel()).toBe(fresh.getModelsMap().get('local-backup'));
+      expect(warmUps()).toHaveLength(0);
+    });
+
+    it('logs when the saved model did not come up', async () => {
+      await fresh.initialize('gone');
+
+      expect(fresh.getCurrentModel()).not.toBeNull();
+      expect(fresh.getTransactions().filter(tx => tx.response === 'Could not restore gone: the model is not available')).toHaveLength(1);
+    });
+  });
+
+  describe('routing', () => {
+    it('serves chat with the pinned model', async () => {
+      await manager.setCurrentModel('local-backup');
+
+      const response = await manager.chat('hello', {});
+
+      expect(response).toBe('openai answer to: hello');
+      expect(chatRequests('/v1/chat/completions')).toHaveLength(1);
+      expect(lastResponse().metadata).toMatchObject({ modelId: 'local-backup', fallbackHops: 0 });
+    });
+
+    it('applies the first matching rule in auto mode', async () => {
+      manager.setRoutingPolicy({
+        mode: 'auto',
+        rules: [
+          { id: 'disabled', task: 'code-review', modelId: 'local-backup', enabled: false },
+          { id: 'review', task: 'code-review', modelId: 'cloud', enabled: true }
+        ]
+      });
+
+      expect(manager.selectOptimalModel('chat', {}, 'Please review this function')).toBe('cloud');
+      await manager.chat('Please review this function', {});
+      expect(chatRequests('/v1/messages')).toHaveLength(1);
+      expect(lastResponse().metadata).toMatchObject({ modelId: 'cloud' });
+    });
+
+    it('prefers local models when scoring', () => {
+      manager.setRoutingPolicy({ mode: 'auto', rules: [], preferLocal: true });
+      expect(manager.selectOptimalModel('chat', {}, 'Please review this function')).toBe('local-fast');
+
+      manager.setRoutingPolicy({ preferLocal: false });
+      expect(manager.selectOptimalModel('chat', {}, 'Please review this function')).toBe('cloud');
+    });
+
+    it('uses the mock model only when it is pinned', async () => {
+      manager.setRoutingPolicy({ mode: 'auto', rules: [], preferLocal: false });
+      expect(manager.selectOptimalModel('chat', {}, 'hello')).not.toBe('mock');
+
+      manager.setRoutingPolicy({ mode: 'pinned' });
+      await manager.setCurrentModel('mock');
+      expect(manager.selectOptimalModel('chat', {}, 'hello')).toBe('mock');
+    });
+
+    it('keeps a local-only workspace off cloud models', async () => {
+      manager.setWorkspacePolicy({ ...DEFAULT_WORKSPACE_POLICY, localModelsOnly: true });
+      manager.setRoutingPolicy({ mode: 'auto', rules: [{ id: 'all', modelId: 'cloud', enabled: true }] });
+
+      await manager.chat('hello', {});
+
+      expect(chatRequests('/v1/messages')).toHaveLength(0);
+      expect(lastResponse().metadata.isLocal).toBe(true);
+    });
+  });
+
+  describe('redaction', () => {
+    it('sends placeholders to cloud models and restores them in the answer', async () => {
+      await manager.setCurrentModel('cloud');
+
+      const response = await manager.chat(`why does ${SECRET} fail?`, {});
+
+      expect(JSON.stringify(chatRequests('/v1/messages')[0].body)).not.toContain(SECRET);
+      expect(chatRequests('/v1/messages')[0].text).toContain('<REDACTED_API_KEY_1>');
+      expect(response).toBe(`anthropic answer to: why does ${SECRET} fail?`);
+    });
+
+    it('sends local models the original text', async () => {
+      await manager.setCurrentModel('local-backup');
+      await manager.chat(`why does ${SECRET} fail?`, {});
+
+      expect(chatRequests('/v1/chat/completions')[0].text).toContain(SECRET);
+    });
+  });
+
+  describe('fallback', () => {
+    beforeEach(async () => {
+      await manager.setCurrentModel('local-fast');
+      manager.setFallbackChains({ chat: ['local-backup'] });
+    });
+
+    it('walks the chain when the selected model fails', async () => {
+      stub.setResponder(respondByProtocol(['/api/chat']));
+
+      const response = await manager.chat('hello', {});
+
+      expect(response).toBe('openai answer to: hello');
+      expect(chatRequests('/api/chat')).toHaveLength(1);
+      expect(logged(/^Falling back from Local Fast to Local Backup$/)).toHaveLength(1);
+      expect(lastResponse().metadata).toMatchObject({ modelId: 'local-backup', fallbackHops: 1 });
+    });
+
+    it('falls back for a streamed chat that failed before its first token', async () => {
+      stub.setResponder(respondByProtocol(['/api/chat']));
+      const tokens: string[] = [];
+
+      const response = await manager.chatStream('stream-1', 'hello', {}, token => tokens.push(token));
+
+      expect(response).toBe('openai answer to: hello');
+      expect(tokens.join('')).toBe(response);
+    });
+
+    it('fails with the last error when every model fails', async () => {
+      stub.setResponder(respondByProtocol(['/api/chat', '/v1/chat/completions']));
+
+      await expect(manager.chat('hello', {})).rejects.toMatchObject({ code: 'unknown', details: { modelId: 'local-backup', status: 500 } });
+      expect(manager.getTransactions().pop()).toMatchObject({ type: 'error', operation: 'chat' });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(async () => {
+      await manager.setCurrentModel('local-fast');
+      manager.setFallbackChains({ chat: ['local-backup'] });
+      stub.setResponder(respondByProtocol(['/api/chat']));
+    });
+
+    it('opens after three consecutive failures and skips the model afterwards', async () => {
+      for (let i = 0; i < 3; i++) {
+        await manager.chat(`attempt ${i}`, {});
+      }
+
+      expect(manager.getModelHealth().find(health => health.modelId === 'local-fast')).toMatchObject({
+        state: 'open',
+        consecutiveFailures: 3
+      });
+      expect(logged(/^Circuit opened for Local Fast/)).toHaveLength(1);
+
+      const response = await manager.chat('after the circuit opened', {});
+
+      expect(response).toBe('openai answer to: after the circuit opened');
+      expect(chatRequests('/api/chat')).toHaveLength(3);
+      expect(logged(/^Skipped Local Fast: circuit open/)).toHaveLength(1);
+      expect(lastResponse().metadata.fallbackHops).toBe(0);
+    });
+
+    it('resets the failure count after a success', async () => {
+      await manager.chat('first', {});
+      await manager.chat('second', {});
+      stub.setResponder(respondByProtocol());
+      await manager.chat('recovered', {});
+
+      expect(manager.getModelHealth().find(health => health.modelId === 'local-fast')).toMatchObject({
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalFailures: 2,
+        totalSuccesses: 1
+      });
+    });
+  });
+});
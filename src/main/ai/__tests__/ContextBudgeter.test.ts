@@ -0,0 +1,177 @@
+import { ChatMessage } from '../../../shared/types/ai';
+import { ContextBudgeter, ContextSection } from '../ContextBudgeter';
+import { AIError } from '../errors';
+import { Tokenizer } from '../tokenizers';
+
+// One token per word keeps the budgets in these tests easy to follow
+const wordTokenizer: Tokenizer = {
+  family: 'llama',
+  name: 'words',
+  exact: true,
+  count: text => text.split(/\s+/).filter(Boolean).length
+};
+
+const words = (count: number, word: string = 'w') => Array.from({ length: count }, () => word).join(' ');
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `line${index}`).join('\n');
+
+const section = (overrides: Partial<ContextSection> & Pick<ContextSection, 'id' | 'content'>): ContextSection => ({
+  label: overrides.id,
+  priority: 50,
+  truncation: 'drop',
+  ...overrides
+});
+
+describe('ContextBudgeter', () => {
+  const budgeter = new ContextBudgeter(wordTokenizer);
+
+  describe('pack', () => {
+    it('keeps everything that fits, in input order', () => {
+      const { sections, report } = budgeter.pack([
+        section({ id: 'low', content: words(10), priority: 10 }),
+        section({ id: 'high', content: words(20), priority: 90 })
+      ], 100);
+
+      expect(sections.map(packed => packed.id)).toEqual(['low', 'high']);
+      expect(report).toMatchObject({ tokenizer: 'words', budget: 100, used: 30, dropped: [] });
+    });
+
+    it('drops lower priorities first', () => {
+      const { sections, report } = budgeter.pack([
+        section({ id: 'low', content: words(40), priority: 10 }),
+        section({ id: 'high', content: words(40), priority: 90 })
+      ], 60);
+
+      expect(sections.map(packed => packed.id)).toEqual(['high']);
+      expect(report.dropped).toEqual([{ id: 'low', label: 'low', tokens: 40 }]);
+    });
+
+    it('truncates a section to the space left, keeping its head', () => {
+      const { sections } = budgeter.pack([
+        section({ id: 'file', content: lines(100), truncation: 'head', minTokens: 10 })
+      ], 40);
+
+      const [file] = sections;
+      expect(file.truncated).toBe(true);
+      expect(file.tokens).toBeLessThanOrEqual(40);
+      expect(file.content.startsWith('line0\nline1')).toBe(true);
+      expect(file.content).toMatch(/lines below omitted/);
+    });
+
+    it('keeps the lines around the focus line', () => {
+      const { sections } = budgeter.pack([
+        section({ id: 'file', content: lines(200), truncation: 'around', focusLine: 120, minTokens: 10 })
+      ], 50);
+
+      expect(sections[0].content).toMatch(/lines above omitted/);
+      expect(sections[0].content).toContain('line120');
+      expect(sections[0].content).not.toContain('line0\n');
+    });
+
+    it('keeps both ends of a single long line truncated in the middle', () => {
+      const content = `${words(50, 'start')} ${words(50, 'end')}`;
+      const { sections } = budgeter.pack([
+        section({ id: 'message', content, truncation: 'middle', minTokens: 10 })
+      ], 40);
+
+      expect(sections[0].truncated).toBe(true);
+      expect(sections[0].tokens).toBeLessThanOrEqual(40);
+      expect(sections[0].content.startsWith('start start')).toBe(true);
+      expect(sections[0].content.endsWith('end end')).toBe(true);
+      expect(sections[0].content).toMatch(/characters omitted/);
+    });
+
+    it('never drops a required section for a higher-priority optional one', () => {
+      const { sections } = budgeter.pack([
+        section({ id: 'snippet', content: words(90), priority: 99, truncation: 'head' }),
+        section({ id: 'message', content: words(30), priority: 1, truncation: 'middle', required: true })
+      ], 100);
+
+      const message = sections.find(packed => packed.id === 'message');
+      expect(message).toMatchObject({ truncated: false, tokens: 30 });
+    });
+
+    it('reserves the minimum of every required section', () => {
+      const { sections } = budgeter.pack([
+        section({ id: 'system', content: lines(200), priority: 100, truncation: 'head', required: true }),
+        section({ id: 'message', content: words(20), priority: 100, truncation: 'middle', required: true })
+      ], 100);
+
+      expect(sections.map(packed => packed.id)).toEqual(['system', 'message']);
+      expect(sections[0].truncated).toBe(true);
+      expect(sections[1].truncated).toBe(false);
+    });
+
+    it('throws context-overflow when the required sections cannot fit', () => {
+      const pack = () => budgeter.pack([
+        section({ id: 'system', content: words(40), truncation: 'head', required: true }),
+        section({ id: 'message', content: words(40), truncation: 'middle', required: true })
+      ], 50);
+
+      expect(pack).toThrow(AIError);
+      expect(pack).toThrow(expect.objectContaining({ code: 'context-overflow' }));
+    });
+
+    it('throws instead of dropping a required section that cannot be truncated', () => {
+      const pack = () => budgeter.pack([
+        section({ id: 'message', content: words(80), truncation: 'drop', required: true, minTokens: 10 })
+      ], 50);
+
+      expect(pack).toThrow(expect.objectContaining({ code: 'context-overflow' }));
+    });
+  });
+
+  describe('packChat', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', content: words(30, 'old'), timestamp: 1 },
+      { role: 'assistant', content: words(5, 'mid'), timestamp: 2 },
+      { role: 'user', content: words(5, 'recent'), timestamp: 3 },
+      { role: 'assistant', content: words(5, 'latest'), timestamp: 4 }
+    ];
+
+    it('drops the oldest turns first and keeps history contiguous', () => {
+      const packed = budgeter.packChat({ systemPrompt: 'be brief', message: 'hello there', history }, 60);
+
+      expect(packed.history.map(msg => msg.content)).toEqual(history.slice(1).map(msg => msg.content));
+      expect(packed.report.dropped.map(entry => entry.id)).toEqual(['history-0']);
+    });
+
+    it('puts the selection and active file in front of the message', () => {
+      const packed = budgeter.packChat({
+        systemPrompt: 'be brief',
+        message: 'explain',
+        history: [],
+        selection: 'let x = 1;',
+        activeFile: { path: 'src/a.ts', language: 'typescript', content: 'export const a = 1;' }
+      }, 200);
+
+      expect(packed.systemPrompt).toBe('be brief');
+      expect(packed.message).toBe(
+        'Selected code:\n```typescript\nlet x = 1;\n```\n\n' +
+        'Current file: src/a.ts\n```typescript\nexport const a = 1;\n```\n\n' +
+        'explain'
+      );
+    });
+
+    it('adds related snippets after the active file and drops them first', () => {
+      const input = {
+        systemPrompt: 'be brief',
+        message: 'explain',
+        history: [],
+        activeFile: { path: 'src/a.ts', language: 'typescript', content: words(20, 'file') },
+        snippets: [{ path: 'src/b.ts:1-40', content: words(20, 'related') }]
+      };
+
+      expect(budgeter.packChat(input, 200).message).toContain(`Related code:\n\`\`\`\n// src/b.ts:1-40\n${words(20, 'related')}\n\`\`\``);
+
+      const tight = budgeter.packChat(input, 50);
+      expect(tight.message).not.toContain('Related code');
+      expect(tight.message).toContain('Current file: src/a.ts');
+      expect(tight.report.dropped.map(entry => entry.id)).toEqual(['snippet-0']);
+    });
+
+    it('fails instead of sending a request without the user message', () => {
+      expect(() => budgeter.packChat({ systemPrompt: words(50), message: words(50), history }, 40))
+        .toThrow(expect.objectContaining({ code: 'context-overflow' }));
+    });
+  });
+});
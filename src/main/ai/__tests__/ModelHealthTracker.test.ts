@@ -0,0 +1,79 @@
+import { ModelHealthTracker } from '../ModelHealthTracker';
+
+describe('ModelHealthTracker', () => {
+  let tracker: ModelHealthTracker;
+
+  const openCircuit = () => {
+    for (let i = 0; i < 3; i++) {
+      tracker.recordFailure('model', `failure ${i}`);
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new ModelHealthTracker({ failureThreshold: 3, cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after the failure threshold and refuses attempts during the cooldown', () => {
+    tracker.recordFailure('model', 'first');
+    tracker.recordFailure('model', 'second');
+    expect(tracker.canAttempt('model')).toBe(true);
+
+    expect(tracker.recordFailure('model', 'third')).toBe(true);
+    expect(tracker.getHealth('model')).toMatchObject({ state: 'open', consecutiveFailures: 3, lastError: 'third' });
+    expect(tracker.canAttempt('model')).toBe(false);
+  });
+
+  it('lets a single trial through while half-open', () => {
+    openCircuit();
+    jest.advanceTimersByTime(1000);
+
+    const attempts = [1, 2, 3].map(() => tracker.canAttempt('model'));
+
+    expect(attempts).toEqual([true, false, false]);
+    expect(tracker.getHealth('model').state).toBe('half-open');
+  });
+
+  it('closes when the trial succeeds', () => {
+    openCircuit();
+    jest.advanceTimersByTime(1000);
+    tracker.canAttempt('model');
+
+    tracker.recordSuccess('model');
+
+    expect(tracker.getHealth('model')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(tracker.canAttempt('model')).toBe(true);
+    expect(tracker.canAttempt('model')).toBe(true);
+  });
+
+  it('reopens when the trial fails and allows a new trial after the next cooldown', () => {
+    openCircuit();
+    jest.advanceTimersByTime(1000);
+    tracker.canAttempt('model');
+
+    tracker.recordFailure('model', 'trial failed');
+
+    expect(tracker.getHealth('model').state).toBe('open');
+    expect(tracker.canAttempt('model')).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(tracker.canAttempt('model')).toBe(true);
+    expect(tracker.canAttempt('model')).toBe(false);
+  });
+
+  it('hands the trial to the next request when one is released without an outcome', () => {
+    openCircuit();
+    jest.advanceTimersByTime(1000);
+    tracker.canAttempt('model');
+
+    tracker.releaseTrial('model');
+
+    expect(tracker.getHealth('model').state).toBe('half-open');
+    expect(tracker.canAttempt('model')).toBe(true);
+    expect(tracker.canAttempt('model')).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { RequestScheduler } from '../RequestScheduler';
+import { AIError } from '../errors';
+
+const ENDPOINT = 'http://127.0.0.1:11434';
+
+// A task that stays pending until release() is called
+function deferred<T = string>(value: T) {
+  let resolveTask: (() => void) | null = null;
+  const task = () => new Promise<T>(resolve => { resolveTask = () => resolve(value); });
+  // The scheduler starts tasks asynchronously, so let it get there first
+  const release = async () => {
+    await new Promise(resolve => setImmediate(resolve));
+    resolveTask!();
+  };
+  return { task, release };
+}
+
+describe('RequestScheduler', () => {
+  it('groups endpoints by origin', () => {
+    expect(RequestScheduler.endpointKey('http://127.0.0.1:11434/api/generate')).toBe(ENDPOINT);
+    expect(RequestScheduler.endpointKey('not a url')).toBe('not a url');
+  });
+
+  it('runs at most limit requests per endpoint and starts waiters by lane', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.setLimit(ENDPOINT, 1);
+    const order: string[] = [];
+    const first = deferred('first');
+
+    const running = scheduler.schedule(ENDPOINT, 'background', first.task);
+    const background = scheduler.schedule(ENDPOINT, 'background', async () => { order.push('background'); return 'b'; });
+    const inline = scheduler.schedule(ENDPOINT, 'inline', async () => { order.push('inline'); return 'i'; });
+    const interactive = scheduler.schedule(ENDPOINT, 'interactive', async () => { order.push('interactive'); return 'c'; });
+
+    expect(scheduler.getStats()[0]).toMatchObject({ active: 1, queued: { interactive: 1, inline: 1, background: 1 } });
+
+    await first.release();
+    await Promise.all([running, background, inline, interactive]);
+
+    expect(order).toEqual(['interactive', 'inline', 'background']);
+    expect(scheduler.getStats()[0]).toMatchObject({ active: 0, completed: 4 });
+  });
+
+  it('keeps separate endpoints independent', async () => {
+    const scheduler = new RequestScheduler({ defaultLimit: 1 });
+    const local = deferred('local');
+
+    const pending = scheduler.schedule(ENDPOINT, 'interactive', local.task);
+    const cloud = await scheduler.schedule('https://api.openai.com', 'interactive', async () => 'cloud');
+
+    expect(cloud.result).toBe('cloud');
+    await local.release();
+    expect((await pending).result).toBe('local');
+  });
+
+  it('retries rate limits with backoff', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    const onRetry = jest.fn();
+    const task = jest.fn()
+      .mockRejectedValueOnce(new AIError('rate-limit', 'slow down'))
+      .mockResolvedValueOnce('done');
+
+    const scheduled = await scheduler.schedule(ENDPOINT, 'interactive', task, { onRetry });
+
+    expect(scheduled).toMatchObject({ result: 'done', retries: 1 });
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), expect.objectContaining({ code: 'rate-limit' }));
+  });
+
+  it('waits for Retry-After and pauses the endpoint', async () => {
+    const scheduler = new RequestScheduler();
+    const task = jest.fn()
+      .mockRejectedValueOnce(new AIError('rate-limit', 'slow down', { retryAfterMs: 20 }))
+      .mockResolvedValueOnce('done');
+
+    const started = Date.now();
+    await scheduler.schedule(ENDPOINT, 'background', task);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+    expect(scheduler.getStats()[0].retries).toBe(1);
+  });
+
+  it('surfaces other errors without retrying', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    const task = jest.fn().mockRejectedValue(new AIError('endpoint-unreachable', 'boom', { status: 500 }));
+
+    await expect(scheduler.schedule(ENDPOINT, 'interactive', task)).rejects.toMatchObject({ code: 'endpoint-unreachable' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry inline completions', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    const task = jest.fn().mockRejectedValue(new AIError('rate-limit', 'slow down'));
+
+    await expect(scheduler.schedule(ENDPOINT, 'inline', task)).rejects.toMatchObject({ code: 'rate-limit' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1, maxRetries: 2 });
+    const task = jest.fn().mockRejectedValue(new AIError('endpoint-unreachable', 'overloaded', { status: 503 }));
+
+    await expect(scheduler.schedule(ENDPOINT, 'background', task)).rejects.toMatchObject({ code: 'endpoint-unreachable' });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('removes a cancelled request from the queue', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.setLimit(ENDPOINT, 1);
+    const first = deferred('first');
+    const controller = new AbortController();
+    const queuedTask = jest.fn();
+
+    const running = scheduler.schedule(ENDPOINT, 'interactive', first.task);
+    const queued = scheduler.schedule(ENDPOINT, 'interactive', queuedTask, { signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ code: 'cancelled' });
+    await first.release();
+    await running;
+    expect(queuedTask).not.toHaveBeenCalled();
+  });
+});
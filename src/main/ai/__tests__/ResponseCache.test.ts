@@ -0,0 +1,116 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheKeyInput, ResponseCache } from '../ResponseCache';
+
+const input = (prompt: string, overrides: Partial<CacheKeyInput> = {}): CacheKeyInput => ({
+  modelId: 'codellama-7b-instruct',
+  operation: 'chat',
+  prompt,
+  params: { temperature: 0.2, maxTokens: 256 },
+  ...overrides
+});
+
+describe('ResponseCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('derives keys from the model, operation, prompt and sampling parameters', () => {
+    const key = ResponseCache.keyFor(input('hello'));
+
+    expect(ResponseCache.keyFor(input('hello'))).toBe(key);
+    expect(ResponseCache.keyFor(input('hello', { modelId: 'gpt-4-turbo' }))).not.toBe(key);
+    expect(ResponseCache.keyFor(input('hello', { operation: 'completion' }))).not.toBe(key);
+    expect(ResponseCache.keyFor(input('hello', { params: { temperature: 0.3, maxTokens: 256 } }))).not.toBe(key);
+  });
+
+  it('returns stored responses and counts hits and misses', async () => {
+    const cache = new ResponseCache(directory);
+    const key = ResponseCache.keyFor(input('hello'));
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, input('hello'), 'world');
+    expect(await cache.get(key)).toBe('world');
+
+    expect(cache.getStats()).toMatchObject({ entries: 1, bytes: 5, hits: 1, misses: 1, byModel: { 'codellama-7b-instruct': 1 } });
+  });
+
+  it('bypasses sampling above the temperature limit', () => {
+    const cache = new ResponseCache(directory, { maxTemperature: 0.5 });
+
+    expect(cache.shouldBypass(0.2)).toBe(false);
+    expect(cache.shouldBypass(undefined)).toBe(false);
+    expect(cache.shouldBypass(0.9)).toBe(true);
+    expect(cache.recordBypass()).toBe('bypass');
+    expect(cache.getStats().bypasses).toBe(1);
+  });
+
+  it('evicts the least recently used entries past maxBytes', async () => {
+    const cache = new ResponseCache(directory, { maxBytes: 10 });
+    const [a, b, c] = ['a', 'b', 'c'].map(prompt => ResponseCache.keyFor(input(prompt)));
+
+    await cache.set(a, input('a'), 'aaaa');
+    await cache.set(b, input('b'), 'bbbb');
+    // Reading a makes b the least recently used
+    await cache.get(a);
+    await cache.set(c, input('c'), 'cccc');
+
+    expect(await cache.get(b)).toBeUndefined();
+    expect(await cache.get(a)).toBe('aaaa');
+    expect(await cache.get(c)).toBe('cccc');
+    expect(cache.getStats().bytes).toBe(8);
+  });
+
+  it('ignores empty and oversized responses', async () => {
+    const cache = new ResponseCache(directory, { maxBytes: 4 });
+
+    await cache.set(ResponseCache.keyFor(input('a')), input('a'), '');
+    await cache.set(ResponseCache.keyFor(input('b')), input('b'), 'too large');
+
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('invalidates the entries of one model', async () => {
+    const cache = new ResponseCache(directory);
+    await cache.set(ResponseCache.keyFor(input('a')), input('a'), 'local');
+    const cloud = input('a', { modelId: 'gpt-4-turbo' });
+    await cache.set(ResponseCache.keyFor(cloud), cloud, 'cloud');
+
+    expect(await cache.invalidateModel('codellama-7b-instruct')).toBe(1);
+    expect(cache.getStats().byModel).toEqual({ 'gpt-4-turbo': 1 });
+    expect(await cache.get(ResponseCache.keyFor(cloud))).toBe('cloud');
+  });
+
+  it('reloads the index written by flush', async () => {
+    const cache = new ResponseCache(directory);
+    const key = ResponseCache.keyFor(input('hello'));
+    await cache.set(key, input('hello'), 'world');
+    await cache.flush();
+
+    const reloaded = new ResponseCache(directory);
+    expect(await reloaded.load()).toBe(1);
+    expect(await reloaded.get(key)).toBe('world');
+  });
+
+  it('forgets entries whose file was removed', async () => {
+    const cache = new ResponseCache(directory);
+    const key = ResponseCache.keyFor(input('hello'));
+    await cache.set(key, input('hello'), 'world');
+    await fs.rm(path.join(directory, `${key}.txt`));
+
+    expect(await cache.get(key)).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+    await cache.flush();
+  });
+
+  it('starts empty without an index', async () => {
+    expect(await new ResponseCache(path.join(directory, 'missing')).load()).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelConfig } from '../../../shared/types/ai';
+import { UsageTracker } from '../UsageTracker';
+
+const config = (overrides: Partial<ModelConfig>): ModelConfig => ({
+  id: 'claude-code',
+  name: 'Claude Code',
+  provider: 'anthropic',
+  type: 'chat',
+  maxTokens: 4096,
+  contextWindow: 200000,
+  specialties: [],
+  languages: [],
+  latency: 'low',
+  isLocal: false,
+  endpoint: 'https://api.anthropic.com/v1/messages',
+  parameters: { model: 'claude-3-5-sonnet-20241022' },
+  ...overrides
+});
+
+const claude = config({});
+const local = config({ id: 'codellama-7b-instruct', name: 'Code Llama', provider: 'ollama', isLocal: true, parameters: {} });
+
+describe('UsageTracker', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    filePath = path.join(directory, 'nested', 'usage.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('prices requests from the table and local models as free', async () => {
+    const tracker = new UsageTracker(filePath);
+
+    // Sonnet: $3 input and $15 output per million tokens
+    expect(await tracker.record(claude, { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(4.5);
+    expect(await tracker.record(local, { inputTokens: 5000, outputTokens: 5000 })).toBe(0);
+  });
+
+  it('sums today and this month per provider and per model', async () => {
+    const tracker = new UsageTracker(filePath);
+    await tracker.record(claude, { inputTokens: 1000, outputTokens: 100 });
+    await tracker.record(claude, { inputTokens: 2000, outputTokens: 200 });
+    await tracker.record(local, { inputTokens: 10, outputTokens: 20 });
+
+    const summary = tracker.getSummary();
+    expect(summary.today.anthropic).toMatchObject({ requests: 2, inputTokens: 3000, outputTokens: 300 });
+    expect(summary.month.ollama).toMatchObject({ requests: 1, costUsd: 0 });
+    expect(Object.keys(summary.monthByModel).sort()).toEqual(['claude-code', 'codellama-7b-instruct']);
+  });
+
+  it('persists totals across instances', async () => {
+    await new UsageTracker(filePath).record(claude, { inputTokens: 1000, outputTokens: 100 });
+
+    const reloaded = new UsageTracker(filePath);
+    await reloaded.load();
+    expect(reloaded.getSummary().today.anthropic.requests).toBe(1);
+  });
+
+  it('warns past a soft limit and blocks at a hard limit', async () => {
+    const tracker = new UsageTracker(filePath);
+    tracker.setBudgets([{ provider: 'anthropic', period: 'daily', softLimitUsd: 1, hardLimitUsd: 5 }]);
+
+    expect(tracker.checkBudget(claude)).toEqual([]);
+
+    await tracker.record(claude, { inputTokens: 500_000, outputTokens: 0 });
+    expect(tracker.checkBudget(claude)).toEqual([expect.objectContaining({ state: 'warning', spentUsd: 1.5 })]);
+    // Budgets apply per provider
+    expect(tracker.checkBudget(local)).toEqual([]);
+
+    await tracker.record(claude, { inputTokens: 0, outputTokens: 300_000 });
+    expect(() => tracker.checkBudget(claude)).toThrow(expect.objectContaining({ code: 'budget-exceeded' }));
+    expect(tracker.getSummary().budgets[0].state).toBe('exceeded');
+  });
+
+  it('starts empty when nothing was recorded', async () => {
+    const tracker = new UsageTracker(filePath);
+    await tracker.load();
+
+    expect(tracker.getSummary()).toMatchObject({ today: {}, month: {}, monthByModel: {}, budgets: [] });
+  });
+});
@@ -0,0 +1,52 @@
+import { ModelConfig } from '../../../shared/types/ai';
+import { buildFimPrompt, getFimFormat } from '../fim';
+
+const withModel = (model: string): ModelConfig => ({
+  id: model,
+  name: model,
+  provider: 'ollama',
+  type: 'chat',
+  maxTokens: 2048,
+  contextWindow: 4096,
+  specialties: [],
+  languages: [],
+  latency: 'low',
+  isLocal: true,
+  endpoint: 'http://127.0.0.1:11434/api/generate',
+  parameters: { model }
+});
+
+describe('getFimFormat', () => {
+  it.each([
+    'codellama',
+    'codellama:latest',
+    'codellama:7b',
+    'codellama:7b-instruct',
+    'codellama:13b-instruct-q4_0',
+    'codellama:7b-code'
+  ])('infills with %s', model => {
+    expect(getFimFormat(withModel(model))).toBe('codellama');
+  });
+
+  it.each([
+    'codellama:7b-python',
+    'codellama:34b',
+    'codellama:34b-instruct',
+    'codellama:70b-instruct'
+  ])('prompts %s instead', model => {
+    expect(getFimFormat(withModel(model))).toBeNull();
+  });
+
+  it('recognises the other FIM-trained families', () => {
+    expect(getFimFormat(withModel('deepseek-coder:6.7b-base'))).toBe('deepseek');
+    expect(getFimFormat(withModel('qwen2.5-coder:7b'))).toBe('qwen');
+    expect(getFimFormat(withModel('starcoder2:3b'))).toBe('starcoder');
+    expect(getFimFormat(withModel('llama3.1:8b'))).toBeNull();
+  });
+});
+
+describe('buildFimPrompt', () => {
+  it('uses the Code Llama infill layout', () => {
+    expect(buildFimPrompt('codellama', 'const a = ', ';')).toBe('<PRE> const a =  <SUF>; <MID>');
+  });
+});
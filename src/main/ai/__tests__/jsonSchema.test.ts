@@ -0,0 +1,77 @@
+import { parseJsonOutput, validateJsonSchema } from '../jsonSchema';
+
+describe('parseJsonOutput', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonOutput('{"ok": true}')).toEqual({ ok: true });
+  });
+
+  it('unwraps a fenced block', () => {
+    expect(parseJsonOutput('```json\n[1, 2]\n```')).toEqual([1, 2]);
+  });
+
+  it('keeps the outermost value around surrounding prose', () => {
+    expect(parseJsonOutput('Here you go: {"a": {"b": 1}} Hope that helps.')).toEqual({ a: { b: 1 } });
+  });
+
+  it('throws when there is no JSON', () => {
+    expect(() => parseJsonOutput('no json here')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    required: ['summary', 'findings'],
+    additionalProperties: false,
+    properties: {
+      summary: { type: 'string', minLength: 1 },
+      findings: {
+        type: 'array',
+        maxItems: 2,
+        items: {
+          type: 'object',
+          required: ['line'],
+          properties: {
+            line: { type: 'integer', minimum: 1 },
+            severity: { enum: ['low', 'high'] }
+          }
+        }
+      }
+    }
+  };
+
+  it('accepts a conforming value', () => {
+    expect(validateJsonSchema({ summary: 'ok', findings: [{ line: 3, severity: 'low' }] }, schema)).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    const errors = validateJsonSchema({
+      summary: '',
+      findings: [{ line: 1.5 }, { line: 0, severity: 'medium' }, {}],
+      extra: true
+    }, schema);
+
+    expect(errors).toEqual([
+      '$.summary: shorter than 1 characters',
+      '$.findings: more than 2 items',
+      '$.findings[0].line: expected integer, got number',
+      '$.findings[1].line: less than 1',
+      '$.findings[1].severity: expected one of "low", "high"',
+      '$.findings[2].line: required property is missing',
+      '$.extra: unexpected property'
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema({ summary: 'ok' }, schema)).toEqual(['$.findings: required property is missing']);
+  });
+
+  it('stops at a type mismatch', () => {
+    expect(validateJsonSchema(null, schema)).toEqual(['$: expected object, got null']);
+    expect(validateJsonSchema('x', { type: ['number', 'null'] })).toEqual(['$: expected number or null, got string']);
+  });
+
+  it('checks const values', () => {
+    expect(validateJsonSchema('v2', { const: 'v1' })).toEqual(['$: expected "v1"']);
+  });
+});
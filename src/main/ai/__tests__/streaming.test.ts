@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+import { readNdjsonStream, readSseStream, ServerSentEvent } from '../streaming';
+
+// Splits the encoded text at the given byte offsets, the way a socket may deliver it
+function byteStream(text: string, cuts: number[]): Readable {
+  const bytes = Buffer.from(text, 'utf-8');
+  const bounds = [0, ...cuts, bytes.length];
+  return Readable.from(bounds.slice(1).map((end, index) => bytes.subarray(bounds[index], end)));
+}
+
+describe('readNdjsonStream', () => {
+  it('keeps multi-byte characters split across chunks', async () => {
+    const text = '{"response":"héllo 👋"}\n{"done":true}\n';
+    // Cut inside the two bytes of "é" and the four bytes of the emoji
+    const cuts = [text.indexOf('é') + 1, Buffer.from(text.slice(0, text.indexOf('👋'))).length + 2];
+    const objects: any[] = [];
+
+    await readNdjsonStream(byteStream(text, cuts), data => objects.push(data));
+
+    expect(objects).toEqual([{ response: 'héllo 👋' }, { done: true }]);
+  });
+
+  it('reads a last line without a newline and skips malformed lines', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const objects: any[] = [];
+
+    await readNdjsonStream(Readable.from(['{"a":1}\nnot json\n\n{"b":', '2}']), data => objects.push(data));
+
+    expect(objects).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe('readSseStream', () => {
+  it('groups event and data lines into events', async () => {
+    const events: ServerSentEvent[] = [];
+
+    await readSseStream(
+      Readable.from(['event: delta\r\ndata: {"t":"a"}\r\n\r\n', 'data: line one\ndata: line two\n\n: comment\ndata: [DONE]']),
+      event => events.push(event)
+    );
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"t":"a"}' },
+      { event: undefined, data: 'line one\nline two' },
+      { event: undefined, data: '[DONE]' }
+    ]);
+  });
+
+  it('decodes text split inside a character', async () => {
+    const text = 'data: ünïcode\n\n';
+    const events: ServerSentEvent[] = [];
+
+    await readSseStream(byteStream(text, [7, 9]), event => events.push(event));
+
+    expect(events).toEqual([{ event: undefined, data: 'ünïcode' }]);
+  });
+});
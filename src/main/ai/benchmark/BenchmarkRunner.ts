@@ -0,0 +1,106 @@
+import { BenchmarkProgress, BenchmarkReport, BenchmarkSummary, BenchmarkTaskResult } from '../../../shared/types/ai';
+import { AIError, toAIError } from '../errors';
+import { BENCHMARK_SUITE, BenchmarkTask } from './benchmarkSuite';
+import { extractCode, runCheck } from './checks';
+
+export interface BenchmarkExecution {
+  response: string;
+  latency: number;
+  tokens: number;
+}
+
+export type BenchmarkExecutor = (modelId: string, task: BenchmarkTask, signal: AbortSignal) => Promise<BenchmarkExecution>;
+
+export interface BenchmarkRunOptions {
+  signal: AbortSignal;
+  tasks?: BenchmarkTask[];
+  onProgress?: (progress: BenchmarkProgress) => void;
+}
+
+// Runs every task of the suite against each model, one request at a time so the
+// timings of local models are not skewed by each other, and scores the answers
+export class BenchmarkRunner {
+  constructor(private execute: BenchmarkExecutor) {}
+
+  async run(runId: string, modelIds: string[], options: BenchmarkRunOptions): Promise<BenchmarkReport> {
+    const tasks = options.tasks || BENCHMARK_SUITE;
+    const total = modelIds.length * tasks.length;
+    const startedAt = Date.now();
+    const results: BenchmarkTaskResult[] = [];
+
+    for (const modelId of modelIds) {
+      for (const task of tasks) {
+        if (options.signal.aborted) {
+          return this.buildReport(runId, startedAt, results, true);
+        }
+
+        const result = await this.runTask(modelId, task, options.signal);
+        if (options.signal.aborted) {
+          return this.buildReport(runId, startedAt, results, true);
+        }
+
+        results.push(result);
+        console.log(`📊 ${modelId} ${task.id}: ${result.passed ? 'pass' : 'fail'} (${result.checksPassed}/${result.checksTotal}) in ${result.latency}ms`);
+        options.onProgress?.({ runId, modelId, taskId: task.id, completed: results.length, total, result });
+      }
+    }
+
+    return this.buildReport(runId, startedAt, results, false);
+  }
+
+  private async runTask(modelId: string, task: BenchmarkTask, signal: AbortSignal): Promise<BenchmarkTaskResult> {
+    const base = { taskId: task.id, modelId, language: task.language, checksTotal: task.checks.length };
+
+    try {
+      const execution = await this.execute(modelId, task, signal);
+      const code = extractCode(execution.response);
+      const failures: string[] = [];
+
+      for (const check of task.checks) {
+        const outcome = await runCheck(check, code);
+        if (!outcome.passed) {
+          failures.push(outcome.detail ? `${check.description}: ${outcome.detail}` : check.description);
+        }
+      }
+
+      return {
+        ...base,
+        passed: failures.length === 0,
+        checksPassed: task.checks.length - failures.length,
+        failures,
+        latency: execution.latency,
+        tokens: execution.tokens,
+        tokensPerSecond: Math.round((execution.tokens / Math.max(execution.latency, 1)) * 1000 * 100) / 100
+      };
+    } catch (error) {
+      const aiError = error instanceof AIError ? error : await toAIError(error);
+      return { ...base, passed: false, checksPassed: 0, failures: [`${aiError.code}: ${aiError.message}`], latency: 0, tokens: 0, tokensPerSecond: 0 };
+    }
+  }
+
+  private buildReport(runId: string, startedAt: number, results: BenchmarkTaskResult[], cancelled: boolean): BenchmarkReport {
+    const finishedAt = Date.now();
+    const groups = new Map<string, BenchmarkTaskResult[]>();
+    for (const result of results) {
+      const key = `${result.modelId}|${result.language}`;
+      groups.set(key, [...(groups.get(key) || []), result]);
+    }
+
+    const summaries: BenchmarkSummary[] = Array.from(groups.values()).map(group => {
+      const answered = group.filter(result => result.tokens > 0);
+      return {
+        modelId: group[0].modelId,
+        language: group[0].language,
+        tasks: group.length,
+        passRate: group.filter(result => result.passed).length / group.length,
+        avgLatency: answered.length > 0 ? Math.round(answered.reduce((sum, result) => sum + result.latency, 0) / answered.length) : 0,
+        tokensPerSecond: answered.length > 0
+          ? Math.round(answered.reduce((sum, result) => sum + result.tokensPerSecond, 0) / answered.length * 100) / 100
+          : 0,
+        runAt: finishedAt
+      };
+    });
+
+    return { runId, startedAt, finishedAt, results, summaries, cancelled: cancelled || undefined };
+  }
+}
@@ -0,0 +1,143 @@
+// Deterministic checks run against the code extracted from a model's answer
+export type BenchmarkCheck =
+  | { type: 'regex'; pattern: string; flags?: string; description: string }
+  | { type: 'not-regex'; pattern: string; flags?: string; description: string }
+  | { type: 'js-compiles'; description: string }
+  | { type: 'js-assert'; functionName: string; cases: Array<{ args: any[]; expected: any }>; description: string };
+
+export interface BenchmarkTask {
+  id: string;
+  language: string;
+  prompt: string;
+  maxTokens: number;
+  checks: BenchmarkCheck[];
+}
+
+// Small coding tasks a 7B model can answer in seconds on a CPU. JavaScript answers are
+// executed; for the other languages there is no compiler at hand, so their checks are structural.
+export const BENCHMARK_SUITE: BenchmarkTask[] = [
+  {
+    id: 'js-fizzbuzz',
+    language: 'javascript',
+    prompt: 'Write a plain JavaScript function `fizzBuzz(n)` that returns an array of strings for the numbers 1 to n: "Fizz" for multiples of 3, "Buzz" for multiples of 5, "FizzBuzz" for multiples of both, and the number itself otherwise. Reply with only the code in a ```javascript block.',
+    maxTokens: 256,
+    checks: [
+      { type: 'js-compiles', description: 'compiles' },
+      {
+        type: 'js-assert',
+        functionName: 'fizzBuzz',
+        cases: [
+          { args: [5], expected: ['1', '2', 'Fizz', '4', 'Buzz'] },
+          { args: [15], expected: ['1', '2', 'Fizz', '4', 'Buzz', 'Fizz', '7', '8', 'Fizz', 'Buzz', '11', 'Fizz', '13', '14', 'FizzBuzz'] }
+        ],
+        description: 'fizzBuzz returns the expected sequence'
+      }
+    ]
+  },
+  {
+    id: 'js-palindrome',
+    language: 'javascript',
+    prompt: 'Write a plain JavaScript function `isPalindrome(text)` that returns true when text reads the same forwards and backwards, ignoring case and any character that is not a letter or digit. Reply with only the code in a ```javascript block.',
+    maxTokens: 256,
+    checks: [
+      { type: 'js-compiles', description: 'compiles' },
+      {
+        type: 'js-assert',
+        functionName: 'isPalindrome',
+        cases: [
+          { args: ['A man, a plan, a canal: Panama'], expected: true },
+          { args: ['race a car'], expected: false },
+          { args: [''], expected: true }
+        ],
+        description: 'isPalindrome handles case and punctuation'
+      }
+    ]
+  },
+  {
+    id: 'js-chunk',
+    language: 'javascript',
+    prompt: 'Write a plain JavaScript function `chunk(items, size)` that splits an array into consecutive arrays of at most `size` elements. Reply with only the code in a ```javascript block.',
+    maxTokens: 256,
+    checks: [
+      { type: 'js-compiles', description: 'compiles' },
+      {
+        type: 'js-assert',
+        functionName: 'chunk',
+        cases: [
+          { args: [[1, 2, 3, 4, 5], 2], expected: [[1, 2], [3, 4], [5]] },
+          { args: [[], 3], expected: [] }
+        ],
+        description: 'chunk splits arrays'
+      }
+    ]
+  },
+  {
+    id: 'python-word-count',
+    language: 'python',
+    prompt: 'Write a Python function `word_count(text)` that returns a dict mapping each lowercase word to how often it occurs. Reply with only the code in a ```python block.',
+    maxTokens: 256,
+    checks: [
+      { type: 'regex', pattern: 'def\\s+word_count\\s*\\(\\s*text', description: 'defines word_count(text)' },
+      { type: 'regex', pattern: '\\.lower\\(\\)', description: 'lowercases words' },
+      { type: 'regex', pattern: '\\breturn\\b', description: 'returns a value' }
+    ]
+  },
+  {
+    id: 'python-fibonacci',
+    language: 'python',
+    prompt: 'Write an iterative Python function `fibonacci(n)` that returns the n-th Fibonacci number (fibonacci(0) == 0). Do not use recursion. Reply with only the code in a ```python block.',
+    maxTokens: 256,
+    checks: [
+      { type: 'regex', pattern: 'def\\s+fibonacci\\s*\\(\\s*n', description: 'defines fibonacci(n)' },
+      { type: 'regex', pattern: '\\b(for|while)\\b', description: 'uses a loop' },
+      { type: 'not-regex', pattern: 'return[^\\n]*fibonacci\\s*\\(', description: 'is not recursive' }
+    ]
+  },
+  {
+    id: 'java-reverse',
+    language: 'java',
+    prompt: 'Write a Java class `StringUtils` with a `public static String reverse(String input)` method that returns the reversed string and returns null for null input. Reply with only the code in a ```java block.',
+    maxTokens: 300,
+    checks: [
+      { type: 'regex', pattern: 'class\\s+StringUtils', description: 'declares StringUtils' },
+      { type: 'regex', pattern: 'public\\s+static\\s+String\\s+reverse\\s*\\(\\s*String\\s+\\w+\\s*\\)', description: 'declares reverse(String)' },
+      { type: 'regex', pattern: '==\\s*null', description: 'handles null input' }
+    ]
+  },
+  {
+    id: 'apex-bulk-trigger',
+    language: 'apex',
+    prompt: 'Write a bulk-safe Apex trigger on Account (before insert) that sets Description to \'New customer\' when Description is blank. Reply with only the code in an ```apex block.',
+    maxTokens: 300,
+    checks: [
+      { type: 'regex', pattern: 'trigger\\s+\\w+\\s+on\\s+Account\\s*\\(\\s*before\\s+insert', flags: 'i', description: 'trigger on Account before insert' },
+      { type: 'regex', pattern: 'for\\s*\\(\\s*Account\\s+\\w+\\s*:\\s*Trigger\\.new', flags: 'i', description: 'iterates Trigger.new' },
+      { type: 'not-regex', pattern: '\\[\\s*SELECT', flags: 'i', description: 'runs no SOQL' },
+      { type: 'not-regex', pattern: '\\b(insert|update)\\s+\\w+\\s*;', flags: 'i', description: 'runs no DML in a before trigger' }
+    ]
+  },
+  {
+    id: 'apex-test-class',
+    language: 'apex',
+    prompt: 'Write an Apex test class `AccountServiceTest` for a method `AccountService.activate(List<Account> accounts)` that sets Active__c to \'Yes\'. Insert test data, call the method between Test.startTest() and Test.stopTest(), and assert the result. Reply with only the code in an ```apex block.',
+    maxTokens: 400,
+    checks: [
+      { type: 'regex', pattern: '@isTest', flags: 'i', description: 'annotated @isTest' },
+      { type: 'regex', pattern: 'Test\\.startTest\\(\\s*\\)[\\s\\S]*Test\\.stopTest\\(\\s*\\)', flags: 'i', description: 'wraps the call in startTest/stopTest' },
+      { type: 'regex', pattern: 'AccountService\\.activate\\s*\\(', description: 'calls AccountService.activate' },
+      { type: 'regex', pattern: 'System\\.assert(Equals)?\\s*\\(', flags: 'i', description: 'asserts the outcome' }
+    ]
+  },
+  {
+    id: 'soql-recent-contacts',
+    language: 'soql',
+    prompt: 'Write a SOQL query that returns the Id, Name and Email of the 10 most recently created Contacts whose Email is not null. Reply with only the query in a ```sql block.',
+    maxTokens: 128,
+    checks: [
+      { type: 'regex', pattern: 'SELECT\\s+Id\\s*,\\s*Name\\s*,\\s*Email\\s+FROM\\s+Contact', flags: 'i', description: 'selects Id, Name, Email from Contact' },
+      { type: 'regex', pattern: 'WHERE\\s+Email\\s*!=\\s*null', flags: 'i', description: 'filters out null emails' },
+      { type: 'regex', pattern: 'ORDER\\s+BY\\s+CreatedDate\\s+DESC', flags: 'i', description: 'orders by CreatedDate DESC' },
+      { type: 'regex', pattern: 'LIMIT\\s+10\\b', flags: 'i', description: 'limits to 10 rows' }
+    ]
+  }
+];
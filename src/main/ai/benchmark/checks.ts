@@ -0,0 +1,156 @@
+import { spawn } from 'child_process';
+import * as os from 'os';
+import { BenchmarkCheck } from './benchmarkSuite';
+
+export interface CheckOutcome {
+  passed: boolean;
+  // Why the check failed
+  detail?: string;
+}
+
+// Per script run inside the check process, so an infinite loop fails its check cleanly
+const SCRIPT_TIMEOUT_MS = 1000;
+// Hard limit for the whole check process, which is killed when it runs over
+const CHECK_PROCESS_TIMEOUT_MS = 5000;
+const MAX_CHECK_OUTPUT = 64 * 1024;
+const CODE_BLOCK_PATTERN = /```[\w+-]*\n([\s\S]*?)```/;
+
+// Runs in the check process. It only gets the check and the script on stdin and answers on stdout.
+// node:vm is used for the per-script timeout and a clean global scope, not for isolation.
+const CHECK_RUNNER_SOURCE = `
+const vm = require('vm');
+const { isDeepStrictEqual } = require('util');
+
+function run({ check, script, timeoutMs }) {
+  if (check.type === 'js-compiles') {
+    new vm.Script(script);
+    return { passed: true };
+  }
+
+  const context = vm.createContext({ module: { exports: {} }, exports: {} });
+  vm.runInContext(script, context, { timeout: timeoutMs });
+  const fn = context[check.functionName] || context.module.exports[check.functionName] || context.module.exports;
+  if (typeof fn !== 'function') {
+    return { passed: false, detail: check.functionName + ' is not defined' };
+  }
+
+  for (const testCase of check.cases) {
+    context.__args = testCase.args;
+    context.__fn = fn;
+    const actual = vm.runInContext('__fn(...__args)', context, { timeout: timeoutMs });
+    if (!isDeepStrictEqual(JSON.parse(JSON.stringify(actual ?? null)), testCase.expected)) {
+      const args = testCase.args.map(arg => JSON.stringify(arg)).join(', ');
+      return { passed: false, detail: check.functionName + '(' + args + ') returned ' + JSON.stringify(actual) };
+    }
+  }
+  return { passed: true };
+}
+
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  let outcome;
+  try {
+    outcome = run(JSON.parse(input));
+  } catch (error) {
+    outcome = { passed: false, detail: String(error && error.message || error) };
+  }
+  // Timers the script left behind must not keep the process alive
+  process.stdout.write(JSON.stringify(outcome), () => process.exit(0));
+});
+`;
+
+// The first fenced block of the answer, or the whole answer when there is none
+export function extractCode(response: string): string {
+  const match = response.match(CODE_BLOCK_PATTERN);
+  return (match ? match[1] : response).trim();
+}
+
+export async function runCheck(check: BenchmarkCheck, code: string): Promise<CheckOutcome> {
+  try {
+    switch (check.type) {
+      case 'regex':
+        return { passed: new RegExp(check.pattern, check.flags).test(code) };
+      case 'not-regex':
+        return { passed: !new RegExp(check.pattern, check.flags).test(code) };
+      case 'js-compiles':
+      case 'js-assert':
+        return await runInCheckProcess(check, code);
+    }
+  } catch (error) {
+    return { passed: false, detail: error.message };
+  }
+}
+
+// Generated code is untrusted and node:vm is no sandbox (it can reach the host's process object),
+// so it runs in a separate Node process (Electron as plain Node) that shares no objects with the
+// main process, starts with an empty environment in the temp directory and is killed on timeout.
+function runInCheckProcess(check: BenchmarkCheck, code: string): Promise<CheckOutcome> {
+  return new Promise(resolve => {
+    const child = spawn(process.execPath, [...getPermissionFlags(), '-e', CHECK_RUNNER_SOURCE], {
+      cwd: os.tmpdir(),
+      // Windows cannot start a process without SystemRoot
+      env: { ELECTRON_RUN_AS_NODE: '1', ...(process.env.SystemRoot ? { SystemRoot: process.env.SystemRoot } : {}) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      windowsHide: true
+    });
+
+    let settled = false;
+    let output = '';
+    let errorOutput = '';
+    const finish = (outcome: CheckOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (child.exitCode === null) child.kill('SIGKILL');
+      resolve(outcome);
+    };
+    const timer = setTimeout(() => {
+      finish({ passed: false, detail: `timed out after ${CHECK_PROCESS_TIMEOUT_MS}ms` });
+    }, CHECK_PROCESS_TIMEOUT_MS);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', chunk => {
+      output += chunk;
+      if (output.length > MAX_CHECK_OUTPUT) {
+        finish({ passed: false, detail: 'check produced too much output' });
+      }
+    });
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', chunk => {
+      errorOutput = (errorOutput + chunk).slice(-MAX_CHECK_OUTPUT);
+    });
+    child.on('error', error => finish({ passed: false, detail: `could not start the check process: ${error.message}` }));
+    child.on('close', exitCode => {
+      try {
+        const outcome = JSON.parse(output);
+        finish({ passed: outcome.passed === true, detail: typeof outcome.detail === 'string' ? outcome.detail : undefined });
+      } catch (error) {
+        const reason = errorOutput.trim().split('\n').pop();
+        finish({ passed: false, detail: reason || `check process exited with code ${exitCode}` });
+      }
+    });
+
+    // The process may already be gone (e.g. killed on timeout) when stdin is written
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(JSON.stringify({ check, script: toScript(code), timeoutMs: SCRIPT_TIMEOUT_MS }));
+  });
+}
+
+// Where the runtime has Node's permission model (Node 20+), the check process also gets no
+// file system access, child processes or worker threads
+function getPermissionFlags(): string[] {
+  const major = Number(process.versions.node.split('.')[0]);
+  return major >= 20 ? ['--experimental-permission'] : [];
+}
+
+// Models often answer with ES module syntax; declarations are kept as globals instead.
+// Top-level const/let bindings are not attached to the context, so they become var.
+function toScript(code: string): string {
+  return code
+    .replace(/^import\s.*$/gm, '')
+    .replace(/^export\s+default\s+/gm, '')
+    .replace(/^export\s+/gm, '')
+    .replace(/^(?:const|let)\s+(\w+)\s*=/gm, 'var $1 =');
+}
@@ -0,0 +1,49 @@
+import { ChatRequest, ModelConfig } from '../../shared/types/ai';
+import { renderPrompt } from './prompts/PromptTemplateRegistry';
+
+export interface RoleMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// The system prompt every provider receives: the caller's, or the model's chat-system template.
+// System entries in history are folded in, so providers with a single system field see them too.
+export function resolveSystemPrompt(config: ModelConfig, request: ChatRequest): string {
+  const systemPrompt = request.systemPrompt || renderPrompt(config, 'chat-system', {}, request.onPromptTemplate);
+  const historyNotes = request.history.filter(msg => msg.role === 'system').map(msg => msg.content);
+  return [systemPrompt, ...historyNotes].join('\n\n');
+}
+
+// Role-tagged conversation for OpenAI-style APIs (OpenAI, Mistral, Ollama /api/chat):
+// system prompt, the history in order, then the new user message
+export function buildChatMessages(config: ModelConfig, request: ChatRequest): RoleMessage[] {
+  return [
+    { role: 'system', content: resolveSystemPrompt(config, request) },
+    ...toConversation(request)
+  ];
+}
+
+// Anthropic takes the system prompt as a top-level field, and the conversation has to
+// open with a user turn; consecutive turns of one role are merged into one
+export function buildAnthropicChat(config: ModelConfig, request: ChatRequest): { system: string; messages: RoleMessage[] } {
+  const messages: RoleMessage[] = [];
+  for (const msg of toConversation(request)) {
+    const previous = messages[messages.length - 1];
+    if (previous?.role === msg.role) {
+      previous.content += `\n\n${msg.content}`;
+    } else if (messages.length > 0 || msg.role === 'user') {
+      messages.push({ ...msg });
+    }
+  }
+
+  return { system: resolveSystemPrompt(config, request), messages };
+}
+
+function toConversation(request: ChatRequest): RoleMessage[] {
+  return [
+    ...request.history
+      .filter(msg => msg.role !== 'system')
+      .map(msg => ({ role: msg.role, content: msg.content })),
+    { role: 'user', content: request.message }
+  ];
+}
@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { AIErrorCode, AIErrorInfo, ModelConfig } from '../../shared/types/ai';
+
+export interface AIErrorDetails {
+  provider?: string;
+  modelId?: string;
+  modelName?: string;
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class AIError extends Error {
+  readonly code: AIErrorCode;
+  readonly details: AIErrorDetails;
+
+  constructor(code: AIErrorCode, message: string, details: AIErrorDetails = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.code = code;
+    this.details = details;
+  }
+
+  toInfo(): AIErrorInfo {
+    const { provider, modelId, modelName, status, retryAfterMs } = this.details;
+    return { code: this.code, message: this.message, provider, modelId, modelName, status, retryAfterMs };
+  }
+}
+
+const UNREACHABLE_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'ECONNRESET', 'EAI_AGAIN'];
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+const CONTEXT_OVERFLOW_PATTERN = /context[_ ]length|context window|maximum context|too many tokens|prompt is too long|input is too long|exceeds the model/i;
+const MODEL_NOT_FOUND_PATTERN = /model ['"]?[^'"]*['"]? not found|try pulling it/i;
+
+// Maps whatever a provider call threw (axios error, AIError, plain Error) to an AIError.
+// Streaming requests carry their error body as a stream, so it is read here when needed.
+export async function toAIError(error: any, config?: ModelConfig): Promise<AIError> {
+  if (error instanceof AIError) {
+    return error;
+  }
+
+  const details: AIErrorDetails = {
+    provider: config?.provider,
+    modelId: config?.id,
+    modelName: config?.parameters?.model,
+    cause: error
+  };
+  const modelLabel = config?.name || 'The model';
+
+  if (axios.isCancel(error) || error?.code === 'ERR_CANCELED' || error?.name === 'AbortError') {
+    return new AIError('cancelled', 'Request cancelled', details);
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new AIError('unknown', error?.message || String(error), details);
+  }
+
+  if (!error.response) {
+    if (TIMEOUT_CODES.includes(error.code) || /timeout/i.test(error.message)) {
+      return new AIError('timeout', `${modelLabel} did not respond in time`, details);
+    }
+    if (UNREACHABLE_CODES.includes(error.code)) {
+      return new AIError('endpoint-unreachable', `Cannot reach ${config?.endpoint || 'the model endpoint'} (${error.code})`, details);
+    }
+    return new AIError('unknown', error.message, details);
+  }
+
+  const status = error.response.status;
+  const providerMessage = await readProviderMessage(error.response.data);
+  const message = providerMessage || error.message;
+  details.status = status;
+
+  if (status === 401 || status === 403) {
+    return new AIError('auth', `${modelLabel} rejected the API key: ${message}`, details);
+  }
+
+  // 529 is Anthropic's "overloaded"
+  if (status === 429 || status === 529) {
+    details.retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+    return new AIError('rate-limit', `${modelLabel} is rate limited: ${message}`, details);
+  }
+
+  if (status === 408 || status === 504) {
+    return new AIError('timeout', `${modelLabel} timed out: ${message}`, details);
+  }
+
+  if (status === 404 && (config?.provider === 'ollama' || MODEL_NOT_FOUND_PATTERN.test(message))) {
+    return new AIError('model-not-pulled', `${details.modelName || modelLabel} is not installed: ${message}`, details);
+  }
+
+  if ((status === 400 || status === 413 || status === 422 || status === 500) && CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    return new AIError('context-overflow', `The request is too long for ${config?.name || 'the model'}: ${message}`, details);
+  }
+
+  if (status === 502 || status === 503) {
+    return new AIError('endpoint-unreachable', `${modelLabel} is unavailable (${status}): ${message}`, details);
+  }
+
+  return new AIError('unknown', `${modelLabel} failed (${status}): ${message}`, details);
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Error bodies: Ollama {error: "..."}, OpenAI/Mistral {error: {message}}, Anthropic {error: {type, message}}
+async function readProviderMessage(data: any): Promise<string | undefined> {
+  if (data instanceof Readable) {
+    const decoder = new StringDecoder('utf8');
+    let raw = '';
+    try {
+      for await (const chunk of data) {
+        raw += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        if (raw.length > 16384) break;
+      }
+    } catch (error) {
+      return raw || undefined;
+    }
+    data = raw + decoder.end();
+  }
+
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (error) {
+      return data.trim() || undefined;
+    }
+  }
+
+  const err = data?.error;
+  if (typeof err === 'string') return err;
+  return err?.message || data?.message || data?.detail || undefined;
+}
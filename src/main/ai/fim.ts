@@ -0,0 +1,129 @@
+import { InlineCompletionRequest, ModelConfig } from '../../shared/types/ai';
+
+export type FimFormat = 'codellama' | 'deepseek' | 'qwen' | 'starcoder';
+
+export interface FimWindows {
+  prefix: string;
+  suffix: string;
+  // Indentation of the line the cursor is on
+  indentation: string;
+}
+
+const PREFIX_WINDOW_CHARS = 4000;
+const SUFFIX_WINDOW_CHARS = 1500;
+const MAX_COMPLETION_LINES = 16;
+
+const FIM_STOP_SEQUENCES: Record<FimFormat, string[]> = {
+  codellama: ['<EOT>', '<PRE>', '<SUF>', '<MID>'],
+  deepseek: ['<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<｜end▁of▁sentence｜>'],
+  qwen: ['<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|endoftext|>', '<|file_sep|>'],
+  starcoder: ['<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<|endoftext|>']
+};
+
+// Only code models trained with FIM understand these tokens; chat models fall back to a prompt
+export function getFimFormat(config: ModelConfig): FimFormat | null {
+  const name = `${config.parameters?.model || config.id}`.toLowerCase();
+
+  // The 7B and 13B base and instruct models were trained to infill (an untagged name is the 7B);
+  // the python variants and the 34B and 70B sizes were not and use the prompt
+  if (/codellama|code-llama/.test(name)) return /python|\b(34|70)b\b/.test(name) ? null : 'codellama';
+  if (/deepseek-coder/.test(name)) return 'deepseek';
+  if (/qwen[\d.]*-coder/.test(name)) return 'qwen';
+  if (/starcoder/.test(name)) return 'starcoder';
+  return null;
+}
+
+export function buildFimPrompt(format: FimFormat, prefix: string, suffix: string): string {
+  switch (format) {
+    case 'codellama':
+      return `<PRE> ${prefix} <SUF>${suffix} <MID>`;
+    case 'deepseek':
+      return `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`;
+    case 'qwen':
+      return `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`;
+    case 'starcoder':
+      return `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`;
+  }
+}
+
+export function getFimStopSequences(format: FimFormat): string[] {
+  return FIM_STOP_SEQUENCES[format];
+}
+
+// Editor positions are 1-based (line 1, column 1 is the start of the file)
+export function getCursorOffset(code: string, position: { line: number; column: number }): number {
+  const lines = code.split('\n');
+  const lineIndex = Math.min(Math.max(position.line - 1, 0), lines.length - 1);
+
+  let offset = 0;
+  for (let i = 0; i < lineIndex; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + Math.min(Math.max(position.column - 1, 0), lines[lineIndex].length);
+}
+
+// Text before and after the cursor, cut at line boundaries to fit the windows
+export function extractFimWindows(request: InlineCompletionRequest): FimWindows {
+  const { code } = request;
+  const offset = getCursorOffset(code, request.position);
+
+  let prefixStart = Math.max(0, offset - PREFIX_WINDOW_CHARS);
+  if (prefixStart > 0) {
+    const nextLine = code.indexOf('\n', prefixStart);
+    prefixStart = nextLine === -1 || nextLine >= offset ? prefixStart : nextLine + 1;
+  }
+
+  let suffixEnd = Math.min(code.length, offset + SUFFIX_WINDOW_CHARS);
+  if (suffixEnd < code.length) {
+    const lastLine = code.lastIndexOf('\n', suffixEnd);
+    suffixEnd = lastLine > offset ? lastLine : suffixEnd;
+  }
+
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  const indentation = code.slice(lineStart).match(/^[ \t]*/)[0];
+
+  return {
+    prefix: code.slice(prefixStart, offset),
+    suffix: code.slice(offset, suffixEnd),
+    indentation
+  };
+}
+
+// Keeps the rest of the cursor line plus following lines while they stay inside the
+// current block: the completion ends at the first line indented less than the cursor
+// line, or when it starts repeating the code that already follows the cursor.
+export function trimFimCompletion(completion: string, windows: FimWindows): string {
+  const lines = completion.replace(/\r\n/g, '\n').split('\n');
+  const nextSuffixLine = windows.suffix.split('\n').map(line => line.trim()).find(line => line.length > 0);
+  const kept: string[] = [lines[0]];
+
+  for (const line of lines.slice(1, MAX_COMPLETION_LINES)) {
+    if (line.trim() === '') {
+      kept.push(line);
+      continue;
+    }
+
+    const indentation = line.match(/^[ \t]*/)[0];
+    if (indentation.length < windows.indentation.length) break;
+    if (nextSuffixLine && line.trim() === nextSuffixLine) break;
+
+    kept.push(line);
+  }
+
+  // The suffix already contains the cursor line's remainder
+  const firstSuffixLine = windows.suffix.split('\n')[0];
+  if (firstSuffixLine.trim() && kept[0].endsWith(firstSuffixLine)) {
+    kept[0] = kept[0].slice(0, kept[0].length - firstSuffixLine.length);
+  }
+
+  return kept.join('\n').replace(/\s+$/, '');
+}
+
+// Prompt-based (non-FIM) models wrap code in fences or introduce it with a sentence
+export function cleanPromptCompletion(completion: string): string {
+  return completion
+    .replace(/^\s*(Here's|Here is|This is|The code)[^\n]*:\s*\n/i, '')
+    .replace(/^\s*```[\w-]*\n?/, '')
+    .replace(/\n?```[\s\S]*$/, '')
+    .replace(/^\n+/, '');
+}
@@ -0,0 +1,114 @@
+// The JSON Schema subset structured output relies on: type, enum, const, properties, required,
+// additionalProperties: false, items and the usual length/size bounds. Other keywords are ignored.
+export type JsonSchema = Record<string, any>;
+
+const CODE_FENCE_PATTERN = /^```(?:json)?\s*\n?([\s\S]*?)\n?```$/;
+
+// Models in prompt mode like to wrap JSON in fences or a sentence; keep the outermost value
+export function parseJsonOutput(text: string): any {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(CODE_FENCE_PATTERN);
+  const body = fenced ? fenced[1].trim() : trimmed;
+
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    const start = body.search(/[{[]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(body.substring(start, end + 1));
+  }
+}
+
+// Returns one message per violation, each prefixed with the JSON path, e.g. "$.findings[0].line: expected integer"
+export function validateJsonSchema(value: any, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return [`${path}: expected ${JSON.stringify(schema.const)}`];
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    return [`${path}: expected one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push(`${path}.${name}: required property is missing`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (properties[name]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[name], `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: unexpected property`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
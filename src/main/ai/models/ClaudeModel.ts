@@ -1,12 +1,19 @@
-import { AIModel, CompletionRequest, ChatRequest, InlineCompletionRequest } from '../../../shared/types/ai';
+import { AIModel, CompletionRequest, ChatRequest, InlineCompletionRequest, StructuredChatRequest, ToolChatRequest, ToolChatResponse } from '../../../shared/types/ai';
 import axios from 'axios';
+import { readSseStream } from '../streaming';
+import { completionVariables, inlineCompletionVariables, renderPrompt } from '../prompts/PromptTemplateRegistry';
+import { cleanPromptCompletion, extractFimWindows, trimFimCompletion } from '../fim';
+import { AIError, toAIError } from '../errors';
+import { parseAnthropicUsage, reportUsage } from '../usage';
+import { parseAnthropicToolResponse, toAnthropicToolMessages, toAnthropicTools } from '../tools/toolFormats';
+import { buildAnthropicChat } from '../chatMessages';
 
 export class ClaudeModel extends AIModel {
   private isInitialized = false;
 
   async initialize(): Promise<void> {
-    // Check if API key is available
-    if (!process.env.ANTHROPIC_API_KEY && !this.config.apiKey) {
+    // The key is injected by the manager's CredentialProvider
+    if (!this.config.apiKey) {
       console.warn('Claude API key not found. Claude model will be unavailable.');
       return;
     }
@@ -17,87 +24,251 @@ export class ClaudeModel extends AIModel {
 
   async complete(request: CompletionRequest): Promise<string> {
     if (!this.isInitialized) {
-      throw new Error('Claude model not initialized');
+      throw new AIError('auth', 'Claude API key is not configured', { provider: this.config.provider, modelId: this.config.id });
     }
 
     try {
       const response = await axios.post(
         this.config.endpoint,
         {
-          model: 'claude-3-5-sonnet-20241022',
+          model: this.getModelName(),
           max_tokens: request.maxTokens,
           temperature: request.temperature,
           messages: [
             {
               role: 'user',
-              content: `Complete this code:\n${request.prompt}`
+              content: renderPrompt(this.config, 'completion', completionVariables(request), request.onPromptTemplate)
             }
           ]
         },
         {
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey || process.env.ANTHROPIC_API_KEY}`,
-            'Content-Type': 'application/json',
-            'anthropic-version': '2023-06-01'
-          }
+          signal: request.signal,
+          headers: this.getHeaders()
         }
       );
 
+      reportUsage(request.onUsage, parseAnthropicUsage(response.data.usage));
       return response.data.content[0].text || '';
     } catch (error) {
-      console.error('Claude completion failed:', error);
-      throw new Error('Failed to get completion from Claude');
+      const aiError = await toAIError(error, this.config);
+      console.error('Claude completion failed:', aiError.message);
+      throw aiError;
     }
   }
 
   async chat(request: ChatRequest): Promise<string> {
     if (!this.isInitialized) {
-      throw new Error('Claude model not initialized');
+      throw new AIError('auth', 'Claude API key is not configured', { provider: this.config.provider, modelId: this.config.id });
     }
 
     try {
-      const messages = [
-        ...request.history.map(msg => ({
-          role: msg.role === 'user' ? 'user' : 'assistant',
-          content: msg.content
-        })),
-        { role: 'user', content: request.message }
-      ];
+      const { system, messages } = buildAnthropicChat(this.config, request);
 
       const response = await axios.post(
         this.config.endpoint,
         {
-          model: 'claude-3-5-sonnet-20241022',
+          model: this.getModelName(),
           max_tokens: request.maxTokens,
           temperature: request.temperature,
+          system,
           messages
         },
         {
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey || process.env.ANTHROPIC_API_KEY}`,
-            'Content-Type': 'application/json',
-            'anthropic-version': '2023-06-01'
-          }
+          signal: request.signal,
+          headers: this.getHeaders()
         }
       );
 
+      reportUsage(request.onUsage, parseAnthropicUsage(response.data.usage));
       return response.data.content[0].text || '';
     } catch (error) {
-      console.error('Claude chat failed:', error);
-      throw new Error('Failed to get chat response from Claude');
+      const aiError = await toAIError(error, this.config);
+      console.error('Claude chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Claude API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const { system, messages } = buildAnthropicChat(this.config, request);
+
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: this.getModelName(),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          system,
+          messages,
+          stream: true
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders(),
+          responseType: 'stream'
+        }
+      );
+
+      let fullResponse = '';
+      let inputTokens = 0;
+      let outputTokens: number | undefined;
+      await readSseStream(response.data, event => {
+        // Input tokens arrive with message_start, the output count with message_delta
+        if (event.event === 'message_start') {
+          inputTokens = JSON.parse(event.data).message?.usage?.input_tokens || 0;
+          return;
+        }
+        if (event.event === 'message_delta') {
+          outputTokens = JSON.parse(event.data).usage?.output_tokens;
+          return;
+        }
+        if (event.event !== 'content_block_delta') return;
+
+        const data = JSON.parse(event.data);
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          fullResponse += data.delta.text;
+          onToken(data.delta.text);
+        }
+      });
+
+      if (outputTokens !== undefined) {
+        request.onUsage?.({ inputTokens, outputTokens });
+      }
+      return fullResponse;
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Claude streaming chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatWithTools(request: ToolChatRequest): Promise<ToolChatResponse> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Claude API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const chat = buildAnthropicChat(this.config, request);
+      const messages = [...chat.messages, ...toAnthropicToolMessages(request.toolRounds)];
+
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: this.getModelName(),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          system: chat.system,
+          tools: toAnthropicTools(request.tools),
+          messages
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders()
+        }
+      );
+
+      reportUsage(request.onUsage, parseAnthropicUsage(response.data.usage));
+      return parseAnthropicToolResponse(response.data.content);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Claude tool chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  // Anthropic has no JSON mode; forcing a single tool whose input schema is the
+  // requested schema makes the tool input the structured answer
+  async chatStructured(request: StructuredChatRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Claude API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    // Tool inputs must be objects, so other schemas are wrapped in a `value` property
+    const wrapped = request.schema.type !== 'object';
+    const inputSchema = wrapped
+      ? { type: 'object', properties: { value: request.schema }, required: ['value'] }
+      : request.schema;
+
+    try {
+      const { system, messages } = buildAnthropicChat(this.config, request);
+
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: this.getModelName(),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          system,
+          tools: [{ name: request.schemaName, description: 'Report the answer in the required structure', input_schema: inputSchema }],
+          tool_choice: { type: 'tool', name: request.schemaName },
+          messages
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders()
+        }
+      );
+
+      reportUsage(request.onUsage, parseAnthropicUsage(response.data.usage));
+      const toolUse = (response.data.content || []).find((block: any) => block.type === 'tool_use');
+      if (!toolUse) {
+        return (response.data.content || []).map((block: any) => block.text || '').join('');
+      }
+      return JSON.stringify(wrapped ? toolUse.input?.value : toolUse.input);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Claude structured chat failed:', aiError.message);
+      throw aiError;
     }
   }
 
   async inlineComplete(request: InlineCompletionRequest): Promise<string> {
     // Use completion method for inline completions
     const completionRequest: CompletionRequest = {
-      prompt: `Complete this ${request.language} code:\n${request.code}`,
+      prompt: renderPrompt(this.config, 'inline-completion', inlineCompletionVariables(request), request.onPromptTemplate),
       context: { language: request.language, position: request.position },
       maxTokens: request.maxTokens,
-      temperature: request.temperature
+      temperature: request.temperature,
+      signal: request.signal,
+      onPromptTemplate: request.onPromptTemplate,
+      onUsage: request.onUsage
     };
 
-    return await this.complete(completionRequest);
+    const completion = await this.complete(completionRequest);
+    return trimFimCompletion(cleanPromptCompletion(completion), extractFimWindows(request));
+  }
+
+  private getModelName(): string {
+    return this.config.parameters?.model || 'claude-3-5-sonnet-20241022';
+  }
+
+  // Anthropic authenticates with x-api-key; a Bearer header is rejected
+  private getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.config.apiKey || '',
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    };
+  }
+
+  // initialize() only checks for a key, so the recovery probe lists models to really reach Anthropic
+  async healthCheck(): Promise<void> {
+    if (!this.config.apiKey) {
+      throw new AIError('auth', 'Anthropic API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      await axios.get(this.config.endpoint.replace(/\/messages$/, '/models'), {
+        headers: this.getHeaders(),
+        timeout: 10000
+      });
+    } catch (error) {
+      throw await toAIError(error, this.config);
+    }
   }
 
   isAvailable(): boolean {
@@ -1,11 +1,17 @@
 import { AIModel, CompletionRequest, ChatRequest, InlineCompletionRequest } from '../../../shared/types/ai';
 import axios from 'axios';
+import { readSseStream } from '../streaming';
+import { completionVariables, renderPrompt } from '../prompts/PromptTemplateRegistry';
+import { extractFimWindows, trimFimCompletion } from '../fim';
+import { AIError, toAIError } from '../errors';
+import { parseOpenAIUsage, reportUsage } from '../usage';
+import { buildChatMessages } from '../chatMessages';
 
 export class CodestralModel extends AIModel {
   private isInitialized = false;
 
   async initialize(): Promise<void> {
-    if (!process.env.MISTRAL_API_KEY && !this.config.apiKey) {
+    if (!this.config.apiKey) {
       console.warn('Mistral API key not found. Codestral model will be unavailable.');
       return;
     }
@@ -16,7 +22,7 @@ export class CodestralModel extends AIModel {
 
   async complete(request: CompletionRequest): Promise<string> {
     if (!this.isInitialized) {
-      throw new Error('Codestral model not initialized');
+      throw new AIError('auth', 'Codestral API key is not configured', { provider: this.config.provider, modelId: this.config.id });
     }
 
     try {
@@ -27,45 +33,170 @@ export class CodestralModel extends AIModel {
           messages: [
             {
               role: 'user',
-              content: `Complete this code:\n${request.prompt}`
+              content: renderPrompt(this.config, 'completion', completionVariables(request), request.onPromptTemplate)
             }
           ],
           max_tokens: request.maxTokens,
           temperature: request.temperature
         },
         {
+          signal: request.signal,
           headers: {
-            'Authorization': `Bearer ${this.config.apiKey || process.env.MISTRAL_API_KEY}`,
+            'Authorization': `Bearer ${this.config.apiKey}`,
             'Content-Type': 'application/json'
           }
         }
       );
 
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
       return response.data.choices[0].message.content || '';
     } catch (error) {
-      console.error('Codestral completion failed:', error);
-      throw new Error('Failed to get completion from Codestral');
+      const aiError = await toAIError(error, this.config);
+      console.error('Codestral completion failed:', aiError.message);
+      throw aiError;
     }
   }
 
   async chat(request: ChatRequest): Promise<string> {
-    return await this.complete({
-      prompt: request.message,
-      context: request.context,
-      maxTokens: request.maxTokens,
-      temperature: request.temperature
-    });
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Codestral API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: 'codestral-latest',
+          messages: buildChatMessages(this.config, request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return response.data.choices[0].message.content || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Codestral chat failed:', aiError.message);
+      throw aiError;
+    }
   }
 
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Codestral API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: 'codestral-latest',
+          messages: buildChatMessages(this.config, request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          responseType: 'stream'
+        }
+      );
+
+      let fullResponse = '';
+      await readSseStream(response.data, event => {
+        if (event.data === '[DONE]') return;
+
+        const data = JSON.parse(event.data);
+        reportUsage(request.onUsage, parseOpenAIUsage(data.usage));
+        const token = data.choices?.[0]?.delta?.content;
+        if (token) {
+          fullResponse += token;
+          onToken(token);
+        }
+      });
+
+      return fullResponse;
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Codestral streaming chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  // Codestral has a native fill-in-the-middle endpoint next to chat completions
   async inlineComplete(request: InlineCompletionRequest): Promise<string> {
-    const completionRequest: CompletionRequest = {
-      prompt: `Complete this ${request.language} code:\n${request.code}`,
-      context: { language: request.language, position: request.position },
-      maxTokens: request.maxTokens,
-      temperature: request.temperature
-    };
-
-    return await this.complete(completionRequest);
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'Codestral API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const windows = extractFimWindows(request);
+      const response = await axios.post(
+        this.getFimEndpoint(),
+        {
+          model: 'codestral-latest',
+          prompt: windows.prefix,
+          suffix: windows.suffix,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 15000
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return trimFimCompletion(response.data.choices?.[0]?.message?.content || '', windows);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('Codestral inline completion failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  private getFimEndpoint(): string {
+    return this.config.endpoint.includes('/chat/completions')
+      ? this.config.endpoint.replace('/chat/completions', '/fim/completions')
+      : 'https://api.mistral.ai/v1/fim/completions';
+  }
+
+  private getModelsEndpoint(): string {
+    return this.config.endpoint.includes('/chat/completions')
+      ? this.config.endpoint.replace('/chat/completions', '/models')
+      : 'https://api.mistral.ai/v1/models';
+  }
+
+  // initialize() only checks for a key, so the recovery probe lists models to really reach Mistral
+  async healthCheck(): Promise<void> {
+    if (!this.config.apiKey) {
+      throw new AIError('auth', 'Mistral API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      await axios.get(this.getModelsEndpoint(), {
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+        timeout: 10000
+      });
+    } catch (error) {
+      throw await toAIError(error, this.config);
+    }
   }
 
   isAvailable(): boolean {
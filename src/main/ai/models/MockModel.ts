@@ -0,0 +1,112 @@
+import { AIModel, ChatRequest, CompletionRequest, InlineCompletionRequest, ModelConfig } from '../../../shared/types/ai';
+import { Cassette, CassetteOperation } from '../testing/Cassette';
+import { AIError } from '../errors';
+
+// Answers requests whose text matches pattern (a regular expression)
+export interface MockRule {
+  pattern: string;
+  operation?: CassetteOperation;
+  response: string;
+}
+
+export const MOCK_CASSETTE_ENV = 'AI_IDE_MOCK_CASSETTE';
+
+export function buildMockConfig(): ModelConfig {
+  return {
+    id: 'mock',
+    name: 'Mock (Offline Replay)',
+    provider: 'mock',
+    type: 'chat',
+    maxTokens: 2048,
+    contextWindow: 32768,
+    specialties: ['chat', 'code-completion', 'inline-completion'],
+    languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+    latency: 'low',
+    isLocal: true,
+    endpoint: 'mock://local',
+    parameters: {
+      cassettePath: process.env[MOCK_CASSETTE_ENV],
+      rules: []
+    }
+  };
+}
+
+// Deterministic provider for offline use and tests: replays a recorded cassette,
+// then falls back to scripted rules, then to an echo of the request
+export class MockModel extends AIModel {
+  private isInitialized = false;
+  private cassette: Cassette | null = null;
+
+  async initialize(): Promise<void> {
+    const cassettePath = this.config.parameters?.cassettePath;
+
+    if (cassettePath) {
+      this.cassette = new Cassette(cassettePath);
+      const count = await this.cassette.load();
+      console.log(`📼 Mock model loaded ${count} cassette entries from ${cassettePath}`);
+    }
+
+    this.isInitialized = true;
+    console.log('✅ Mock model initialized');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return this.respond('completion', Cassette.describe('completion', request)).response;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    return this.respond('chat', Cassette.describe('chat', request)).response;
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    const { response, chunks } = this.respond('chat', Cassette.describe('chat', request));
+
+    for (const chunk of chunks || response.match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) {
+        throw new AIError('cancelled', 'Mock stream cancelled', { provider: 'mock', modelId: this.config.id });
+      }
+      onToken(chunk);
+    }
+
+    return response;
+  }
+
+  async inlineComplete(request: InlineCompletionRequest): Promise<string> {
+    return this.respond('inline-completion', Cassette.describe('inline-completion', request)).response;
+  }
+
+  private respond(operation: CassetteOperation, input: string): { response: string; chunks?: string[] } {
+    if (!this.isInitialized) {
+      throw new Error('Mock model not initialized');
+    }
+
+    const recorded = this.cassette?.find(operation, input);
+    if (recorded) {
+      return { response: recorded.response, chunks: recorded.chunks };
+    }
+
+    const rules: MockRule[] = this.config.parameters?.rules || [];
+    const rule = rules.find(candidate =>
+      (!candidate.operation || candidate.operation === operation) && new RegExp(candidate.pattern, 'i').test(input)
+    );
+    if (rule) {
+      return { response: rule.response };
+    }
+
+    if (operation === 'inline-completion') {
+      return { response: '' };
+    }
+
+    const lastLine = input.split('\n').pop() || '';
+    return { response: `[mock] No recorded response for: ${lastLine.replace(/^user: /, '').substring(0, 200)}` };
+  }
+
+  isAvailable(): boolean {
+    return this.isInitialized;
+  }
+
+  async cleanup(): Promise<void> {
+    this.isInitialized = false;
+    console.log('Mock model cleaned up');
+  }
+}
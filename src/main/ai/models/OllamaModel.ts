@@ -0,0 +1,323 @@
+import { AIModel, CompletionRequest, ChatRequest, EmbeddingRequest, EmbeddingResponse, InlineCompletionRequest, StructuredChatRequest, ToolChatRequest, ToolChatResponse } from '../../../shared/types/ai';
+import axios from 'axios';
+import { readNdjsonStream } from '../streaming';
+import { DEFAULT_KEEP_ALIVE, OllamaClient } from '../OllamaClient';
+import { completionVariables, inlineCompletionVariables, renderPrompt } from '../prompts/PromptTemplateRegistry';
+import { buildFimPrompt, cleanPromptCompletion, extractFimWindows, getFimFormat, getFimStopSequences, trimFimCompletion } from '../fim';
+import { AIError, toAIError } from '../errors';
+import { parseOllamaUsage, reportUsage } from '../usage';
+import { parseOllamaToolResponse, toOllamaToolMessages, toOpenAITools } from '../tools/toolFormats';
+import { chatWithPromptTools } from '../tools/promptTools';
+import { buildChatMessages } from '../chatMessages';
+
+const NO_TOOL_SUPPORT_PATTERN = /does not support tools/i;
+
+// Generic provider for any model installed in a local Ollama instance.
+// The Ollama tag to run comes from config.parameters.model.
+export class OllamaModel extends AIModel {
+  private isInitialized = false;
+  private client = new OllamaClient(this.config.endpoint);
+  // Cleared once Ollama reports that the model's template has no tool support
+  private nativeTools = true;
+
+  async initialize(): Promise<void> {
+    const modelName = this.getModelName();
+
+    try {
+      if (!(await this.client.hasModel(modelName))) {
+        throw new AIError('model-not-pulled', `Model ${modelName} is not pulled`, {
+          provider: this.config.provider,
+          modelId: this.config.id,
+          modelName
+        });
+      }
+
+      this.isInitialized = true;
+      console.log(`✅ Ollama model initialized: ${modelName}`);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Failed to initialize Ollama model ${modelName}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const prompt = renderPrompt(this.config, 'completion', completionVariables(request), request.onPromptTemplate);
+      
+      const response = await axios.post(this.getGenerateUrl(), {
+        model: this.getModelName(),
+        prompt,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature,
+          stop: request.stopSequences || []
+        },
+        stream: false,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        timeout: 30000 // 30 second timeout
+      });
+
+      reportUsage(request.onUsage, parseOllamaUsage(response.data));
+      return response.data.response || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama completion failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const response = await axios.post(this.getChatUrl(), {
+        model: this.getModelName(),
+        messages: buildChatMessages(this.config, request),
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature
+        },
+        stream: false,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        timeout: 60000 // 60 second timeout for chat
+      });
+
+      reportUsage(request.onUsage, parseOllamaUsage(response.data));
+      return response.data.message?.content || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama chat failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const response = await axios.post(this.getChatUrl(), {
+        model: this.getModelName(),
+        messages: buildChatMessages(this.config, request),
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature
+        },
+        stream: true,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        responseType: 'stream',
+        timeout: 60000 // Applies until the first byte arrives
+      });
+
+      let fullResponse = '';
+      await readNdjsonStream(response.data, chunk => {
+        const token = chunk.message?.content;
+        if (token) {
+          fullResponse += token;
+          onToken(token);
+        }
+        if (chunk.done) {
+          reportUsage(request.onUsage, parseOllamaUsage(chunk));
+        }
+      });
+
+      return fullResponse;
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama streaming chat failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  // Ollama constrains decoding to the schema passed as `format`
+  async chatStructured(request: StructuredChatRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const response = await axios.post(this.getChatUrl(), {
+        model: this.getModelName(),
+        messages: buildChatMessages(this.config, request),
+        format: request.schema,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature
+        },
+        stream: false,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        timeout: 60000
+      });
+
+      reportUsage(request.onUsage, parseOllamaUsage(response.data));
+      return response.data.message?.content || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama structured chat failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  // Uses /api/chat tools where the model's template supports them, the prompt-based fallback otherwise
+  async chatWithTools(request: ToolChatRequest): Promise<ToolChatResponse> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+    if (!this.nativeTools) {
+      return chatWithPromptTools(this, request);
+    }
+
+    try {
+      const messages = [
+        ...buildChatMessages(this.config, request),
+        ...toOllamaToolMessages(request.toolRounds)
+      ];
+
+      const response = await axios.post(this.getChatUrl(), {
+        model: this.getModelName(),
+        messages,
+        tools: toOpenAITools(request.tools),
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature
+        },
+        stream: false,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        timeout: 60000 // 60 second timeout for chat
+      });
+
+      reportUsage(request.onUsage, parseOllamaUsage(response.data));
+      return parseOllamaToolResponse(response.data.message);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      if (aiError.details.status === 400 && NO_TOOL_SUPPORT_PATTERN.test(aiError.message)) {
+        console.log(`🔧 ${this.getModelName()} has no native tool support, using prompt-based tools`);
+        this.nativeTools = false;
+        return chatWithPromptTools(this, request);
+      }
+      console.error(`Ollama tool chat failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async inlineComplete(request: InlineCompletionRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const windows = extractFimWindows(request);
+      const fimFormat = getFimFormat(this.config);
+
+      // FIM-trained code models get the raw prefix/suffix in their native format,
+      // bypassing the chat template; other models are asked through a prompt
+      const body = fimFormat
+        ? {
+            prompt: buildFimPrompt(fimFormat, windows.prefix, windows.suffix),
+            raw: true,
+            stop: getFimStopSequences(fimFormat)
+          }
+        : {
+            prompt: renderPrompt(this.config, 'inline-completion', inlineCompletionVariables(request), request.onPromptTemplate),
+            raw: false,
+            stop: ['```', '</code>']
+          };
+
+      const response = await axios.post(this.getGenerateUrl(), {
+        model: this.getModelName(),
+        prompt: body.prompt,
+        raw: body.raw,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature,
+          stop: body.stop
+        },
+        stream: false,
+        keep_alive: this.getKeepAlive()
+      }, {
+        signal: request.signal,
+        timeout: 15000 // 15 second timeout for inline completions
+      });
+
+      reportUsage(request.onUsage, parseOllamaUsage(response.data));
+      const completion = response.data.response || '';
+      return trimFimCompletion(fimFormat ? completion : cleanPromptCompletion(completion), windows);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama inline completion failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  // /api/embeddings takes one prompt per request, so a batch is sent text by text
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    if (!this.isInitialized) {
+      throw new Error('Ollama model not initialized');
+    }
+
+    try {
+      const embeddings: number[][] = [];
+      for (const text of request.texts) {
+        const response = await axios.post(`${this.client.getBaseUrl()}/api/embeddings`, {
+          model: this.getModelName(),
+          prompt: text,
+          keep_alive: this.getKeepAlive()
+        }, {
+          signal: request.signal,
+          timeout: 30000
+        });
+        embeddings.push(response.data.embedding);
+      }
+
+      return { embeddings, model: this.config.id, dimensions: embeddings[0]?.length || 0 };
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Ollama embedding failed for ${this.getModelName()}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  private getModelName(): string {
+    return this.config.parameters?.model || this.config.id;
+  }
+
+  // Every request resets Ollama's unload timer, so it carries the keep-alive used for warm-up
+  private getKeepAlive(): string | number {
+    return this.config.parameters?.keepAlive ?? DEFAULT_KEEP_ALIVE;
+  }
+
+  private getGenerateUrl(): string {
+    return `${this.client.getBaseUrl()}/api/generate`;
+  }
+
+  private getChatUrl(): string {
+    return `${this.client.getBaseUrl()}/api/chat`;
+  }
+
+  isAvailable(): boolean {
+    return this.isInitialized;
+  }
+
+  async cleanup(): Promise<void> {
+    this.isInitialized = false;
+    console.log(`Ollama model ${this.getModelName()} cleaned up`);
+  }
+}
\ No newline at end of file
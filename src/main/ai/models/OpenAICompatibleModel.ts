@@ -0,0 +1,190 @@
+import { AIModel, CompletionRequest, ChatRequest, InlineCompletionRequest, ModelConfig, OpenAICompatibleOptions } from '../../../shared/types/ai';
+import axios from 'axios';
+import { readSseStream } from '../streaming';
+import { completionVariables, inlineCompletionVariables, renderPrompt } from '../prompts/PromptTemplateRegistry';
+import { cleanPromptCompletion, extractFimWindows, trimFimCompletion } from '../fim';
+import { toAIError } from '../errors';
+import { parseOpenAIUsage, reportUsage } from '../usage';
+import { buildChatMessages } from '../chatMessages';
+
+export function buildOpenAICompatibleConfig(options: OpenAICompatibleOptions): ModelConfig {
+  const slug = `${options.name}-${options.model}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const endpoint = options.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: options.id || `custom/${slug}`,
+    name: options.name,
+    provider: 'openai-compatible',
+    type: 'chat',
+    maxTokens: 2048,
+    contextWindow: options.contextWindow || 8192,
+    specialties: ['code-completion', 'code-generation', 'chat', 'general-coding'],
+    languages: ['apex', 'javascript', 'python', 'java', 'soql'],
+    latency: 'medium',
+    isLocal: /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:|\/|$)/.test(endpoint),
+    endpoint,
+    apiKey: options.apiKey,
+    parameters: {
+      model: options.model,
+      headers: options.headers || {}
+    }
+  };
+}
+
+// Any server exposing the OpenAI REST API; config.endpoint is the base URL (e.g. http://127.0.0.1:8080/v1)
+export class OpenAICompatibleModel extends AIModel {
+  private isInitialized = false;
+
+  async initialize(): Promise<void> {
+    try {
+      await axios.get(`${this.config.endpoint}/models`, {
+        headers: this.getHeaders(),
+        timeout: 5000
+      });
+
+      this.isInitialized = true;
+      console.log(`✅ OpenAI-compatible model initialized: ${this.config.name}`);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`Failed to initialize ${this.config.name}:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error(`${this.config.name} model not initialized`);
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.config.endpoint}/completions`,
+        {
+          model: this.config.parameters?.model,
+          prompt: renderPrompt(this.config, 'completion', completionVariables(request), request.onPromptTemplate),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stop: request.stopSequences
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders(),
+          timeout: 30000
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return response.data.choices?.[0]?.text || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`${this.config.name} completion failed:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error(`${this.config.name} model not initialized`);
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.config.endpoint}/chat/completions`,
+        {
+          model: this.config.parameters?.model,
+          messages: buildChatMessages(this.config, request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders(),
+          timeout: 60000
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return response.data.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`${this.config.name} chat failed:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    if (!this.isInitialized) {
+      throw new Error(`${this.config.name} model not initialized`);
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.config.endpoint}/chat/completions`,
+        {
+          model: this.config.parameters?.model,
+          messages: buildChatMessages(this.config, request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true
+        },
+        {
+          signal: request.signal,
+          headers: this.getHeaders(),
+          responseType: 'stream'
+        }
+      );
+
+      let fullResponse = '';
+      await readSseStream(response.data, event => {
+        if (event.data === '[DONE]') return;
+
+        const data = JSON.parse(event.data);
+        reportUsage(request.onUsage, parseOpenAIUsage(data.usage));
+        const token = data.choices?.[0]?.delta?.content;
+        if (token) {
+          fullResponse += token;
+          onToken(token);
+        }
+      });
+
+      return fullResponse;
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error(`${this.config.name} streaming chat failed:`, aiError.message);
+      throw aiError;
+    }
+  }
+
+  async inlineComplete(request: InlineCompletionRequest): Promise<string> {
+    const completionRequest: CompletionRequest = {
+      prompt: renderPrompt(this.config, 'inline-completion', inlineCompletionVariables(request), request.onPromptTemplate),
+      context: { language: request.language, position: request.position },
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      stopSequences: ['```'],
+      signal: request.signal,
+      onPromptTemplate: request.onPromptTemplate,
+      onUsage: request.onUsage
+    };
+
+    const completion = await this.complete(completionRequest);
+    return trimFimCompletion(cleanPromptCompletion(completion), extractFimWindows(request));
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+      ...(this.config.parameters?.headers || {})
+    };
+  }
+
+  isAvailable(): boolean {
+    return this.isInitialized;
+  }
+
+  async cleanup(): Promise<void> {
+    this.isInitialized = false;
+    console.log(`${this.config.name} model cleaned up`);
+  }
+}
@@ -1,11 +1,23 @@
-import { AIModel, CompletionRequest, ChatRequest, InlineCompletionRequest } from '../../../shared/types/ai';
+import { AIModel, CompletionRequest, ChatRequest, EmbeddingRequest, EmbeddingResponse, InlineCompletionRequest, StructuredChatRequest, ToolChatRequest, ToolChatResponse } from '../../../shared/types/ai';
 import axios from 'axios';
+import { readSseStream } from '../streaming';
+import { completionVariables, inlineCompletionVariables, renderPrompt } from '../prompts/PromptTemplateRegistry';
+import { cleanPromptCompletion, extractFimWindows, trimFimCompletion } from '../fim';
+import { AIError, toAIError } from '../errors';
+import { parseOpenAIUsage, reportUsage } from '../usage';
+import { parseOpenAIToolResponse, toOpenAIToolMessages, toOpenAITools } from '../tools/toolFormats';
+import { buildChatMessages } from '../chatMessages';
+
+// OpenAI-compatible servers without json_schema support reject the response_format
+const NO_JSON_SCHEMA_PATTERN = /response_format|json_schema/i;
 
 export class OpenAIModel extends AIModel {
   private isInitialized = false;
+  // Cleared after the endpoint rejects json_schema; JSON mode is used from then on
+  private jsonSchemaFormat = true;
 
   async initialize(): Promise<void> {
-    if (!process.env.OPENAI_API_KEY && !this.config.apiKey) {
+    if (!this.config.apiKey) {
       console.warn('OpenAI API key not found. OpenAI models will be unavailable.');
       return;
     }
@@ -16,22 +28,22 @@ export class OpenAIModel extends AIModel {
 
   async complete(request: CompletionRequest): Promise<string> {
     if (!this.isInitialized) {
-      throw new Error('OpenAI model not initialized');
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
     }
 
     try {
       const response = await axios.post(
         this.config.endpoint,
         {
-          model: 'gpt-4-turbo-preview',
+          model: this.getModelName(),
           messages: [
             {
               role: 'system',
-              content: 'You are an expert software developer. Complete the following code accurately and concisely.'
+              content: renderPrompt(this.config, 'completion-system', {}, request.onPromptTemplate)
             },
             {
               role: 'user',
-              content: `Complete this code:\n${request.prompt}`
+              content: renderPrompt(this.config, 'completion', completionVariables(request), request.onPromptTemplate)
             }
           ],
           max_tokens: request.maxTokens,
@@ -39,70 +51,254 @@ export class OpenAIModel extends AIModel {
           stop: request.stopSequences
         },
         {
+          signal: request.signal,
           headers: {
-            'Authorization': `Bearer ${this.config.apiKey || process.env.OPENAI_API_KEY}`,
+            'Authorization': `Bearer ${this.config.apiKey}`,
             'Content-Type': 'application/json'
           }
         }
       );
 
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
       return response.data.choices[0].message.content || '';
     } catch (error) {
-      console.error('OpenAI completion failed:', error);
-      throw new Error('Failed to get completion from OpenAI');
+      const aiError = await toAIError(error, this.config);
+      console.error('OpenAI completion failed:', aiError.message);
+      throw aiError;
     }
   }
 
   async chat(request: ChatRequest): Promise<string> {
     if (!this.isInitialized) {
-      throw new Error('OpenAI model not initialized');
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const messages = buildChatMessages(this.config, request);
+
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: this.getModelName(),
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return response.data.choices[0].message.content || '';
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('OpenAI chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
     }
 
     try {
-      const messages = [
+      const messages = buildChatMessages(this.config, request);
+
+      const response = await axios.post(
+        this.config.endpoint,
         {
-          role: 'system',
-          content: request.systemPrompt || 'You are an expert software developer specializing in Salesforce development, JavaScript, Python, and Java. Provide helpful and accurate responses.'
+          model: this.getModelName(),
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+          // Adds a final chunk carrying the usage block
+          stream_options: { include_usage: true }
         },
-        ...request.history.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        { role: 'user', content: request.message }
-      ];
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          responseType: 'stream'
+        }
+      );
+
+      let fullResponse = '';
+      await readSseStream(response.data, event => {
+        if (event.data === '[DONE]') return;
+
+        const data = JSON.parse(event.data);
+        reportUsage(request.onUsage, parseOpenAIUsage(data.usage));
+        const token = data.choices?.[0]?.delta?.content;
+        if (token) {
+          fullResponse += token;
+          onToken(token);
+        }
+      });
+
+      return fullResponse;
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('OpenAI streaming chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatWithTools(request: ToolChatRequest): Promise<ToolChatResponse> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const messages = [...buildChatMessages(this.config, request), ...toOpenAIToolMessages(request.toolRounds)];
 
       const response = await axios.post(
         this.config.endpoint,
         {
-          model: 'gpt-4-turbo-preview',
+          model: this.getModelName(),
           messages,
+          tools: toOpenAITools(request.tools),
           max_tokens: request.maxTokens,
           temperature: request.temperature
         },
         {
+          signal: request.signal,
           headers: {
-            'Authorization': `Bearer ${this.config.apiKey || process.env.OPENAI_API_KEY}`,
+            'Authorization': `Bearer ${this.config.apiKey}`,
             'Content-Type': 'application/json'
           }
         }
       );
 
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      return parseOpenAIToolResponse(response.data.choices[0].message);
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('OpenAI tool chat failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  async chatStructured(request: StructuredChatRequest): Promise<string> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    const messages = buildChatMessages(this.config, request);
+
+    const responseFormat = this.jsonSchemaFormat
+      ? { type: 'json_schema', json_schema: { name: request.schemaName, schema: request.schema, strict: false } }
+      : { type: 'json_object' };
+
+    try {
+      const response = await axios.post(
+        this.config.endpoint,
+        {
+          model: this.getModelName(),
+          messages,
+          response_format: responseFormat,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
       return response.data.choices[0].message.content || '';
     } catch (error) {
-      console.error('OpenAI chat failed:', error);
-      throw new Error('Failed to get chat response from OpenAI');
+      const aiError = await toAIError(error, this.config);
+      if (this.jsonSchemaFormat && aiError.details.status === 400 && NO_JSON_SCHEMA_PATTERN.test(aiError.message)) {
+        console.log(`🔧 ${this.getModelName()} does not accept json_schema, using JSON mode`);
+        this.jsonSchemaFormat = false;
+        return this.chatStructured(request);
+      }
+      console.error('OpenAI structured chat failed:', aiError.message);
+      throw aiError;
     }
   }
 
   async inlineComplete(request: InlineCompletionRequest): Promise<string> {
     const completionRequest: CompletionRequest = {
-      prompt: `Complete this ${request.language} code:\n${request.code}`,
+      prompt: renderPrompt(this.config, 'inline-completion', inlineCompletionVariables(request), request.onPromptTemplate),
       context: { language: request.language, position: request.position },
       maxTokens: request.maxTokens,
-      temperature: request.temperature
+      temperature: request.temperature,
+      signal: request.signal,
+      onPromptTemplate: request.onPromptTemplate,
+      onUsage: request.onUsage
     };
 
-    return await this.complete(completionRequest);
+    const completion = await this.complete(completionRequest);
+    return trimFimCompletion(cleanPromptCompletion(completion), extractFimWindows(request));
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    if (!this.isInitialized) {
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      const response = await axios.post(
+        // Embedding configs point at /v1/embeddings; chat configs share the same API root
+        this.config.endpoint.replace(/\/chat\/completions$/, '/embeddings'),
+        {
+          model: this.getModelName(),
+          input: request.texts
+        },
+        {
+          signal: request.signal,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+
+      reportUsage(request.onUsage, parseOpenAIUsage(response.data.usage));
+      // Entries carry their input index; the API does not promise to keep the order
+      const embeddings = [...response.data.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((entry: any) => entry.embedding as number[]);
+      return { embeddings, model: this.config.id, dimensions: embeddings[0]?.length || 0 };
+    } catch (error) {
+      const aiError = await toAIError(error, this.config);
+      console.error('OpenAI embedding failed:', aiError.message);
+      throw aiError;
+    }
+  }
+
+  private getModelName(): string {
+    return this.config.parameters?.model || 'gpt-4-turbo-preview';
+  }
+
+  // initialize() only checks for a key, so the recovery probe lists models to really reach OpenAI
+  async healthCheck(): Promise<void> {
+    if (!this.config.apiKey) {
+      throw new AIError('auth', 'OpenAI API key is not configured', { provider: this.config.provider, modelId: this.config.id });
+    }
+
+    try {
+      await axios.get(this.config.endpoint.replace(/\/(chat\/completions|embeddings)$/, '/models'), {
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+        timeout: 10000
+      });
+    } catch (error) {
+      throw await toAIError(error, this.config);
+    }
   }
 
   isAvailable(): boolean {
@@ -0,0 +1,272 @@
+import { AIModel, ChatRequest, CompletionRequest, ModelConfig } from '../../../../shared/types/ai';
+import { ProviderStubServer } from '../../testing/ProviderStubServer';
+import { ClaudeModel } from '../ClaudeModel';
+import { CodestralModel } from '../CodestralModel';
+import { OllamaModel } from '../OllamaModel';
+import { OpenAICompatibleModel, buildOpenAICompatibleConfig } from '../OpenAICompatibleModel';
+import { OpenAIModel } from '../OpenAIModel';
+
+const STUB_MODELS = ['codellama:7b-instruct', 'gpt-4o-mini', 'codestral-latest'];
+
+const baseConfig = (overrides: Partial<ModelConfig>): ModelConfig => ({
+  id: 'test-model',
+  name: 'Test Model',
+  provider: 'ollama',
+  type: 'chat',
+  maxTokens: 1024,
+  contextWindow: 8192,
+  specialties: ['chat'],
+  languages: ['javascript'],
+  latency: 'low',
+  isLocal: false,
+  endpoint: '',
+  ...overrides
+});
+
+const chatRequest = (message: string, overrides: Partial<ChatRequest> = {}): ChatRequest => ({
+  message,
+  context: {},
+  history: [],
+  maxTokens: 128,
+  temperature: 0.2,
+  ...overrides
+});
+
+const completionRequest = (prompt: string): CompletionRequest => ({
+  prompt,
+  context: {},
+  maxTokens: 64,
+  temperature: 0.2
+});
+
+interface ProviderCase {
+  name: string;
+  create: (baseUrl: string) => AIModel;
+  chatPath: string;
+  completionPath: string;
+  // Where healthCheck probes: local models re-run initialize, cloud models list their models
+  healthPath: string;
+  authHeaders?: Record<string, string>;
+}
+
+const cases: ProviderCase[] = [
+  {
+    name: 'OllamaModel',
+    create: baseUrl => new OllamaModel(baseConfig({
+      provider: 'ollama',
+      isLocal: true,
+      endpoint: `${baseUrl}/api/generate`,
+      parameters: { model: 'codellama:7b-instruct', family: 'llama' }
+    })),
+    chatPath: '/api/chat',
+    completionPath: '/api/generate',
+    healthPath: '/api/tags'
+  },
+  {
+    name: 'ClaudeModel',
+    create: baseUrl => new ClaudeModel(baseConfig({
+      provider: 'anthropic',
+      endpoint: `${baseUrl}/v1/messages`,
+      apiKey: 'sk-ant-test',
+      parameters: { model: 'claude-3-5-sonnet-20241022' }
+    })),
+    chatPath: '/v1/messages',
+    completionPath: '/v1/messages',
+    healthPath: '/v1/models',
+    authHeaders: { 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' }
+  },
+  {
+    name: 'OpenAIModel',
+    create: baseUrl => new OpenAIModel(baseConfig({
+      provider: 'openai',
+      endpoint: `${baseUrl}/v1/chat/completions`,
+      apiKey: 'sk-openai-test',
+      parameters: { model: 'gpt-4o-mini' }
+    })),
+    chatPath: '/v1/chat/completions',
+    completionPath: '/v1/chat/completions',
+    healthPath: '/v1/models',
+    authHeaders: { authorization: 'Bearer sk-openai-test' }
+  },
+  {
+    name: 'CodestralModel',
+    create: baseUrl => new CodestralModel(baseConfig({
+      provider: 'mistral',
+      endpoint: `${baseUrl}/v1/chat/completions`,
+      apiKey: 'mistral-test',
+      parameters: { model: 'codestral-latest' }
+    })),
+    chatPath: '/v1/chat/completions',
+    completionPath: '/v1/chat/completions',
+    healthPath: '/v1/models',
+    authHeaders: { authorization: 'Bearer mistral-test' }
+  },
+  {
+    name: 'OpenAICompatibleModel',
+    create: baseUrl => new OpenAICompatibleModel(buildOpenAICompatibleConfig({
+      name: 'llama.cpp',
+      baseUrl: `${baseUrl}/v1`,
+      model: 'codellama:7b-instruct'
+    })),
+    chatPath: '/v1/chat/completions',
+    completionPath: '/v1/completions',
+    healthPath: '/v1/models'
+  }
+];
+
+describe.each(cases)('$name against the provider stub', ({ create, chatPath, completionPath, healthPath, authHeaders }) => {
+  const stub = new ProviderStubServer({ models: STUB_MODELS, chunkSize: 4 });
+  let model: AIModel;
+
+  beforeAll(async () => {
+    model = create(await stub.start());
+  });
+
+  afterAll(async () => {
+    await model.cleanup();
+    await stub.stop();
+  });
+
+  beforeEach(async () => {
+    stub.setResponder(request => `stub response to: ${request.text}`);
+    await model.initialize();
+    stub.requests.length = 0;
+  });
+
+  it('initializes and reports itself available', () => {
+    expect(model.isAvailable()).toBe(true);
+  });
+
+  it('chats', async () => {
+    stub.setResponder(() => 'Use a Map.');
+
+    const response = await model.chat(chatRequest('How do I dedupe ids?'));
+
+    expect(response).toBe('Use a Map.');
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({ method: 'POST', path: chatPath });
+    expect(stub.requests[0].text).toContain('How do I dedupe ids?');
+  });
+
+  it('sends history before the new message', async () => {
+    await model.chat(chatRequest('And now?', {
+      history: [
+        { role: 'user', content: 'First question', timestamp: 1 },
+        { role: 'assistant', content: 'First answer', timestamp: 2 }
+      ]
+    }));
+
+    const body = JSON.stringify(stub.requests[0].body);
+    expect(body.indexOf('First question')).toBeLessThan(body.indexOf('First answer'));
+    expect(body.indexOf('First answer')).toBeLessThan(body.indexOf('And now?'));
+  });
+
+  it('streams tokens in order', async () => {
+    stub.setResponder(() => 'streamed answer with several chunks');
+    const tokens: string[] = [];
+
+    const response = await model.chatStream(chatRequest('Stream please'), token => tokens.push(token));
+
+    expect(response).toBe('streamed answer with several chunks');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(response);
+    expect(stub.requests[0].body.stream).toBe(true);
+  });
+
+  it('completes', async () => {
+    stub.setResponder(() => 'return a + b;');
+
+    expect(await model.complete(completionRequest('function add(a, b) {'))).toBe('return a + b;');
+    expect(stub.requests[0].path).toBe(completionPath);
+    // Every provider sends the prompt through the completion template
+    expect(stub.requests[0].text).toContain('Code completion request:\nfunction add(a, b) {');
+  });
+
+  it('maps provider errors to AIError codes', async () => {
+    stub.failNext({ status: 401, body: { error: { message: 'invalid key' } } });
+    await expect(model.chat(chatRequest('hi'))).rejects.toMatchObject({ code: 'auth', details: { status: 401 } });
+
+    stub.failNext({ status: 429, headers: { 'Retry-After': '2' } });
+    await expect(model.chat(chatRequest('hi'))).rejects.toMatchObject({ code: 'rate-limit', details: { retryAfterMs: 2000 } });
+  });
+
+  it('maps a failed stream to an AIError', async () => {
+    stub.failNext({ status: 503, body: { error: { message: 'overloaded' } } });
+
+    await expect(model.chatStream(chatRequest('hi'), () => undefined)).rejects.toMatchObject({
+      code: 'endpoint-unreachable',
+      message: expect.stringContaining('overloaded')
+    });
+  });
+
+  it('health-checks with a real request to the provider', async () => {
+    await model.healthCheck();
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({ method: 'GET', path: healthPath });
+    expect(stub.requests[0].headers).toMatchObject(authHeaders || {});
+  });
+
+  it('fails the health check when the provider does', async () => {
+    stub.failNext({ status: 401 });
+
+    await expect(model.healthCheck()).rejects.toMatchObject({ code: 'auth' });
+  });
+});
+
+describe('provider model setup', () => {
+  const stub = new ProviderStubServer({ models: ['codellama:7b-instruct'] });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await stub.start();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  it('refuses to initialize an Ollama model that is not pulled', async () => {
+    const model = new OllamaModel(baseConfig({
+      id: 'deepseek',
+      endpoint: `${baseUrl}/api/generate`,
+      parameters: { model: 'deepseek-coder:6.7b' }
+    }));
+
+    await expect(model.initialize()).rejects.toMatchObject({ code: 'model-not-pulled', details: { modelName: 'deepseek-coder:6.7b' } });
+    expect(model.isAvailable()).toBe(false);
+  });
+
+  it('keeps cloud models unavailable without a key', async () => {
+    stub.requests.length = 0;
+    const model = new ClaudeModel(baseConfig({ provider: 'anthropic', endpoint: `${baseUrl}/v1/messages` }));
+    await model.initialize();
+
+    expect(model.isAvailable()).toBe(false);
+    await expect(model.chat(chatRequest('hi'))).rejects.toMatchObject({ code: 'auth' });
+    await expect(model.healthCheck()).rejects.toMatchObject({ code: 'auth' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('fills in the middle through the Codestral FIM endpoint', async () => {
+    stub.setResponder(() => 'a + b');
+    const model = new CodestralModel(baseConfig({
+      provider: 'mistral',
+      endpoint: `${baseUrl}/v1/chat/completions`,
+      apiKey: 'mistral-test',
+      parameters: { model: 'codestral-latest' }
+    }));
+    await model.initialize();
+
+    const completion = await model.inlineComplete({
+      code: 'function add(a, b) {\n  return \n}',
+      position: { line: 1, column: 9, language: 'javascript' },
+      language: 'javascript',
+      maxTokens: 32,
+      temperature: 0
+    });
+
+    expect(completion).toBe('a + b');
+    expect(stub.requests[stub.requests.length - 1]).toMatchObject({ protocol: 'mistral', path: '/v1/fim/completions' });
+  });
+});
@@ -0,0 +1,43 @@
+import { ModelConfig, TokenUsage } from '../../shared/types/ai';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched against the provider's model name, first match wins, so specific names come first
+const PRICE_TABLE: Array<{ pattern: RegExp; price: ModelPrice }> = [
+  { pattern: /claude-3-5-haiku/, price: { input: 0.8, output: 4 } },
+  { pattern: /claude-3-haiku/, price: { input: 0.25, output: 1.25 } },
+  { pattern: /claude-3(-5|-7)?-sonnet|claude-sonnet-4/, price: { input: 3, output: 15 } },
+  { pattern: /claude-3-opus|claude-opus-4/, price: { input: 15, output: 75 } },
+  { pattern: /text-embedding-3-small/, price: { input: 0.02, output: 0 } },
+  { pattern: /text-embedding-3-large/, price: { input: 0.13, output: 0 } },
+  { pattern: /text-embedding-ada-002/, price: { input: 0.1, output: 0 } },
+  { pattern: /gpt-4o-mini/, price: { input: 0.15, output: 0.6 } },
+  { pattern: /gpt-4o/, price: { input: 2.5, output: 10 } },
+  { pattern: /gpt-4-turbo|gpt-4-\d{4}-preview/, price: { input: 10, output: 30 } },
+  { pattern: /gpt-4/, price: { input: 30, output: 60 } },
+  { pattern: /gpt-3\.5-turbo/, price: { input: 0.5, output: 1.5 } },
+  { pattern: /codestral/, price: { input: 0.3, output: 0.9 } },
+  { pattern: /mistral-large/, price: { input: 2, output: 6 } },
+  { pattern: /mistral-small|mistral-tiny|open-mistral/, price: { input: 0.2, output: 0.6 } }
+];
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+// Local models cost nothing; a `pricing` parameter on the config overrides the table
+export function getModelPrice(config: ModelConfig): ModelPrice | null {
+  if (config.parameters?.pricing) return config.parameters.pricing;
+  if (config.isLocal) return FREE;
+
+  const modelName = config.parameters?.model || config.id;
+  return PRICE_TABLE.find(entry => entry.pattern.test(modelName))?.price || null;
+}
+
+export function calculateCost(config: ModelConfig, usage: TokenUsage): number {
+  const price = getModelPrice(config);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
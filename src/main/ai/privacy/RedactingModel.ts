@@ -0,0 +1,149 @@
+import { AIModel, AITransaction, ChatRequest, CompletionRequest, InlineCompletionRequest, ToolCall, ToolChatRequest } from '../../../shared/types/ai';
+import { getCursorOffset } from '../fim';
+import { RedactionKind, Redactor } from './Redactor';
+
+export type RedactionCounts = Partial<Record<RedactionKind, number>>;
+
+export interface RedactionHooks {
+  // Checked on every request, so a workspace policy change applies right away
+  isEnabled: () => boolean;
+  onRedacted: (counts: RedactionCounts, operation: AITransaction['operation']) => void;
+}
+
+// Wraps a cloud provider: secrets and personal data in everything sent are swapped for
+// placeholders, and the placeholders in the answer are swapped back
+export class RedactingModel extends AIModel {
+  constructor(private inner: AIModel, private redactor: Redactor, private hooks: RedactionHooks) {
+    super(inner.getConfig());
+    if (inner.chatWithTools) {
+      this.chatWithTools = async request => {
+        const redacted = this.redactToolRequest(request);
+        const response = await inner.chatWithTools!(redacted);
+        return {
+          content: this.redactor.restore(response.content),
+          toolCalls: response.toolCalls.map(call => this.restoreToolCall(call))
+        };
+      };
+    }
+    if (inner.chatStructured) {
+      this.chatStructured = async request => this.redactor.restore(await inner.chatStructured!(this.redactChat(request)));
+    }
+    // Vectors of placeholder text still find the code they came from
+    if (inner.embed) {
+      this.embed = request => {
+        const counts: RedactionCounts = {};
+        const texts = request.texts.map(text => this.redactText(text, counts));
+        this.report(counts, 'embedding');
+        return inner.embed!({ ...request, texts });
+      };
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const counts: RedactionCounts = {};
+    const prompt = this.redactText(request.prompt, counts);
+    this.report(counts, 'completion');
+    return this.redactor.restore(await this.inner.complete({ ...request, prompt }));
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    return this.redactor.restore(await this.inner.chat(this.redactChat(request)));
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    const restorer = this.redactor.createStreamRestorer(onToken);
+    const response = await this.inner.chatStream(this.redactChat(request), restorer.push);
+    restorer.flush();
+    return this.redactor.restore(response);
+  }
+
+  // Text before and after the cursor is redacted separately, so the cursor stays in place
+  async inlineComplete(request: InlineCompletionRequest): Promise<string> {
+    const counts: RedactionCounts = {};
+    const offset = getCursorOffset(request.code, request.position);
+    const before = this.redactText(request.code.slice(0, offset), counts);
+    const after = this.redactText(request.code.slice(offset), counts);
+    this.report(counts, 'inline-completion');
+
+    const lines = before.split('\n');
+    const position = { ...request.position, line: lines.length, column: lines[lines.length - 1].length + 1 };
+    return this.redactor.restore(await this.inner.inlineComplete({ ...request, code: before + after, position }));
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.inner.healthCheck();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async cleanup(): Promise<void> {
+    await this.inner.cleanup();
+  }
+
+  private redactChat<T extends ChatRequest>(request: T): T {
+    const counts: RedactionCounts = {};
+    const redacted = {
+      ...request,
+      message: this.redactText(request.message, counts),
+      systemPrompt: request.systemPrompt && this.redactText(request.systemPrompt, counts),
+      history: request.history.map(msg => ({ ...msg, content: this.redactText(msg.content, counts) }))
+    };
+    this.report(counts, 'chat');
+    return redacted;
+  }
+
+  // Tool results carry file contents and command output, so they are redacted like the message;
+  // arguments restored from an earlier round are redacted again before they are replayed
+  private redactToolRequest(request: ToolChatRequest): ToolChatRequest {
+    const counts: RedactionCounts = {};
+    const toolRounds = request.toolRounds.map(round => ({
+      content: this.redactText(round.content, counts),
+      calls: round.calls.map(call => ({ ...call, arguments: mapStrings(call.arguments, text => this.redactText(text, counts)) })),
+      results: round.results.map(result => ({ ...result, content: this.redactText(result.content, counts) }))
+    }));
+    this.report(counts, 'chat');
+    return { ...this.redactChat(request), toolRounds };
+  }
+
+  // Tool arguments may name a placeholder, e.g. a search for a redacted org id
+  private restoreToolCall(call: ToolCall): ToolCall {
+    return { ...call, arguments: mapStrings(call.arguments, text => this.redactor.restore(text)) };
+  }
+
+  private redactText(text: string, counts: RedactionCounts): string {
+    if (!this.hooks.isEnabled()) {
+      return text;
+    }
+
+    const result = this.redactor.redact(text);
+    for (const [kind, count] of Object.entries(result.counts) as Array<[RedactionKind, number]>) {
+      counts[kind] = (counts[kind] || 0) + count;
+    }
+    return result.text;
+  }
+
+  private report(counts: RedactionCounts, operation: AITransaction['operation']): void {
+    if (Object.keys(counts).length > 0) {
+      this.hooks.onRedacted(counts, operation);
+    }
+  }
+}
+
+function mapStrings(value: any, map: (text: string) => string): any {
+  if (typeof value === 'string') {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+}
@@ -0,0 +1,124 @@
+export type RedactionKind = 'PRIVATE_KEY' | 'CONNECTION_STRING' | 'API_KEY' | 'TOKEN' | 'PASSWORD' | 'EMAIL' | 'SALESFORCE_ID';
+
+interface RedactionPattern {
+  kind: RedactionKind;
+  pattern: RegExp;
+  // Matches failing this check are left alone
+  accept?: (value: string) => boolean;
+}
+
+// Ordered from most to least specific, so a password inside a connection string is
+// replaced together with the string. Patterns with a `value` group only replace that group.
+const REDACTION_PATTERNS: RedactionPattern[] = [
+  { kind: 'PRIVATE_KEY', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { kind: 'CONNECTION_STRING', pattern: /\b(?:mongodb(?:\+srv)?|postgres(?:ql)?|mysql|mariadb|rediss?|amqps?|mssql|sqlserver):\/\/[^\s'"`<>]+/gi },
+  { kind: 'CONNECTION_STRING', pattern: /\b(?:Server|Data Source|Host)=[^;'"\n]+;[^'"\n]*?\b(?:Password|Pwd)=[^;'"\n]+;?/gi },
+  { kind: 'TOKEN', pattern: /\b00D[A-Za-z0-9]{12}![A-Za-z0-9._]{40,}/g },
+  { kind: 'API_KEY', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'API_KEY', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'API_KEY', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'API_KEY', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: 'API_KEY', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'API_KEY', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'TOKEN', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'TOKEN', pattern: /\bBearer\s+(?<value>[A-Za-z0-9._~+\/-]{16,}=*)/g },
+  // Quoted values of anything named like a credential: password: "x", apiKey = 'x'
+  { kind: 'PASSWORD', pattern: /\b[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key)[\w-]*['"]?\s*[:=]\s*(?<quote>['"])(?<value>[^'"\n]{4,})\k<quote>/gi },
+  // Unquoted .env / properties style: DB_PASSWORD=hunter2
+  { kind: 'PASSWORD', pattern: /^\s*(?:export\s+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY)[A-Z0-9_]*\s*=\s*(?<value>[^\s'"#]{4,})/gm },
+  { kind: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // 15/18 character ids with a standard key prefix (00D org, 001 account, 005 user, ...) or a custom object prefix
+  {
+    kind: 'SALESFORCE_ID',
+    pattern: /\b(?:00D|001|003|005|006|00Q|00G|00E|012|500|701|800|801|a[0-9][0-9A-Za-z])[0-9A-Za-z]{12}(?:[0-9A-Za-z]{3})?\b/g,
+    accept: value => (value.slice(3).match(/\d/g) || []).length >= 3
+  }
+];
+
+const PLACEHOLDER_PATTERN = /<REDACTED_([A-Z_]+?)_(\d+)>/g;
+const PLACEHOLDER_START = '<REDACTED_';
+
+// Replaces secrets and personal data with placeholders like <REDACTED_EMAIL_1> and puts
+// the originals back into answers. A value keeps its placeholder for the lifetime of the
+// redactor, so history, fallbacks and follow-up turns all refer to it the same way.
+export class Redactor {
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters = new Map<RedactionKind, number>();
+
+  // Returns the redacted text and how many values of each kind were replaced
+  redact(text: string): { text: string; counts: Partial<Record<RedactionKind, number>> } {
+    const counts: Partial<Record<RedactionKind, number>> = {};
+    if (!text) {
+      return { text, counts };
+    }
+
+    let redacted = text;
+    for (const { kind, pattern, accept } of REDACTION_PATTERNS) {
+      redacted = redacted.replace(pattern, (...args) => {
+        const match: string = args[0];
+        const groups = args[args.length - 1];
+        const value: string = typeof groups === 'object' && groups?.value !== undefined ? groups.value : match;
+        if (value.startsWith(PLACEHOLDER_START) || (accept && !accept(value))) {
+          return match;
+        }
+
+        counts[kind] = (counts[kind] || 0) + 1;
+        // The value group sits at the end of its match, after any key name that may contain the same text
+        const offset = match.lastIndexOf(value);
+        return match.slice(0, offset) + this.getPlaceholder(kind, value) + match.slice(offset + value.length);
+      });
+    }
+
+    return { text: redacted, counts };
+  }
+
+  restore(text: string): string {
+    if (!text) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  // Restores streamed tokens. A placeholder can be split across tokens, so text that
+  // may be the start of one is held back until it is complete or clearly is not one.
+  createStreamRestorer(onToken: (token: string) => void): { push: (token: string) => void; flush: () => void } {
+    let pending = '';
+
+    return {
+      push: token => {
+        pending += token;
+        const start = pending.lastIndexOf('<');
+        const tail = start === -1 ? '' : pending.slice(start);
+        const mayBePlaceholder = tail !== '' && !tail.includes('>') &&
+          (PLACEHOLDER_START.startsWith(tail) || /^<REDACTED_[A-Z_0-9]*$/.test(tail));
+
+        const ready = mayBePlaceholder ? pending.slice(0, start) : pending;
+        pending = mayBePlaceholder ? tail : '';
+        if (ready) {
+          onToken(this.restore(ready));
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onToken(this.restore(pending));
+          pending = '';
+        }
+      }
+    };
+  }
+
+  private getPlaceholder(kind: RedactionKind, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+
+    const index = (this.counters.get(kind) || 0) + 1;
+    this.counters.set(kind, index);
+    const placeholder = `<REDACTED_${kind}_${index}>`;
+    this.placeholders.set(value, placeholder);
+    this.originals.set(placeholder, value);
+    return placeholder;
+  }
+}
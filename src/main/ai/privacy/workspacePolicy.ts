@@ -0,0 +1,37 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { WorkspacePolicy } from '../../../shared/types/ai';
+
+export const WORKSPACE_POLICY_FILE = path.join('.ai-ide', 'policy.json');
+
+export const DEFAULT_WORKSPACE_POLICY: WorkspacePolicy = {
+  localModelsOnly: false,
+  redactSecrets: true
+};
+
+// <root>/.ai-ide/policy.json, e.g. { "localModelsOnly": true }. Missing keys keep their defaults;
+// an unreadable file is refused rather than ignored, so a typo cannot open the workspace to the cloud.
+export async function loadWorkspacePolicy(workspaceRoot: string): Promise<WorkspacePolicy> {
+  const file = path.join(workspaceRoot, WORKSPACE_POLICY_FILE);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    // No policy in this workspace
+    return { ...DEFAULT_WORKSPACE_POLICY };
+  }
+
+  try {
+    const data = JSON.parse(raw);
+    const policy: WorkspacePolicy = {
+      localModelsOnly: typeof data.localModelsOnly === 'boolean' ? data.localModelsOnly : DEFAULT_WORKSPACE_POLICY.localModelsOnly,
+      redactSecrets: typeof data.redactSecrets === 'boolean' ? data.redactSecrets : DEFAULT_WORKSPACE_POLICY.redactSecrets
+    };
+    console.log(`🔒 Workspace policy from ${file}: ${policy.localModelsOnly ? 'local models only' : 'cloud models allowed'}, redaction ${policy.redactSecrets ? 'on' : 'off'}`);
+    return policy;
+  } catch (error) {
+    console.warn(`⚠️ Invalid workspace policy ${file}, allowing local models only:`, error.message);
+    return { localModelsOnly: true, redactSecrets: true };
+  }
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CompletionRequest, InlineCompletionRequest, ModelConfig } from '../../../shared/types/ai';
+import { getTokenizerFamily } from '../tokenizers';
+import { extractFimWindows } from '../fim';
+import { DEFAULT_TEMPLATES } from './defaultTemplates';
+
+export type PromptTask = 'chat-system' | 'completion-system' | 'completion' | 'inline-completion' | 'structured-output-system';
+
+export interface PromptVariable {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  required?: boolean;
+  description?: string;
+}
+
+// Text uses {{name}} for values and {{#name}}...{{/name}} for sections rendered only when name is truthy.
+// family is a model family (llama, qwen, claude, ...) or '*' for any.
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  task: PromptTask;
+  family: string;
+  variables: PromptVariable[];
+  template: string;
+  source?: 'default' | 'workspace';
+}
+
+export interface RenderedPrompt {
+  text: string;
+  // id@version, recorded on debug transactions
+  templateRef: string;
+}
+
+export const WORKSPACE_PROMPTS_DIR = path.join('.ai-ide', 'prompts');
+
+const PROMPT_TASKS: PromptTask[] = ['chat-system', 'completion-system', 'completion', 'inline-completion', 'structured-output-system'];
+
+export class PromptTemplateRegistry {
+  private defaults: PromptTemplate[] = DEFAULT_TEMPLATES.map(template => ({ ...template, source: 'default' as const }));
+  private overrides: PromptTemplate[] = [];
+
+  getTemplates(): PromptTemplate[] {
+    return [...this.overrides, ...this.defaults];
+  }
+
+  // Workspace overrides beat shipped defaults; an exact family match beats '*'
+  resolve(task: PromptTask, family: string): PromptTemplate {
+    const match = (templates: PromptTemplate[], wanted: string) =>
+      templates.find(template => template.task === task && template.family === wanted);
+
+    const template = match(this.overrides, family) || match(this.overrides, '*') ||
+      match(this.defaults, family) || match(this.defaults, '*');
+
+    if (!template) {
+      throw new Error(`No prompt template for task ${task}`);
+    }
+    return template;
+  }
+
+  render(task: PromptTask, family: string, variables: Record<string, string | number | boolean | undefined>): RenderedPrompt {
+    const template = this.resolve(task, family);
+    this.validateVariables(template, variables);
+
+    const withSections = template.template.replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, body) =>
+      variables[name] ? body : ''
+    );
+    const text = withSections.replace(/\{\{(\w+)\}\}/g, (_, name) =>
+      variables[name] === undefined ? '' : String(variables[name])
+    );
+
+    return { text, templateRef: `${template.id}@${template.version}` };
+  }
+
+  // Replaces any previously loaded overrides with the *.json files in <root>/.ai-ide/prompts
+  async loadWorkspaceOverrides(workspaceRoot: string): Promise<number> {
+    const dir = path.join(workspaceRoot, WORKSPACE_PROMPTS_DIR);
+    this.overrides = [];
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      // No overrides in this workspace
+      return 0;
+    }
+
+    for (const file of files) {
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+        for (const entry of Array.isArray(data) ? data : [data]) {
+          this.overrides.push(this.parseOverride(entry, file));
+        }
+      } catch (error) {
+        console.warn(`⚠️ Ignoring prompt template ${file}:`, error.message);
+      }
+    }
+
+    console.log(`✅ Loaded ${this.overrides.length} workspace prompt templates from ${dir}`);
+    return this.overrides.length;
+  }
+
+  clearWorkspaceOverrides(): void {
+    this.overrides = [];
+  }
+
+  private parseOverride(entry: any, file: string): PromptTemplate {
+    if (!PROMPT_TASKS.includes(entry?.task)) {
+      throw new Error(`unknown task "${entry?.task}"`);
+    }
+    if (typeof entry.template !== 'string') {
+      throw new Error('template must be a string');
+    }
+
+    // Overrides may omit variables to reuse the ones of the shipped template
+    const variables: PromptVariable[] = entry.variables || this.resolveDefault(entry.task).variables;
+    const declared = new Set(variables.map(variable => variable.name));
+    const undeclared = (entry.template.match(/\{\{[#/]?\w+\}\}/g) || [])
+      .map((tag: string) => tag.replace(/[{}#/]/g, ''))
+      .filter((name: string) => !declared.has(name));
+    if (undeclared.length > 0) {
+      throw new Error(`undeclared variables: ${Array.from(new Set(undeclared)).join(', ')}`);
+    }
+
+    return {
+      id: entry.id || `workspace/${path.basename(file, '.json')}`,
+      version: Number(entry.version) || 1,
+      task: entry.task,
+      family: entry.family || '*',
+      variables,
+      template: entry.template,
+      source: 'workspace'
+    };
+  }
+
+  private resolveDefault(task: PromptTask): PromptTemplate {
+    return this.defaults.find(template => template.task === task && template.family === '*');
+  }
+
+  private validateVariables(template: PromptTemplate, variables: Record<string, unknown>): void {
+    for (const variable of template.variables) {
+      const value = variables[variable.name];
+
+      if (value === undefined) {
+        if (variable.required) {
+          throw new Error(`Prompt template ${template.id} requires variable "${variable.name}"`);
+        }
+        continue;
+      }
+
+      if (typeof value !== variable.type) {
+        throw new Error(`Prompt template ${template.id}: "${variable.name}" must be a ${variable.type}`);
+      }
+    }
+  }
+}
+
+export const promptTemplates = new PromptTemplateRegistry();
+
+// Renders the template for this model's family and reports which template was used
+export function renderPrompt(
+  config: ModelConfig,
+  task: PromptTask,
+  variables: Record<string, string | number | boolean | undefined>,
+  onPromptTemplate?: (templateRef: string) => void
+): string {
+  const rendered = promptTemplates.render(task, getTokenizerFamily(config), variables);
+  onPromptTemplate?.(rendered.templateRef);
+  return rendered.text;
+}
+
+export function completionVariables(request: CompletionRequest): Record<string, string | boolean | undefined> {
+  const context = request.context || {};
+  return {
+    prompt: request.prompt,
+    language: context.language,
+    filePath: context.filePath,
+    salesforce: context.language === 'apex' || context.language === 'lwc'
+  };
+}
+
+export function inlineCompletionVariables(request: InlineCompletionRequest): Record<string, string | undefined> {
+  const { prefix, suffix } = extractFimWindows(request);
+  const prefixLines = prefix.split('\n');
+  const suffixLines = suffix.split('\n');
+
+  return {
+    language: request.language,
+    contextBefore: prefixLines.length > 1 ? prefixLines.slice(0, -1).join('\n') : undefined,
+    linePrefix: prefixLines[prefixLines.length - 1],
+    lineSuffix: suffixLines[0] || undefined,
+    contextAfter: suffixLines.length > 1 ? suffixLines.slice(1).join('\n') : undefined
+  };
+}
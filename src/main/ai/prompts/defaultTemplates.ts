@@ -0,0 +1,68 @@
+import { PromptTemplate } from './PromptTemplateRegistry';
+
+// Shipped templates. Bump the version whenever the text changes so debug
+// transactions from before and after the change can be told apart.
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'chat-system',
+    version: 1,
+    task: 'chat-system',
+    family: '*',
+    variables: [],
+    template: 'You are an expert software developer specializing in Salesforce development (Apex, LWC, SOQL), JavaScript, Python, and Java. Provide helpful, accurate, and concise responses.'
+  },
+  {
+    id: 'structured-output-system',
+    version: 1,
+    task: 'structured-output-system',
+    family: '*',
+    variables: [
+      { name: 'schema', type: 'string', required: true, description: 'JSON Schema the answer must match' }
+    ],
+    template: 'You are an expert software developer. Answer with only a JSON value that matches this JSON Schema, ' +
+      'without prose or code fences:\n{{schema}}'
+  },
+  {
+    id: 'completion-system',
+    version: 1,
+    task: 'completion-system',
+    family: '*',
+    variables: [],
+    template: 'You are an expert software developer. Complete the following code accurately and concisely.'
+  },
+  {
+    id: 'completion',
+    version: 1,
+    task: 'completion',
+    family: '*',
+    variables: [
+      { name: 'prompt', type: 'string', required: true },
+      { name: 'language', type: 'string' },
+      { name: 'filePath', type: 'string' },
+      { name: 'salesforce', type: 'boolean', description: 'Apex or LWC code' }
+    ],
+    template: '{{#language}}Language: {{language}}\n{{/language}}' +
+      '{{#filePath}}File: {{filePath}}\n{{/filePath}}' +
+      '{{#salesforce}}Context: Salesforce development\n{{/salesforce}}' +
+      '\nCode completion request:\n{{prompt}}'
+  },
+  {
+    id: 'inline-completion',
+    version: 2,
+    task: 'inline-completion',
+    family: '*',
+    variables: [
+      { name: 'language', type: 'string', required: true },
+      { name: 'contextBefore', type: 'string', description: 'Lines above the cursor' },
+      { name: 'linePrefix', type: 'string', required: true, description: 'Current line up to the cursor' },
+      { name: 'lineSuffix', type: 'string', description: 'Current line after the cursor' },
+      { name: 'contextAfter', type: 'string', description: 'Lines below the cursor' }
+    ],
+    template: 'Complete the following {{language}} code:\n\n' +
+      '{{#contextBefore}}{{contextBefore}}\n{{/contextBefore}}' +
+      '{{linePrefix}}<CURSOR>{{lineSuffix}}' +
+      '{{#contextAfter}}\n{{contextAfter}}{{/contextAfter}}' +
+      '\n\nReply with only the code to insert at <CURSOR>, without repeating the surrounding code. ' +
+      'It may span several lines but must stay within the current block.'
+  }
+];
@@ -0,0 +1,70 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+// Split a byte stream into lines, keeping partial lines buffered between chunks
+async function readLines(stream: Readable, onLine: (line: string) => void): Promise<void> {
+  // Multi-byte characters can be split across chunks; the decoder holds the partial bytes back
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.substring(newlineIndex + 1);
+      onLine(line);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  buffer += decoder.end();
+  if (buffer.length > 0) {
+    onLine(buffer.replace(/\r$/, ''));
+  }
+}
+
+// Ollama streams one JSON object per line
+export async function readNdjsonStream(stream: Readable, onObject: (data: any) => void): Promise<void> {
+  await readLines(stream, line => {
+    if (!line.trim()) return;
+
+    try {
+      onObject(JSON.parse(line));
+    } catch (error) {
+      console.warn('Skipping malformed stream line:', line.substring(0, 100));
+    }
+  });
+}
+
+// Anthropic, OpenAI and Mistral stream Server-Sent Events
+export async function readSseStream(stream: Readable, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join('\n') });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  await readLines(stream, line => {
+    if (line === '') {
+      dispatch();
+    } else if (line.startsWith('event:')) {
+      eventName = line.substring(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.substring(5).replace(/^ /, ''));
+    }
+  });
+
+  dispatch();
+}
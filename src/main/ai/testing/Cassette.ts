@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChatRequest, CompletionRequest, InlineCompletionRequest } from '../../../shared/types/ai';
+
+export type CassetteOperation = 'completion' | 'chat' | 'inline-completion';
+
+export interface CassetteEntry {
+  key: string;
+  operation: CassetteOperation;
+  model: string;
+  // Human-readable request text the key was derived from
+  input: string;
+  response: string;
+  // Stream chunks as the provider sent them, replayed by chatStream
+  chunks?: string[];
+  recordedAt: number;
+}
+
+export interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export const RECORD_CASSETTE_ENV = 'AI_IDE_RECORD_CASSETTE';
+
+// Recorded provider exchanges keyed by a hash of the request content, so a cassette
+// recorded against one model replays for any other
+export class Cassette {
+  private entries: Map<string, CassetteEntry> = new Map();
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  static describe(operation: CassetteOperation, request: CompletionRequest | ChatRequest | InlineCompletionRequest): string {
+    switch (operation) {
+      case 'completion':
+        return (request as CompletionRequest).prompt;
+      case 'chat': {
+        const chat = request as ChatRequest;
+        const history = chat.history.map(msg => `${msg.role}: ${msg.content}`);
+        return [...history, `user: ${chat.message}`].join('\n');
+      }
+      case 'inline-completion': {
+        const inline = request as InlineCompletionRequest;
+        return `${inline.language}@${inline.position.line}:${inline.position.column}\n${inline.code}`;
+      }
+    }
+  }
+
+  static keyFor(operation: CassetteOperation, input: string): string {
+    return crypto.createHash('sha256').update(`${operation}\n${input}`).digest('hex');
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<number> {
+    try {
+      const data: CassetteFile = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      this.entries = new Map((data.entries || []).map(entry => [entry.key, entry]));
+    } catch (error) {
+      // Missing cassette: start empty, recording will create it
+      this.entries = new Map();
+    }
+    return this.entries.size;
+  }
+
+  find(operation: CassetteOperation, input: string): CassetteEntry | undefined {
+    return this.entries.get(Cassette.keyFor(operation, input));
+  }
+
+  async record(entry: Omit<CassetteEntry, 'key' | 'recordedAt'>): Promise<void> {
+    const key = Cassette.keyFor(entry.operation, entry.input);
+    this.entries.set(key, { ...entry, key, recordedAt: Date.now() });
+
+    // Serialize writes so concurrent recordings don't interleave
+    this.pendingSave = this.pendingSave.then(() => this.save()).catch(error => {
+      console.error(`❌ Failed to write cassette ${this.filePath}:`, error);
+    });
+    await this.pendingSave;
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = { version: 1, entries: Array.from(this.entries.values()) };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+  }
+}
@@ -0,0 +1,267 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export type StubProtocol = 'ollama' | 'anthropic' | 'openai' | 'mistral';
+
+export interface StubRequest {
+  protocol: StubProtocol;
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  // Last user-visible text of the request (prompt or final message)
+  text: string;
+}
+
+export interface StubFailure {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export type StubResponder = (request: StubRequest) => string;
+
+export interface ProviderStubOptions {
+  // Models reported by /api/tags and /v1/models
+  models?: string[];
+  responder?: StubResponder;
+  // Size of the pieces a streamed response is split into
+  chunkSize?: number;
+}
+
+// In-process HTTP stand-in for the provider APIs the model classes call. It speaks
+// just enough of each wire protocol (Ollama NDJSON, Anthropic and OpenAI SSE, Mistral FIM)
+// to exercise the real clients without network access or API keys:
+//
+//   const stub = new ProviderStubServer({ responder: req => `echo: ${req.text}` });
+//   const baseUrl = await stub.start();
+//   new ClaudeModel({ ...config, endpoint: `${baseUrl}/v1/messages`, apiKey: 'test' });
+export class ProviderStubServer {
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private failures: StubFailure[] = [];
+  private options: Required<ProviderStubOptions>;
+  readonly requests: StubRequest[] = [];
+
+  constructor(options: ProviderStubOptions = {}) {
+    this.options = {
+      models: ['codellama:7b-instruct'],
+      responder: request => `stub response to: ${request.text}`,
+      chunkSize: 8,
+      ...options
+    };
+  }
+
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: error.message }));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${address.port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setResponder(responder: StubResponder): void {
+    this.options.responder = responder;
+  }
+
+  // The next request fails with this status instead of being answered (queued in order)
+  failNext(failure: StubFailure): void {
+    this.failures.push(failure);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const path = (req.url || '/').split('?')[0];
+    const protocol = this.detectProtocol(path);
+    const request: StubRequest = {
+      protocol,
+      method: req.method || 'GET',
+      path,
+      headers: req.headers,
+      body,
+      text: this.extractText(body)
+    };
+    this.requests.push(request);
+
+    const failure = this.failures.shift();
+    if (failure) {
+      res.writeHead(failure.status, { 'Content-Type': 'application/json', ...failure.headers });
+      res.end(JSON.stringify(failure.body || { error: { message: `Stubbed failure ${failure.status}` } }));
+      return;
+    }
+
+    switch (`${request.method} ${path}`) {
+      case 'GET /api/tags':
+        return this.json(res, {
+          models: this.options.models.map(name => ({
+            name,
+            size: 0,
+            digest: 'stub',
+            modified_at: new Date(0).toISOString(),
+            details: { family: 'llama', parameter_size: '7B', quantization_level: 'Q4_0' }
+          }))
+        });
+      case 'POST /api/show':
+        return this.json(res, {
+          details: { family: 'llama', families: ['llama'], parameter_size: '7B', quantization_level: 'Q4_0' },
+          model_info: { 'general.architecture': 'llama', 'llama.context_length': 4096 },
+          template: '{{ .Prompt }}'
+        });
+      case 'GET /api/ps':
+        return this.json(res, { models: [] });
+      case 'POST /api/generate':
+        return this.ollamaGenerate(request, res, text => ({ response: text }));
+      case 'POST /api/chat':
+        return this.ollamaGenerate(request, res, text => ({ message: { role: 'assistant', content: text } }));
+      case 'POST /v1/messages':
+        return this.anthropicMessages(request, res);
+      case 'GET /v1/models':
+        return this.json(res, { object: 'list', data: this.options.models.map(id => ({ id, object: 'model' })) });
+      case 'POST /v1/chat/completions':
+        return this.openAIChat(request, res);
+      case 'POST /v1/completions':
+        return this.json(res, { choices: [{ index: 0, text: this.respond(request), finish_reason: 'stop' }] });
+      case 'POST /v1/fim/completions':
+        return this.json(res, {
+          choices: [{ index: 0, message: { role: 'assistant', content: this.respond(request) }, finish_reason: 'stop' }]
+        });
+      default:
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `No stub for ${request.method} ${path}` }));
+    }
+  }
+
+  private ollamaGenerate(request: StubRequest, res: http.ServerResponse, wrap: (text: string) => object): void {
+    const text = this.respond(request);
+
+    if (request.body?.stream === false) {
+      return this.json(res, { model: request.body.model, ...wrap(text), done: true });
+    }
+
+    // Ollama streams by default
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (const chunk of this.chunk(text)) {
+      res.write(JSON.stringify({ model: request.body?.model, ...wrap(chunk), done: false }) + '\n');
+    }
+    res.end(JSON.stringify({ model: request.body?.model, ...wrap(''), done: true, eval_count: text.length }) + '\n');
+  }
+
+  private anthropicMessages(request: StubRequest, res: http.ServerResponse): void {
+    const text = this.respond(request);
+
+    if (!request.body?.stream) {
+      return this.json(res, {
+        id: 'msg_stub',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: request.text.length, output_tokens: text.length }
+      });
+    }
+
+    this.startSse(res);
+    this.sse(res, 'message_start', { type: 'message_start', message: { id: 'msg_stub', role: 'assistant', content: [] } });
+    this.sse(res, 'content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } });
+    for (const chunk of this.chunk(text)) {
+      this.sse(res, 'content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: chunk } });
+    }
+    this.sse(res, 'content_block_stop', { type: 'content_block_stop', index: 0 });
+    this.sse(res, 'message_stop', { type: 'message_stop' });
+    res.end();
+  }
+
+  private openAIChat(request: StubRequest, res: http.ServerResponse): void {
+    const text = this.respond(request);
+
+    if (!request.body?.stream) {
+      return this.json(res, {
+        id: 'chatcmpl-stub',
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: request.text.length, completion_tokens: text.length }
+      });
+    }
+
+    this.startSse(res);
+    for (const chunk of this.chunk(text)) {
+      this.sse(res, undefined, { id: 'chatcmpl-stub', choices: [{ index: 0, delta: { content: chunk } }] });
+    }
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+
+  private respond(request: StubRequest): string {
+    return this.options.responder(request);
+  }
+
+  private detectProtocol(path: string): StubProtocol {
+    if (path.startsWith('/api/')) return 'ollama';
+    if (path === '/v1/messages') return 'anthropic';
+    if (path === '/v1/fim/completions') return 'mistral';
+    return 'openai';
+  }
+
+  private extractText(body: any): string {
+    if (!body) return '';
+    if (typeof body.prompt === 'string') return body.prompt;
+
+    const messages = body.messages || [];
+    const last = messages[messages.length - 1];
+    if (!last) return '';
+    return typeof last.content === 'string'
+      ? last.content
+      : (last.content || []).map((part: any) => part.text || '').join('');
+  }
+
+  private chunk(text: string): string[] {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += this.options.chunkSize) {
+      chunks.push(text.slice(i, i + this.options.chunkSize));
+    }
+    return chunks;
+  }
+
+  private json(res: http.ServerResponse, data: any): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+
+  private startSse(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  }
+
+  private sse(res: http.ServerResponse, event: string | undefined, data: any): void {
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      return raw;
+    }
+  }
+}
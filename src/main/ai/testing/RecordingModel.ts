@@ -0,0 +1,74 @@
+import { AIModel, ChatRequest, CompletionRequest, InlineCompletionRequest } from '../../../shared/types/ai';
+import { Cassette, CassetteOperation } from './Cassette';
+
+// Wraps a real provider and writes every successful exchange to a cassette
+// that MockModel can replay later
+export class RecordingModel extends AIModel {
+  constructor(private inner: AIModel, private cassette: Cassette) {
+    super(inner.getConfig());
+    // Tool turns pass straight through; replay drives them with the prompt-based fallback
+    if (inner.chatWithTools) {
+      this.chatWithTools = request => inner.chatWithTools!(request);
+    }
+    // Recorded as chat, which is how MockModel answers structured requests on replay
+    if (inner.chatStructured) {
+      this.chatStructured = async request => {
+        const response = await inner.chatStructured!(request);
+        await this.record('chat', Cassette.describe('chat', request), response);
+        return response;
+      };
+    }
+    // Vectors are not recorded; MockModel has no embeddings to replay
+    if (inner.embed) {
+      this.embed = request => inner.embed!(request);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.inner.complete(request);
+    await this.record('completion', Cassette.describe('completion', request), response);
+    return response;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const response = await this.inner.chat(request);
+    await this.record('chat', Cassette.describe('chat', request), response);
+    return response;
+  }
+
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    const chunks: string[] = [];
+    const response = await this.inner.chatStream(request, token => {
+      chunks.push(token);
+      onToken(token);
+    });
+    await this.record('chat', Cassette.describe('chat', request), response, chunks);
+    return response;
+  }
+
+  async inlineComplete(request: InlineCompletionRequest): Promise<string> {
+    const response = await this.inner.inlineComplete(request);
+    await this.record('inline-completion', Cassette.describe('inline-completion', request), response);
+    return response;
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.inner.healthCheck();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async cleanup(): Promise<void> {
+    await this.inner.cleanup();
+  }
+
+  private async record(operation: CassetteOperation, input: string, response: string, chunks?: string[]): Promise<void> {
+    await this.cassette.record({ operation, model: this.config.id, input, response, chunks });
+  }
+}
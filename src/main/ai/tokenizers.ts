@@ -0,0 +1,143 @@
+import type { Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { ModelConfig } from '../../shared/types/ai';
+
+export type TokenizerFamily = 'llama' | 'mistral' | 'qwen' | 'deepseek' | 'gpt' | 'claude';
+
+export interface Tokenizer {
+  family: TokenizerFamily;
+  // Shown in context reports, e.g. "gpt (o200k_base)" or "llama (estimate)"
+  name: string;
+  // False for the per-family estimates used where no real tokenizer is available
+  exact: boolean;
+  count(text: string): number;
+}
+
+// Fallback for families without a tokenizer that loads here (Claude's is not public; the
+// llama and mistral vocabularies only ship as ES modules). Approximate shape of each family's
+// vocabulary: SentencePiece vocabularies (llama, mistral) split numbers into single digits and
+// spend more tokens on indentation; BPE vocabularies with large merges (gpt, qwen) group digits
+// and long whitespace runs.
+interface HeuristicProfile {
+  charsPerWordToken: number;
+  digitsPerToken: number;
+  spacesPerToken: number;
+}
+
+const PROFILES: Record<TokenizerFamily, HeuristicProfile> = {
+  llama: { charsPerWordToken: 3.2, digitsPerToken: 1, spacesPerToken: 4 },
+  mistral: { charsPerWordToken: 3.4, digitsPerToken: 1, spacesPerToken: 4 },
+  qwen: { charsPerWordToken: 4.2, digitsPerToken: 1, spacesPerToken: 8 },
+  deepseek: { charsPerWordToken: 4.0, digitsPerToken: 1, spacesPerToken: 8 },
+  gpt: { charsPerWordToken: 4.4, digitsPerToken: 3, spacesPerToken: 8 },
+  claude: { charsPerWordToken: 3.8, digitsPerToken: 3, spacesPerToken: 8 }
+};
+
+// Words, digit runs, whitespace runs and single symbols
+const PIECE_PATTERN = /[A-Za-z\u00C0-\uFFFF]+|\d+|\n|[ \t]+|[^\sA-Za-z\d]/g;
+
+class HeuristicTokenizer implements Tokenizer {
+  readonly exact = false;
+  readonly name: string;
+
+  constructor(public family: TokenizerFamily, private profile: HeuristicProfile) {
+    this.name = `${family} (estimate)`;
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+
+    let tokens = 0;
+    for (const piece of text.match(PIECE_PATTERN) || []) {
+      const first = piece.charCodeAt(0);
+
+      if (piece === '\n') {
+        tokens += 1;
+      } else if (first === 32 || first === 9) {
+        tokens += Math.ceil(piece.length / this.profile.spacesPerToken);
+      } else if (first >= 48 && first <= 57) {
+        tokens += Math.ceil(piece.length / this.profile.digitsPerToken);
+      } else if (/[A-Za-z\u00C0-\uFFFF]/.test(piece[0])) {
+        tokens += Math.ceil(piece.length / this.profile.charsPerWordToken);
+      } else {
+        tokens += 1;
+      }
+    }
+
+    return tokens;
+  }
+}
+
+// OpenAI's own BPE. The encoder holds the whole vocabulary, so it is loaded on first use.
+class TiktokenTokenizer implements Tokenizer {
+  readonly family: TokenizerFamily = 'gpt';
+  readonly exact = true;
+  readonly name: string;
+  private encoder: Tiktoken | null = null;
+
+  constructor(private encoding: TiktokenEncoding) {
+    this.name = `gpt (${encoding})`;
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+
+    if (!this.encoder) {
+      const { getEncoding } = require('js-tiktoken');
+      this.encoder = getEncoding(this.encoding) as Tiktoken;
+    }
+    // Special tokens such as <|endoftext|> in the text are counted as ordinary text
+    return this.encoder.encode(text, [], []).length;
+  }
+}
+
+const tokenizers = new Map<string, Tokenizer>();
+
+export function getTokenizer(family: TokenizerFamily): Tokenizer {
+  let tokenizer = tokenizers.get(family);
+  if (!tokenizer) {
+    tokenizer = new HeuristicTokenizer(family, PROFILES[family]);
+    tokenizers.set(family, tokenizer);
+  }
+  return tokenizer;
+}
+
+function getTiktokenTokenizer(encoding: TiktokenEncoding): Tokenizer {
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    tokenizer = new TiktokenTokenizer(encoding);
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+// GPT-4o and later (including the o-series and gpt-oss) use o200k_base; GPT-4 and 3.5 use cl100k_base
+function getTiktokenEncoding(model: string): TiktokenEncoding {
+  return /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|(^|[/:-])o\d/i.test(model) ? 'o200k_base' : 'cl100k_base';
+}
+
+export function getTokenizerFamily(config: ModelConfig): TokenizerFamily {
+  switch (config.provider) {
+    case 'anthropic':
+      return 'claude';
+    case 'openai':
+      return 'gpt';
+    case 'mistral':
+      return 'mistral';
+  }
+
+  // Local and OpenAI-compatible models: go by the reported family, then the model name
+  const hint = `${config.parameters?.family || ''} ${config.parameters?.model || config.id}`.toLowerCase();
+  if (/qwen/.test(hint)) return 'qwen';
+  if (/deepseek/.test(hint)) return 'deepseek';
+  if (/mistral|mixtral|codestral/.test(hint)) return 'mistral';
+  if (/gpt/.test(hint)) return 'gpt';
+  return 'llama';
+}
+
+export function getTokenizerForModel(config: ModelConfig): Tokenizer {
+  const family = getTokenizerFamily(config);
+  if (family === 'gpt') {
+    return getTiktokenTokenizer(getTiktokenEncoding(config.parameters?.model || config.id));
+  }
+  return getTokenizer(family);
+}
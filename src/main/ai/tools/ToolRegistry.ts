@@ -0,0 +1,45 @@
+import { ToolCall, ToolDefinition, ToolResult } from '../../../shared/types/ai';
+
+export interface IDETool {
+  definition: ToolDefinition;
+  execute(args: Record<string, any>): Promise<string>;
+}
+
+// Tool output goes back into the prompt, so large results are cut
+const MAX_RESULT_CHARS = 12000;
+
+// Tools the chat may call, looked up by name when the model asks for one
+export class ToolRegistry {
+  private tools: Map<string, IDETool> = new Map();
+
+  constructor(tools: IDETool[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: IDETool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  // Failures are returned to the model as error results so it can correct itself
+  async execute(call: ToolCall): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { callId: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true };
+    }
+
+    try {
+      const output = await tool.execute(call.arguments || {});
+      const content = output.length > MAX_RESULT_CHARS
+        ? `${output.substring(0, MAX_RESULT_CHARS)}\n... (truncated, ${output.length - MAX_RESULT_CHARS} more characters)`
+        : output;
+      return { callId: call.id, name: call.name, content };
+    } catch (error) {
+      console.warn(`🔧 Tool ${call.name} failed:`, error.message);
+      return { callId: call.id, name: call.name, content: error.message || String(error), isError: true };
+    }
+  }
+}
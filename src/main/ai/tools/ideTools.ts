@@ -0,0 +1,130 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FileSystemManager } from '../../filesystem/FileSystemManager';
+import { IndexerService } from '../../services/IndexerService';
+import { IDETool } from './ToolRegistry';
+
+export interface IDEToolDependencies {
+  fileSystem: FileSystemManager;
+  indexer: IndexerService;
+  // Folder the user opened; tools refuse paths outside it
+  getWorkspaceRoot: () => string | null;
+}
+
+const MAX_DIRECTORY_ENTRIES = 200;
+const MAX_SYMBOL_RESULTS = 20;
+
+export function createIDETools(deps: IDEToolDependencies): IDETool[] {
+  return [
+    {
+      definition: {
+        name: 'read_file',
+        description: 'Read a file from the open workspace. Optionally limit the output to a range of 1-based line numbers.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root' },
+            startLine: { type: 'integer', description: 'First line to return' },
+            endLine: { type: 'integer', description: 'Last line to return' }
+          },
+          required: ['path']
+        }
+      },
+      execute: async args => {
+        const filePath = await resolveInWorkspace(deps.getWorkspaceRoot(), args.path);
+        const lines = (await deps.fileSystem.readFile(filePath)).split('\n');
+        const start = Math.max(1, Number(args.startLine) || 1);
+        const end = Math.min(lines.length, Number(args.endLine) || lines.length);
+
+        return lines
+          .slice(start - 1, end)
+          .map((line, index) => `${start + index}: ${line}`)
+          .join('\n');
+      }
+    },
+    {
+      definition: {
+        name: 'search_symbols',
+        description: 'Search the code index for classes, methods, functions and other symbols whose name or signature contains the query.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Symbol name or part of it' }
+          },
+          required: ['query']
+        }
+      },
+      execute: async args => {
+        const root = requireWorkspaceRoot(deps.getWorkspaceRoot());
+        if (!args.query) {
+          throw new Error('query is required');
+        }
+
+        const symbols = (await deps.indexer.search(String(args.query)))
+          .map(symbol => ({ ...symbol, relativePath: path.relative(root, symbol.filePath) }))
+          .filter(symbol => !isOutside(symbol.relativePath))
+          .slice(0, MAX_SYMBOL_RESULTS);
+
+        if (symbols.length === 0) {
+          return `No symbols matching "${args.query}"`;
+        }
+        return symbols
+          .map(symbol => `${symbol.type} ${symbol.name} - ${symbol.relativePath}:${symbol.startLine}-${symbol.endLine}${symbol.signature ? `\n  ${symbol.signature}` : ''}`)
+          .join('\n');
+      }
+    },
+    {
+      definition: {
+        name: 'list_directory',
+        description: 'List the files and folders in a workspace directory. Folders end with a slash.',
+        parameters: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Directory path relative to the workspace root; omit for the root' }
+          }
+        }
+      },
+      execute: async args => {
+        const dirPath = await resolveInWorkspace(deps.getWorkspaceRoot(), args.path || '.');
+        const names = (await deps.fileSystem.readDirectory(dirPath)).sort();
+
+        const entries: string[] = [];
+        for (const name of names.slice(0, MAX_DIRECTORY_ENTRIES)) {
+          const stats = await deps.fileSystem.getFileStats(path.join(dirPath, name)).catch(() => null);
+          entries.push(stats?.isDirectory() ? `${name}/` : name);
+        }
+        if (names.length > MAX_DIRECTORY_ENTRIES) {
+          entries.push(`... ${names.length - MAX_DIRECTORY_ENTRIES} more entries`);
+        }
+        return entries.join('\n') || '(empty directory)';
+      }
+    }
+  ];
+}
+
+function requireWorkspaceRoot(root: string | null): string {
+  if (!root) {
+    throw new Error('No workspace folder is open');
+  }
+  return root;
+}
+
+function isOutside(relativePath: string): boolean {
+  return relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath);
+}
+
+// Resolves a model-supplied path against the workspace root. Symlinks are followed
+// before the check so a link cannot point the model outside the workspace.
+async function resolveInWorkspace(root: string | null, requested: unknown): Promise<string> {
+  const workspaceRoot = await fs.realpath(requireWorkspaceRoot(root));
+  if (typeof requested !== 'string' || !requested) {
+    throw new Error('path is required');
+  }
+
+  const resolved = path.resolve(workspaceRoot, requested);
+  const real = await fs.realpath(resolved).catch(() => resolved);
+  if (isOutside(path.relative(workspaceRoot, real))) {
+    throw new Error(`${requested} is outside the workspace`);
+  }
+  return real;
+}
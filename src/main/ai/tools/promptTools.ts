@@ -0,0 +1,59 @@
+import { AIModel, ToolCall, ToolChatRequest, ToolChatResponse, ToolDefinition, ToolRound } from '../../../shared/types/ai';
+import { generateToolCallId } from './toolFormats';
+
+const TOOL_CALL_PATTERN = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+
+// Tool calling for models without native support: the tools are described in the
+// message, the model answers with <tool_call> blocks, and earlier rounds are replayed as text
+export async function chatWithPromptTools(model: AIModel, request: ToolChatRequest): Promise<ToolChatResponse> {
+  const message = [
+    buildToolInstructions(request.tools),
+    `User request:\n${request.message}`,
+    ...request.toolRounds.map(renderRound)
+  ].join('\n\n');
+
+  const response = await model.chat({ ...request, message });
+  return parseToolCalls(response, request.tools);
+}
+
+function buildToolInstructions(tools: ToolDefinition[]): string {
+  const toolList = tools
+    .map(tool => `- ${tool.name}: ${tool.description}\n  Arguments (JSON Schema): ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+
+  return `You can look things up in the user's workspace with these tools:
+${toolList}
+
+To call a tool, reply with only one or more blocks of this form and nothing else:
+<tool_call>{"name": "tool_name", "arguments": {...}}</tool_call>
+The results will be sent back to you. When you have what you need, answer the user normally without any <tool_call> block.`;
+}
+
+function renderRound(round: ToolRound): string {
+  const calls = round.calls.map(call =>
+    `<tool_call>${JSON.stringify({ name: call.name, arguments: call.arguments })}</tool_call>`
+  );
+  const results = round.results.map(result =>
+    `<tool_result name="${result.name}"${result.isError ? ' error="true"' : ''}>\n${result.content}\n</tool_result>`
+  );
+  return [round.content, ...calls, ...results].filter(Boolean).join('\n');
+}
+
+// Blocks that don't parse or name an unknown tool are left in the text as a normal answer
+function parseToolCalls(response: string, tools: ToolDefinition[]): ToolChatResponse {
+  const toolNames = new Set(tools.map(tool => tool.name));
+  const toolCalls: ToolCall[] = [];
+
+  const content = response.replace(TOOL_CALL_PATTERN, (block, json) => {
+    try {
+      const parsed = JSON.parse(json);
+      if (!toolNames.has(parsed.name)) return block;
+      toolCalls.push({ id: generateToolCallId(), name: parsed.name, arguments: parsed.arguments || {} });
+      return '';
+    } catch (error) {
+      return block;
+    }
+  });
+
+  return { content: content.trim(), toolCalls };
+}
@@ -0,0 +1,112 @@
+import { ToolCall, ToolChatResponse, ToolDefinition, ToolRound } from '../../../shared/types/ai';
+
+// Providers that don't assign call ids (Ollama, the prompt fallback) get a local one
+export function generateToolCallId(): string {
+  return `call-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
+
+// OpenAI (and Mistral): functions in `tools`, calls on the assistant message, results as role 'tool'
+export function toOpenAITools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }));
+}
+
+export function toOpenAIToolMessages(rounds: ToolRound[]): any[] {
+  return rounds.flatMap(round => [
+    {
+      role: 'assistant',
+      content: round.content || null,
+      tool_calls: round.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    },
+    ...round.results.map(result => ({ role: 'tool', tool_call_id: result.callId, content: result.content }))
+  ]);
+}
+
+export function parseOpenAIToolResponse(message: any): ToolChatResponse {
+  return {
+    content: message?.content || '',
+    toolCalls: (message?.tool_calls || []).map((call: any) => ({
+      id: call.id || generateToolCallId(),
+      name: call.function?.name,
+      arguments: parseArguments(call.function?.arguments)
+    }))
+  };
+}
+
+// Ollama /api/chat: OpenAI-style tools, but arguments are objects and calls carry no id
+export function toOllamaToolMessages(rounds: ToolRound[]): any[] {
+  return rounds.flatMap(round => [
+    {
+      role: 'assistant',
+      content: round.content,
+      tool_calls: round.calls.map(call => ({ function: { name: call.name, arguments: call.arguments } }))
+    },
+    ...round.results.map(result => ({ role: 'tool', content: result.content }))
+  ]);
+}
+
+export function parseOllamaToolResponse(message: any): ToolChatResponse {
+  return {
+    content: message?.content || '',
+    toolCalls: (message?.tool_calls || []).map((call: any) => ({
+      id: generateToolCallId(),
+      name: call.function?.name,
+      arguments: parseArguments(call.function?.arguments)
+    }))
+  };
+}
+
+// Anthropic: tools take input_schema; calls are tool_use blocks answered by tool_result blocks
+export function toAnthropicTools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }));
+}
+
+export function toAnthropicToolMessages(rounds: ToolRound[]): any[] {
+  return rounds.flatMap(round => [
+    {
+      role: 'assistant',
+      content: [
+        ...(round.content ? [{ type: 'text', text: round.content }] : []),
+        ...round.calls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+      ]
+    },
+    {
+      role: 'user',
+      content: round.results.map(result => ({
+        type: 'tool_result',
+        tool_use_id: result.callId,
+        content: result.content,
+        is_error: result.isError || undefined
+      }))
+    }
+  ]);
+}
+
+export function parseAnthropicToolResponse(content: any[]): ToolChatResponse {
+  const blocks = content || [];
+  return {
+    content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+    toolCalls: blocks
+      .filter(block => block.type === 'tool_use')
+      .map((block): ToolCall => ({ id: block.id, name: block.name, arguments: block.input || {} }))
+  };
+}
+
+// OpenAI sends arguments as a JSON string, Ollama as an object
+function parseArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    // Leave it to the tool to report the missing arguments
+    return {};
+  }
+}
@@ -0,0 +1,25 @@
+import { TokenUsage } from '../../shared/types/ai';
+
+// Ollama reports counts on the final (done) object of /api/generate and /api/chat
+export function parseOllamaUsage(data: any): TokenUsage | undefined {
+  if (data?.prompt_eval_count === undefined && data?.eval_count === undefined) return undefined;
+  return { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 };
+}
+
+// OpenAI, Mistral and most OpenAI-compatible servers: { prompt_tokens, completion_tokens }
+export function parseOpenAIUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 };
+}
+
+// Anthropic: { input_tokens, output_tokens }; streams split them across message_start and message_delta
+export function parseAnthropicUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 };
+}
+
+export function reportUsage(onUsage: ((usage: TokenUsage) => void) | undefined, usage: TokenUsage | undefined): void {
+  if (usage) {
+    onUsage?.(usage);
+  }
+}
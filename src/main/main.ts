@@ -5,6 +5,17 @@ import { FileSystemManager } from './filesystem/FileSystemManager';
 import { IndexerService } from './services/IndexerService';
 import { EmbeddingsService } from './services/EmbeddingsService';
 import { SettingsService } from './services/SettingsService';
+import { buildOpenAICompatibleConfig } from './ai/models/OpenAICompatibleModel';
+import { promptTemplates } from './ai/prompts/PromptTemplateRegistry';
+import { AIError, toAIError } from './ai/errors';
+import { ResponseCache } from './ai/ResponseCache';
+import { UsageTracker } from './ai/UsageTracker';
+import { PerformanceStore } from './ai/PerformanceStore';
+import { ToolRegistry } from './ai/tools/ToolRegistry';
+import { createIDETools } from './ai/tools/ideTools';
+import { loadWorkspacePolicy } from './ai/privacy/workspacePolicy';
+import { CREDENTIAL_PROVIDERS, CredentialProvider } from './ai/CredentialProvider';
+import { AIResult, OpenAICompatibleOptions, ProviderBudget, RoutingPolicy } from '../shared/types/ai';
 
 class AIIDEApp {
   private mainWindow: BrowserWindow | null = null;
@@ -13,13 +24,24 @@ class AIIDEApp {
   private indexerService: IndexerService;
   private embeddingsService: EmbeddingsService;
   private settingsService: SettingsService;
+  // Cloud API keys from settings, injected into models by the manager
+  private credentials = new CredentialProvider();
+  // Folder opened by the user; chat tools can only read inside it
+  private workspaceRoot: string | null = null;
+  private quitState: 'running' | 'cleaning-up' | 'done' = 'running';
 
   constructor() {
     this.aiModelManager = new AIModelManager();
     this.fileSystemManager = new FileSystemManager();
     this.indexerService = new IndexerService();
-    this.embeddingsService = new EmbeddingsService();
+    this.embeddingsService = new EmbeddingsService(this.aiModelManager);
     this.settingsService = new SettingsService();
+    this.aiModelManager.setCredentialProvider(this.credentials);
+    this.aiModelManager.setToolRegistry(new ToolRegistry(createIDETools({
+      fileSystem: this.fileSystemManager,
+      indexer: this.indexerService,
+      getWorkspaceRoot: () => this.workspaceRoot
+    })));
     
     this.initializeApp();
   }
@@ -44,6 +66,22 @@ class AIIDEApp {
         this.createMainWindow();
       }
     });
+
+    // Electron does not wait for async handlers, so the quit is held until the
+    // response cache index and the models are flushed, then resumed
+    app.on('will-quit', event => {
+      if (this.quitState === 'done') return;
+      event.preventDefault();
+      if (this.quitState === 'cleaning-up') return;
+
+      this.quitState = 'cleaning-up';
+      this.aiModelManager.cleanup()
+        .catch(error => console.error('❌ Cleanup before quit failed:', error))
+        .finally(() => {
+          this.quitState = 'done';
+          app.quit();
+        });
+    });
   }
 
   private createMainWindow(): void {
@@ -128,7 +166,28 @@ class AIIDEApp {
   private async initializeServices(): Promise<void> {
     try {
       await this.settingsService.initialize();
-      try { await this.aiModelManager.initialize(); } catch (error) { console.warn("AI features unavailable:", error.message); }
+      for (const provider of CREDENTIAL_PROVIDERS) {
+        this.credentials.setKey(provider, this.settingsService.getApiKey(provider));
+      }
+      for (const config of this.settingsService.getModelConfigs()) {
+        this.aiModelManager.registerModelConfig(config);
+      }
+      const preferences = this.settingsService.getSettings().preferences;
+      this.aiModelManager.setFallbackChains(preferences.fallbackChains);
+      this.aiModelManager.setRoutingPolicy({ ...preferences.routing, preferLocal: preferences.preferLocal });
+      this.aiModelManager.setEmbeddingModel(preferences.embeddingModel);
+      const responseCache = new ResponseCache(path.join(app.getPath('userData'), 'ai-cache'));
+      console.log(`💾 Response cache loaded with ${await responseCache.load()} entries`);
+      this.aiModelManager.setResponseCache(responseCache);
+      const usageTracker = new UsageTracker(path.join(app.getPath('userData'), 'ai-usage.json'));
+      await usageTracker.load();
+      usageTracker.setBudgets(preferences.budgets);
+      this.aiModelManager.setUsageTracker(usageTracker);
+      const performanceStore = new PerformanceStore(path.join(app.getPath('userData'), 'ai-performance.json'));
+      await performanceStore.load();
+      this.aiModelManager.setPerformanceStore(performanceStore);
+      // Restores the model the user last selected, so only that one is warmed up
+      try { await this.aiModelManager.initialize(preferences.primaryModel); } catch (error) { console.warn("AI features unavailable:", error.message); }
       await this.embeddingsService.initialize();
       console.log('AI IDE services initialized successfully');
     } catch (error) {
@@ -168,32 +227,204 @@ class AIIDEApp {
       return result;
     });
 
+    ipcMain.handle('workspace:set-root', async (_, rootPath: string) => {
+      this.workspaceRoot = rootPath;
+      // Cloud access and redaction rules live in <root>/.ai-ide/policy.json
+      this.aiModelManager.setWorkspacePolicy(await loadWorkspacePolicy(rootPath));
+      // Prompt template overrides live in <root>/.ai-ide/prompts
+      return await promptTemplates.loadWorkspaceOverrides(rootPath);
+    });
+
     // AI operations
-    ipcMain.handle('ai:completion', async (_, prompt: string, context: any) => {
-      return await this.aiModelManager.getCompletion(prompt, context);
+    // AI calls resolve to AIResult so the renderer gets a typed error instead of a rejected invoke
+    ipcMain.handle('ai:completion', async (_, prompt: string, context: any, requestId?: string) => {
+      return this.toResult(() => this.aiModelManager.getCompletion(prompt, context, requestId));
     });
 
-    ipcMain.handle('ai:chat', async (_, message: string, context: any) => {
-      return await this.aiModelManager.chat(message, context);
+    ipcMain.handle('ai:chat', async (_, message: string, context: any, requestId?: string) => {
+      return this.toResult(async () => this.aiModelManager.chat(message, await this.withRelatedCode(message, context), requestId));
     });
 
-    ipcMain.handle('ai:inline-completion', async (_, code: string, position: any) => {
-      return await this.aiModelManager.getInlineCompletion(code, position);
+    // JSON answer validated against schema; invalid output is repaired or fails with 'invalid-output'
+    ipcMain.handle('ai:structured-output', async (_, message: string, schema: Record<string, any>, context: any, options?: { schemaName?: string; requestId?: string; maxTokens?: number }) => {
+      return this.toResult(() => this.aiModelManager.getStructuredOutput(message, schema, context, options));
+    });
+
+    // Streamed chat: tokens are pushed on 'ai:chat-stream-event' keyed by request id
+    ipcMain.handle('ai:chat-stream', async (event, requestId: string, message: string, context: any) => {
+      const result = await this.toResult(async () => this.aiModelManager.chatStream(requestId, message, await this.withRelatedCode(message, context), token => {
+        event.sender.send('ai:chat-stream-event', { requestId, type: 'token', content: token });
+      }, (toolCall, toolResult) => {
+        event.sender.send('ai:chat-stream-event', { requestId, type: 'tool', toolCall, toolError: toolResult.isError });
+      }));
+      event.sender.send('ai:chat-stream-event', result.success === false
+        ? { requestId, type: 'error', error: result.error.message }
+        : { requestId, type: 'done', content: result.data });
+      return result;
+    });
+
+    // Compare mode: tokens of each model arrive on 'ai:chat-stream-event' as `<requestId>:<modelId>`
+    ipcMain.handle('ai:compare-chat', async (event, requestId: string, message: string, context: any, modelIds: string[]) => {
+      return this.toResult(async () => this.aiModelManager.compareChat(requestId, message, await this.withRelatedCode(message, context), modelIds, (modelId, token) => {
+        event.sender.send('ai:chat-stream-event', { requestId: `${requestId}:${modelId}`, type: 'token', content: token });
+      }));
+    });
+
+    ipcMain.handle('ai:record-comparison-vote', async (_, message: string, context: any, winnerModelId: string, modelIds: string[]) => {
+      return this.aiModelManager.recordComparisonVote(message, context, winnerModelId, modelIds);
+    });
+
+    ipcMain.handle('ai:get-performance-metrics', async () => {
+      return this.aiModelManager.getPerformanceMetrics();
+    });
+
+    // Benchmark progress is pushed on 'ai:benchmark-progress'; cancel with ai:cancel(runId)
+    ipcMain.handle('ai:run-benchmark', async (event, runId: string, modelIds?: string[]) => {
+      return this.toResult(() => this.aiModelManager.runBenchmark(runId, modelIds, progress => {
+        event.sender.send('ai:benchmark-progress', progress);
+      }));
+    });
+
+    ipcMain.handle('ai:get-benchmarks', async () => {
+      return this.aiModelManager.getBenchmarkSummaries();
+    });
+
+    ipcMain.handle('ai:inline-completion', async (_, code: string, position: any, requestId?: string) => {
+      return this.toResult(() => this.aiModelManager.getInlineCompletion(code, position, requestId));
+    });
+
+    ipcMain.handle('ai:cancel', async (_, requestId: string) => {
+      return this.aiModelManager.cancelRequest(requestId);
     });
 
     // Model management
     ipcMain.handle('ai:get-models', async () => {
-      return this.aiModelManager.getAvailableModels().map(config => ({
+      return this.aiModelManager.getAllModelConfigs().map(config => ({
         id: config.id,
         name: config.name,
         provider: config.provider,
         isLocal: config.isLocal,
         isAvailable: this.aiModelManager.getModelsMap().has(config.id), // Check if this specific model is available
         latency: config.latency,
-        type: config.type
+        type: config.type,
+        contextWindow: config.contextWindow,
+        family: config.parameters?.family,
+        parameterSize: config.parameters?.parameterSize,
+        quantization: config.parameters?.quantization,
+        health: this.aiModelManager.getModelHealth().find(health => health.modelId === config.id)?.state || 'closed',
+        isCustom: config.provider === 'openai-compatible',
+        endpoint: config.provider === 'openai-compatible' ? config.endpoint : undefined
       }));
     });
 
+    // OpenAI-compatible servers (llama.cpp, vLLM, LM Studio) configured by the user
+    ipcMain.handle('ai:add-custom-model', async (_, options: OpenAICompatibleOptions) => {
+      const config = buildOpenAICompatibleConfig(options);
+      await this.settingsService.saveModelConfig(config);
+      await this.aiModelManager.removeModel(config.id);
+      await this.aiModelManager.addModel(config);
+      return this.aiModelManager.getModelsMap().has(config.id);
+    });
+
+    ipcMain.handle('ai:remove-custom-model', async (_, modelId: string) => {
+      await this.aiModelManager.removeModel(modelId);
+      await this.settingsService.removeModelConfig(modelId);
+    });
+
+    ipcMain.handle('ai:refresh-models', async () => {
+      const discovered = await this.aiModelManager.refreshOllamaModels();
+      return discovered.length;
+    });
+
+    // Ollama model management; pull progress is pushed on 'ai:ollama-pull-progress' keyed by request id
+    ipcMain.handle('ai:list-ollama-models', async () => {
+      return this.toResult(() => this.aiModelManager.listOllamaModels());
+    });
+
+    ipcMain.handle('ai:list-loaded-ollama-models', async () => {
+      return this.toResult(() => this.aiModelManager.listLoadedOllamaModels());
+    });
+
+    ipcMain.handle('ai:pull-ollama-model', async (event, requestId: string, name: string) => {
+      return this.toResult(async () => {
+        const registered = await this.aiModelManager.pullOllamaModel(requestId, name, progress => {
+          event.sender.send('ai:ollama-pull-progress', progress);
+        });
+        return registered.length;
+      });
+    });
+
+    ipcMain.handle('ai:delete-ollama-model', async (_, name: string) => {
+      return this.toResult(() => this.aiModelManager.deleteOllamaModel(name));
+    });
+
+    ipcMain.handle('ai:get-model-status', async () => {
+      return this.aiModelManager.getModelLoadStatus();
+    });
+
+    ipcMain.handle('ai:get-workspace-policy', async () => {
+      return this.aiModelManager.getWorkspacePolicy();
+    });
+
+    ipcMain.handle('ai:get-fallback-chains', async () => {
+      return this.aiModelManager.getFallbackChains();
+    });
+
+    ipcMain.handle('ai:set-fallback-chains', async (_, chains: Record<string, string[]>) => {
+      this.aiModelManager.setFallbackChains(chains);
+      await this.settingsService.updatePreferences({ fallbackChains: chains });
+    });
+
+    // selected is the user's choice (unset means automatic), active the model embeddings come from
+    ipcMain.handle('ai:get-embedding-model', async () => {
+      return {
+        selected: this.settingsService.getSettings().preferences.embeddingModel,
+        active: this.aiModelManager.getEmbeddingModelId()
+      };
+    });
+
+    ipcMain.handle('ai:set-embedding-model', async (_, modelId?: string) => {
+      this.aiModelManager.setEmbeddingModel(modelId);
+      await this.settingsService.updatePreferences({ embeddingModel: modelId });
+    });
+
+    ipcMain.handle('ai:get-routing-policy', async () => {
+      return this.aiModelManager.getRoutingPolicy();
+    });
+
+    ipcMain.handle('ai:set-routing-policy', async (_, policy: RoutingPolicy) => {
+      this.aiModelManager.setRoutingPolicy(policy);
+      await this.settingsService.updatePreferences({
+        preferLocal: policy.preferLocal,
+        routing: { mode: policy.mode, rules: policy.rules }
+      });
+    });
+
+    ipcMain.handle('ai:get-queue-stats', async () => {
+      return this.aiModelManager.getQueueStats();
+    });
+
+    ipcMain.handle('ai:get-cache-stats', async () => {
+      return this.aiModelManager.getResponseCacheStats();
+    });
+
+    ipcMain.handle('ai:clear-cache', async (_, modelId?: string) => {
+      return this.aiModelManager.invalidateResponseCache(modelId);
+    });
+
+    ipcMain.handle('ai:get-usage', async () => {
+      return this.aiModelManager.getUsageSummary();
+    });
+
+    ipcMain.handle('ai:set-budgets', async (_, budgets: ProviderBudget[]) => {
+      this.aiModelManager.setBudgets(budgets);
+      await this.settingsService.updatePreferences({ budgets });
+    });
+
+    ipcMain.handle('ai:get-model-health', async () => {
+      return this.aiModelManager.getModelHealth();
+    });
+
     ipcMain.handle('ai:get-current-model', async () => {
       return this.aiModelManager.getCurrentModel()?.getConfig().id || null;
     });
@@ -201,6 +432,7 @@ class AIIDEApp {
     ipcMain.handle('ai:switch-model', async (_, modelId: string) => {
       try {
         await this.aiModelManager.setCurrentModel(modelId);
+        await this.settingsService.setPrimaryModel(modelId);
         return true;
       } catch (error) {
         console.error('Failed to switch model:', error);
@@ -209,36 +441,72 @@ class AIIDEApp {
     });
 
     // Settings operations
+    // Saved API keys stay in the main process; the renderer only learns which are set
     ipcMain.handle('settings:get', async () => {
-      return this.settingsService.getSettings();
+      return this.settingsService.getPublicSettings();
     });
 
+    // A new key re-creates the provider's existing models in place
     ipcMain.handle('settings:update-api-key', async (_, provider: string, apiKey: string) => {
-      await this.settingsService.updateApiKey(provider as any, apiKey);
-      // Reinitialize the specific model with the new API key
-      await this.aiModelManager.addModel({
-        id: `${provider}-updated`,
-        name: `${provider} Model`,
-        provider,
-        type: 'chat',
-        maxTokens: 4096,
-        contextWindow: 100000,
-        specialties: ['general-coding'],
-        languages: ['apex', 'javascript', 'python', 'java', 'soql'],
-        latency: 'low',
-        isLocal: false,
-        endpoint: this.getEndpointForProvider(provider),
-        apiKey
-      });
+      if (!CredentialProvider.isCredentialProvider(provider)) {
+        throw new Error(`Unknown API key provider: ${provider}`);
+      }
+      const key = (apiKey || '').trim();
+      if (!key) {
+        throw new Error('API key must not be empty');
+      }
+      await this.settingsService.updateApiKey(provider, key);
+      this.credentials.setKey(provider, key);
+      await this.aiModelManager.reloadProviderModels(provider);
+    });
+
+    // Falls back to the environment variable if set, otherwise retires the provider's models
+    ipcMain.handle('settings:remove-api-key', async (_, provider: string) => {
+      if (!CredentialProvider.isCredentialProvider(provider)) {
+        throw new Error(`Unknown API key provider: ${provider}`);
+      }
+      await this.settingsService.removeApiKey(provider);
+      this.credentials.setKey(provider, undefined);
+      await this.aiModelManager.reloadProviderModels(provider);
+    });
+
+    ipcMain.handle('settings:get-api-key-status', async () => {
+      return this.aiModelManager.getApiKeyStatus();
+    });
+
+    ipcMain.handle('settings:get-secret-storage-status', async () => {
+      return this.settingsService.getSecretStorageStatus();
+    });
+
+    // Without an OS keyring, saved keys are encrypted with this passphrase
+    ipcMain.handle('settings:unlock-secrets', async (_, passphrase: string) => {
+      const unlocked = await this.settingsService.unlockSecrets(passphrase);
+      for (const provider of unlocked.providers) {
+        this.credentials.setKey(provider, this.settingsService.getApiKey(provider));
+        await this.aiModelManager.reloadProviderModels(provider);
+      }
+      for (const config of this.settingsService.getModelConfigs().filter(config => unlocked.modelIds.includes(config.id))) {
+        await this.aiModelManager.removeModel(config.id);
+        await this.aiModelManager.addModel(config);
+      }
     });
 
     ipcMain.handle('settings:test-api-key', async (_, provider: string, apiKey: string) => {
-      return await this.settingsService.testApiKey(provider as any, apiKey);
+      return this.toResult(() => {
+        if (!CredentialProvider.isCredentialProvider(provider)) {
+          throw new AIError('unknown', `Unknown API key provider: ${provider}`, { provider });
+        }
+        return this.settingsService.testApiKey(provider, apiKey);
+      });
     });
 
     // Indexing operations
     ipcMain.handle('index:file', async (_, filePath: string, content: string) => {
-      return await this.indexerService.indexFile(filePath, content);
+      const fileIndex = await this.indexerService.indexFile(filePath, content);
+      // Changed files are embedded too, so chat can attach related code from them
+      if (fileIndex) {
+        await this.embeddingsService.embedFile(filePath, content, fileIndex.language);
+      }
     });
 
     ipcMain.handle('index:search', async (_, query: string) => {
@@ -255,16 +523,19 @@ class AIIDEApp {
     });
   }
 
-  private getEndpointForProvider(provider: string): string {
-    switch (provider) {
-      case 'anthropic':
-        return 'https://api.anthropic.com/v1/messages';
-      case 'openai':
-        return 'https://api.openai.com/v1/chat/completions';
-      case 'mistral':
-        return 'https://api.mistral.ai/v1/chat/completions';
-      default:
-        return '';
+  // Adds the indexed code most similar to the message as context.snippets, unless the renderer opted out
+  private async withRelatedCode(message: string, context: any): Promise<any> {
+    if (!context || context.relatedCode === false || context.snippets) return context;
+    const snippets = await this.embeddingsService.findRelatedSnippets(message, context.activeFile?.path);
+    return snippets.length > 0 ? { ...context, snippets } : context;
+  }
+
+  private async toResult<T>(operation: () => Promise<T>): Promise<AIResult<T>> {
+    try {
+      return { success: true, data: await operation() };
+    } catch (error) {
+      const aiError = await toAIError(error);
+      return { success: false, error: aiError.toInfo() };
     }
   }
 
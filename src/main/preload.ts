@@ -1,4 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import { AIResult, AIStreamEvent, BenchmarkProgress, BenchmarkReport, BenchmarkSummary, ComparisonResult, ModelLoadStatus, ModelPerformanceMetrics, OllamaModelInfo, OllamaPullProgress, OllamaRunningModel, OpenAICompatibleOptions, ProviderBudget, RequestQueueStats, ResponseCacheStats, RoutingPolicy, UsageSummary, WorkspacePolicy, ApiKeyStatus, SecretStorageStatus } from '../shared/types/ai';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -8,21 +9,77 @@ contextBridge.exposeInMainWorld('electronAPI', {
   writeFile: (filePath: string, content: string) => ipcRenderer.invoke('file:write', filePath, content),
   openFileDialog: () => ipcRenderer.invoke('file:open-dialog'),
   openFolderDialog: () => ipcRenderer.invoke('folder:open-dialog'),
+  setWorkspaceRoot: (rootPath: string) => ipcRenderer.invoke('workspace:set-root', rootPath),
 
   // AI operations
-  getCompletion: (prompt: string, context: any) => ipcRenderer.invoke('ai:completion', prompt, context),
-  chat: (message: string, context: any) => ipcRenderer.invoke('ai:chat', message, context),
-  getInlineCompletion: (code: string, position: any) => ipcRenderer.invoke('ai:inline-completion', code, position),
+  getCompletion: (prompt: string, context: any, requestId?: string) => ipcRenderer.invoke('ai:completion', prompt, context, requestId),
+  chat: (message: string, context: any, requestId?: string) => ipcRenderer.invoke('ai:chat', message, context, requestId),
+  getStructuredOutput: (message: string, schema: Record<string, any>, context: any, options?: { schemaName?: string; requestId?: string; maxTokens?: number }) =>
+    ipcRenderer.invoke('ai:structured-output', message, schema, context, options),
+  chatStream: (requestId: string, message: string, context: any) => ipcRenderer.invoke('ai:chat-stream', requestId, message, context),
+  onChatStreamEvent: (callback: (event: AIStreamEvent) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, event: AIStreamEvent) => callback(event);
+    ipcRenderer.on('ai:chat-stream-event', listener);
+    return () => {
+      ipcRenderer.removeListener('ai:chat-stream-event', listener);
+    };
+  },
+  compareChat: (requestId: string, message: string, context: any, modelIds: string[]) => ipcRenderer.invoke('ai:compare-chat', requestId, message, context, modelIds),
+  recordComparisonVote: (message: string, context: any, winnerModelId: string, modelIds: string[]) => ipcRenderer.invoke('ai:record-comparison-vote', message, context, winnerModelId, modelIds),
+  getPerformanceMetrics: () => ipcRenderer.invoke('ai:get-performance-metrics'),
+  runBenchmark: (runId: string, modelIds?: string[]) => ipcRenderer.invoke('ai:run-benchmark', runId, modelIds),
+  onBenchmarkProgress: (callback: (progress: BenchmarkProgress) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, progress: BenchmarkProgress) => callback(progress);
+    ipcRenderer.on('ai:benchmark-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('ai:benchmark-progress', listener);
+    };
+  },
+  getBenchmarks: () => ipcRenderer.invoke('ai:get-benchmarks'),
+  getInlineCompletion: (code: string, position: any, requestId?: string) => ipcRenderer.invoke('ai:inline-completion', code, position, requestId),
+  cancelRequest: (requestId: string) => ipcRenderer.invoke('ai:cancel', requestId),
 
   // Model management
   getModels: () => ipcRenderer.invoke('ai:get-models'),
+  refreshModels: () => ipcRenderer.invoke('ai:refresh-models'),
+  listOllamaModels: () => ipcRenderer.invoke('ai:list-ollama-models'),
+  listLoadedOllamaModels: () => ipcRenderer.invoke('ai:list-loaded-ollama-models'),
+  pullOllamaModel: (requestId: string, name: string) => ipcRenderer.invoke('ai:pull-ollama-model', requestId, name),
+  onOllamaPullProgress: (callback: (progress: OllamaPullProgress) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, progress: OllamaPullProgress) => callback(progress);
+    ipcRenderer.on('ai:ollama-pull-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('ai:ollama-pull-progress', listener);
+    };
+  },
+  deleteOllamaModel: (name: string) => ipcRenderer.invoke('ai:delete-ollama-model', name),
+  addCustomModel: (options: OpenAICompatibleOptions) => ipcRenderer.invoke('ai:add-custom-model', options),
+  removeCustomModel: (modelId: string) => ipcRenderer.invoke('ai:remove-custom-model', modelId),
   getCurrentModel: () => ipcRenderer.invoke('ai:get-current-model'),
+  getModelStatus: () => ipcRenderer.invoke('ai:get-model-status'),
+  getWorkspacePolicy: () => ipcRenderer.invoke('ai:get-workspace-policy'),
+  getFallbackChains: () => ipcRenderer.invoke('ai:get-fallback-chains'),
+  setFallbackChains: (chains: Record<string, string[]>) => ipcRenderer.invoke('ai:set-fallback-chains', chains),
+  getEmbeddingModel: () => ipcRenderer.invoke('ai:get-embedding-model'),
+  setEmbeddingModel: (modelId?: string) => ipcRenderer.invoke('ai:set-embedding-model', modelId),
+  getRoutingPolicy: () => ipcRenderer.invoke('ai:get-routing-policy'),
+  setRoutingPolicy: (policy: RoutingPolicy) => ipcRenderer.invoke('ai:set-routing-policy', policy),
+  getModelHealth: () => ipcRenderer.invoke('ai:get-model-health'),
+  getQueueStats: () => ipcRenderer.invoke('ai:get-queue-stats'),
+  getCacheStats: () => ipcRenderer.invoke('ai:get-cache-stats'),
+  clearCache: (modelId?: string) => ipcRenderer.invoke('ai:clear-cache', modelId),
+  getUsage: () => ipcRenderer.invoke('ai:get-usage'),
+  setBudgets: (budgets: ProviderBudget[]) => ipcRenderer.invoke('ai:set-budgets', budgets),
   switchModel: (modelId: string) => ipcRenderer.invoke('ai:switch-model', modelId),
 
   // Settings operations
   getSettings: () => ipcRenderer.invoke('settings:get'),
   updateApiKey: (provider: string, apiKey: string) => ipcRenderer.invoke('settings:update-api-key', provider, apiKey),
   testApiKey: (provider: string, apiKey: string) => ipcRenderer.invoke('settings:test-api-key', provider, apiKey),
+  removeApiKey: (provider: string) => ipcRenderer.invoke('settings:remove-api-key', provider),
+  getApiKeyStatus: () => ipcRenderer.invoke('settings:get-api-key-status'),
+  getSecretStorageStatus: () => ipcRenderer.invoke('settings:get-secret-storage-status'),
+  unlockSecrets: (passphrase: string) => ipcRenderer.invoke('settings:unlock-secrets', passphrase),
 
   // Indexing operations
   indexFile: (filePath: string, content: string) => ipcRenderer.invoke('index:file', filePath, content),
@@ -56,15 +113,52 @@ declare global {
       writeFile: (filePath: string, content: string) => Promise<void>;
       openFileDialog: () => Promise<Electron.OpenDialogReturnValue>;
       openFolderDialog: () => Promise<Electron.OpenDialogReturnValue>;
-      getCompletion: (prompt: string, context: any) => Promise<string>;
-      chat: (message: string, context: any) => Promise<string>;
-      getInlineCompletion: (code: string, position: any) => Promise<string>;
+      setWorkspaceRoot: (rootPath: string) => Promise<number>;
+      getCompletion: (prompt: string, context: any, requestId?: string) => Promise<AIResult<string>>;
+      chat: (message: string, context: any, requestId?: string) => Promise<AIResult<string>>;
+      getStructuredOutput: (message: string, schema: Record<string, any>, context: any, options?: { schemaName?: string; requestId?: string; maxTokens?: number }) => Promise<AIResult<any>>;
+      chatStream: (requestId: string, message: string, context: any) => Promise<AIResult<string>>;
+      onChatStreamEvent: (callback: (event: AIStreamEvent) => void) => () => void;
+      compareChat: (requestId: string, message: string, context: any, modelIds: string[]) => Promise<AIResult<ComparisonResult[]>>;
+      recordComparisonVote: (message: string, context: any, winnerModelId: string, modelIds: string[]) => Promise<void>;
+      getPerformanceMetrics: () => Promise<ModelPerformanceMetrics[]>;
+      runBenchmark: (runId: string, modelIds?: string[]) => Promise<AIResult<BenchmarkReport>>;
+      onBenchmarkProgress: (callback: (progress: BenchmarkProgress) => void) => () => void;
+      getBenchmarks: () => Promise<BenchmarkSummary[]>;
+      getInlineCompletion: (code: string, position: any, requestId?: string) => Promise<AIResult<string>>;
+      cancelRequest: (requestId: string) => Promise<boolean>;
       getModels: () => Promise<any[]>;
+      refreshModels: () => Promise<number>;
+      listOllamaModels: () => Promise<AIResult<OllamaModelInfo[]>>;
+      listLoadedOllamaModels: () => Promise<AIResult<OllamaRunningModel[]>>;
+      pullOllamaModel: (requestId: string, name: string) => Promise<AIResult<number>>;
+      onOllamaPullProgress: (callback: (progress: OllamaPullProgress) => void) => () => void;
+      deleteOllamaModel: (name: string) => Promise<AIResult<void>>;
+      addCustomModel: (options: OpenAICompatibleOptions) => Promise<boolean>;
+      removeCustomModel: (modelId: string) => Promise<void>;
       getCurrentModel: () => Promise<string | null>;
+      getModelStatus: () => Promise<ModelLoadStatus>;
+      getWorkspacePolicy: () => Promise<WorkspacePolicy>;
+      getFallbackChains: () => Promise<Record<string, string[]>>;
+      setFallbackChains: (chains: Record<string, string[]>) => Promise<void>;
+      getEmbeddingModel: () => Promise<{ selected?: string; active: string | null }>;
+      setEmbeddingModel: (modelId?: string) => Promise<void>;
+      getRoutingPolicy: () => Promise<RoutingPolicy>;
+      setRoutingPolicy: (policy: RoutingPolicy) => Promise<void>;
+      getModelHealth: () => Promise<any[]>;
+      getQueueStats: () => Promise<RequestQueueStats[]>;
+      getCacheStats: () => Promise<ResponseCacheStats | null>;
+      clearCache: (modelId?: string) => Promise<number>;
+      getUsage: () => Promise<UsageSummary | null>;
+      setBudgets: (budgets: ProviderBudget[]) => Promise<void>;
       switchModel: (modelId: string) => Promise<boolean>;
       getSettings: () => Promise<any>;
       updateApiKey: (provider: string, apiKey: string) => Promise<void>;
-      testApiKey: (provider: string, apiKey: string) => Promise<boolean>;
+      testApiKey: (provider: string, apiKey: string) => Promise<AIResult<boolean>>;
+      removeApiKey: (provider: string) => Promise<void>;
+      getApiKeyStatus: () => Promise<ApiKeyStatus[]>;
+      getSecretStorageStatus: () => Promise<SecretStorageStatus>;
+      unlockSecrets: (passphrase: string) => Promise<void>;
       indexFile: (filePath: string, content: string) => Promise<void>;
       searchIndex: (query: string) => Promise<any[]>;
       getDebugTransactions: () => Promise<any[]>;
@@ -1,11 +1,13 @@
 import { Database } from 'sqlite3';
-import axios from 'axios';
+import { AIModelManager } from '../ai/AIModelManager';
 
 export interface CodeEmbedding {
   id: string;
   filePath: string;
   content: string;
   embedding: number[];
+  // Id of the model that produced the vector; only vectors of the same model are compared
+  model: string;
   language: string;
   symbolType?: string;
   startLine: number;
@@ -13,6 +15,8 @@ export interface CodeEmbedding {
   createdAt: number;
 }
 
+export type CodeChunk = Omit<CodeEmbedding, 'embedding' | 'model' | 'createdAt'>;
+
 export interface SemanticSearchResult {
   id: string;
   filePath: string;
@@ -23,13 +27,14 @@ export interface SemanticSearchResult {
   endLine: number;
 }
 
+// Files are embedded in windows of this many lines
+const FILE_CHUNK_LINES = 40;
+
 export class EmbeddingsService {
   private db!: Database;
   private isInitialized = false;
-  private embeddingModel = 'all-MiniLM-L6-v2'; // Local embedding model
-  private embeddingDimensions = 384;
 
-  constructor() {
+  constructor(private aiModelManager: AIModelManager) {
     this.initializeDatabase();
   }
 
@@ -43,6 +48,7 @@ export class EmbeddingsService {
           file_path TEXT,
           content TEXT,
           embedding BLOB,
+          model TEXT,
           language TEXT,
           symbol_type TEXT,
           start_line INTEGER,
@@ -54,59 +60,32 @@ export class EmbeddingsService {
       // Create indexes
       this.db.run('CREATE INDEX IF NOT EXISTS idx_embeddings_file ON embeddings(file_path)');
       this.db.run('CREATE INDEX IF NOT EXISTS idx_embeddings_language ON embeddings(language)');
+      this.db.run('CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model)');
     });
   }
 
+  // Call after the AI models are initialized so the embedding model can be reported
   async initialize(): Promise<void> {
-    try {
-      // Check if local embedding service is available (e.g., sentence-transformers via HTTP)
-      // For now, we'll use a simple placeholder
-      this.isInitialized = true;
-      console.log('Embeddings service initialized');
-    } catch (error) {
-      console.warn('Embeddings service initialization failed:', error);
+    this.isInitialized = true;
+    const modelId = this.aiModelManager.getEmbeddingModelId();
+    if (modelId) {
+      console.log(`Embeddings service initialized with ${modelId}`);
+    } else {
+      console.warn('⚠️ Embeddings service initialized without an embedding model; semantic search is unavailable');
     }
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string): Promise<{ embedding: number[]; model: string }> {
+    const response = await this.generateEmbeddings([text]);
+    return { embedding: response.embeddings[0], model: response.model };
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; model: string }> {
     if (!this.isInitialized) {
       throw new Error('Embeddings service not initialized');
     }
 
-    try {
-      // Try to use local embedding service first
-      const response = await axios.post('http://localhost:8000/embed', {
-        text: text,
-        model: this.embeddingModel
-      });
-
-      return response.data.embedding;
-    } catch (error) {
-      // Fallback to simple hash-based "embedding" for development
-      console.warn('Local embedding service not available, using fallback');
-      return this.generateSimpleEmbedding(text);
-    }
-  }
-
-  private generateSimpleEmbedding(text: string): number[] {
-    // Simple hash-based embedding for development/testing
-    // In production, this should use a proper embedding model
-    const embedding = new Array(this.embeddingDimensions).fill(0);
-    
-    for (let i = 0; i < text.length && i < embedding.length; i++) {
-      const charCode = text.charCodeAt(i);
-      embedding[i % embedding.length] += charCode;
-    }
-
-    // Normalize the embedding
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    if (magnitude > 0) {
-      for (let i = 0; i < embedding.length; i++) {
-        embedding[i] /= magnitude;
-      }
-    }
-
-    return embedding;
+    return this.aiModelManager.embed(texts);
   }
 
   async embedCode(
@@ -118,33 +97,68 @@ export class EmbeddingsService {
     startLine: number = 1,
     endLine: number = 1
   ): Promise<void> {
+    await this.embedChunks([{ id, filePath, content, language, symbolType, startLine, endLine }]);
+  }
+
+  // Embeds many chunks (e.g. every symbol of a file) with batched model requests
+  async embedChunks(chunks: CodeChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
     try {
-      const embedding = await this.generateEmbedding(content);
-      
-      await this.storeEmbedding({
-        id,
+      const { embeddings, model } = await this.generateEmbeddings(chunks.map(chunk => chunk.content));
+      const createdAt = Date.now();
+
+      for (let i = 0; i < chunks.length; i++) {
+        await this.storeEmbedding({ ...chunks[i], embedding: embeddings[i], model, createdAt });
+      }
+
+      console.log(`Generated ${chunks.length} embeddings for ${chunks[0].filePath} with ${model}`);
+    } catch (error) {
+      console.error(`Failed to embed code from ${chunks[0].filePath}:`, error);
+    }
+  }
+
+  // Replaces the file's embeddings with one per window of lines; a no-op without an embedding model
+  async embedFile(filePath: string, content: string, language: string): Promise<void> {
+    if (!this.aiModelManager.getEmbeddingModelId()) return;
+
+    const lines = content.split('\n');
+    const chunks: CodeChunk[] = [];
+    for (let start = 0; start < lines.length; start += FILE_CHUNK_LINES) {
+      const chunkContent = lines.slice(start, start + FILE_CHUNK_LINES).join('\n');
+      if (!chunkContent.trim()) continue;
+      chunks.push({
+        id: `${filePath}:${start + 1}`,
         filePath,
-        content,
-        embedding,
+        content: chunkContent,
         language,
-        symbolType,
-        startLine,
-        endLine,
-        createdAt: Date.now()
+        startLine: start + 1,
+        endLine: Math.min(start + FILE_CHUNK_LINES, lines.length)
       });
-
-      console.log(`Generated embedding for ${filePath}:${startLine}-${endLine}`);
-    } catch (error) {
-      console.error(`Failed to embed code from ${filePath}:`, error);
     }
+
+    await this.removeEmbeddingsForFile(filePath);
+    await this.embedChunks(chunks);
+  }
+
+  // Code from other files that is most similar to the query, shaped for a chat request's context.snippets
+  async findRelatedSnippets(query: string, excludeFilePath?: string, limit: number = 3): Promise<Array<{ path: string; content: string }>> {
+    if (!this.isInitialized || !this.aiModelManager.getEmbeddingModelId()) return [];
+
+    // Over-fetch so that leaving out the open file's own chunks still fills the limit
+    const results = await this.semanticSearch(query, limit * 5);
+    return results
+      .filter(result => result.filePath !== excludeFilePath)
+      .slice(0, limit)
+      .map(result => ({ path: `${result.filePath}:${result.startLine}-${result.endLine}`, content: result.content }));
   }
 
   async semanticSearch(query: string, limit: number = 10): Promise<SemanticSearchResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbedding(query);
+      const { embedding: queryEmbedding, model } = await this.generateEmbedding(query);
       
       return new Promise((resolve, reject) => {
-        this.db.all('SELECT * FROM embeddings', [], (err, rows: any[]) => {
+        this.db.all('SELECT * FROM embeddings WHERE model = ?', [model], (err, rows: any[]) => {
           if (err) {
             reject(err);
             return;
@@ -186,15 +200,16 @@ export class EmbeddingsService {
   ): Promise<SemanticSearchResult[]> {
     try {
       // Get the embedding for the specified code block
-      const targetEmbedding = await this.getEmbeddingByLocation(filePath, startLine, endLine);
-      if (!targetEmbedding) {
+      const target = await this.getEmbeddingByLocation(filePath, startLine, endLine);
+      if (!target) {
         return [];
       }
+      const targetEmbedding = target.embedding;
 
       return new Promise((resolve, reject) => {
         this.db.all(
-          'SELECT * FROM embeddings WHERE file_path != ? OR start_line != ? OR end_line != ?',
-          [filePath, startLine, endLine],
+          'SELECT * FROM embeddings WHERE model = ? AND (file_path != ? OR start_line != ? OR end_line != ?)',
+          [target.model, filePath, startLine, endLine],
           (err, rows: any[]) => {
             if (err) {
               reject(err);
@@ -236,10 +251,10 @@ export class EmbeddingsService {
     filePath: string,
     startLine: number,
     endLine: number
-  ): Promise<number[] | null> {
+  ): Promise<{ embedding: number[]; model: string } | null> {
     return new Promise((resolve, reject) => {
       this.db.get(
-        'SELECT embedding FROM embeddings WHERE file_path = ? AND start_line = ? AND end_line = ?',
+        'SELECT embedding, model FROM embeddings WHERE file_path = ? AND start_line = ? AND end_line = ?',
         [filePath, startLine, endLine],
         (err, row: any) => {
           if (err) {
@@ -252,7 +267,7 @@ export class EmbeddingsService {
             return;
           }
 
-          resolve(this.deserializeEmbedding(row.embedding));
+          resolve({ embedding: this.deserializeEmbedding(row.embedding), model: row.model });
         }
       );
     });
@@ -264,13 +279,14 @@ export class EmbeddingsService {
       
       this.db.run(
         `INSERT OR REPLACE INTO embeddings 
-         (id, file_path, content, embedding, language, symbol_type, start_line, end_line, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         (id, file_path, content, embedding, model, language, symbol_type, start_line, end_line, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           codeEmbedding.id,
           codeEmbedding.filePath,
           codeEmbedding.content,
           embeddingBlob,
+          codeEmbedding.model,
           codeEmbedding.language,
           codeEmbedding.symbolType,
           codeEmbedding.startLine,
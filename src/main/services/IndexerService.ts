@@ -71,7 +71,8 @@ export class IndexerService {
     this.isInitialized = true;
   }
 
-  async indexFile(filePath: string, content: string): Promise<void> {
+  // Returns the new index, or null when the file is unchanged or could not be indexed
+  async indexFile(filePath: string, content: string): Promise<FileIndex | null> {
     if (!this.isInitialized) {
       throw new Error('IndexerService not initialized');
     }
@@ -84,25 +85,28 @@ export class IndexerService {
       // Check if file has changed
       const existingIndex = await this.getFileIndex(filePath);
       if (existingIndex && existingIndex.hash === hash) {
-        return; // File hasn't changed, skip indexing
+        return null; // File hasn't changed, skip indexing
       }
 
       // Parse the file and extract symbols
       const symbols = await this.extractSymbols(filePath, content, language);
 
       // Store in database
-      await this.storeFileIndex({
+      const fileIndex: FileIndex = {
         filePath,
         content,
         symbols,
         lastModified,
         language,
         hash
-      });
+      };
+      await this.storeFileIndex(fileIndex);
 
       console.log(`Indexed file: ${filePath} (${symbols.length} symbols)`);
+      return fileIndex;
     } catch (error) {
       console.error(`Failed to index file ${filePath}:`, error);
+      return null;
     }
   }
 
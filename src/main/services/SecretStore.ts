@@ -0,0 +1,127 @@
+import { safeStorage } from 'electron';
+import * as crypto from 'crypto';
+import { SecretScheme } from '../../shared/types/ai';
+
+// One encrypted value as written to the settings file; every field is base64
+export interface EncryptedSecret {
+  scheme: SecretScheme;
+  data: string;
+  // Passphrase scheme only
+  salt?: string;
+  iv?: string;
+  tag?: string;
+}
+
+export const SECRETS_PASSPHRASE_ENV = 'AI_IDE_SECRETS_PASSPHRASE';
+
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Encrypts secrets with the OS keyring through Electron safeStorage. Where there is no
+// keyring (Linux without libsecret/kwallet, where safeStorage would fall back to a fixed
+// password) it uses AES-256-GCM with a key derived from the user's passphrase by scrypt.
+export class SecretStore {
+  private passphrase: string | null = process.env[SECRETS_PASSPHRASE_ENV] || null;
+  // scrypt is slow by design and runs on the thread pool; each salt is derived once per session
+  private derivedKeys: Map<string, Promise<Buffer>> = new Map();
+  // New secrets reuse the salt of a key already derived this session, so saving costs no derivation
+  private sessionSalt: Buffer | null = null;
+
+  // With a secret to check against, a wrong passphrase is refused and the current one kept
+  async setPassphrase(passphrase: string | null, check?: EncryptedSecret): Promise<void> {
+    const previous = { passphrase: this.passphrase, derivedKeys: this.derivedKeys, sessionSalt: this.sessionSalt };
+    this.passphrase = passphrase || null;
+    this.derivedKeys = new Map();
+    this.sessionSalt = null;
+
+    if (check) {
+      try {
+        await this.decrypt(check);
+      } catch (error) {
+        this.passphrase = previous.passphrase;
+        this.derivedKeys = previous.derivedKeys;
+        this.sessionSalt = previous.sessionSalt;
+        throw new Error('Incorrect passphrase');
+      }
+    }
+  }
+
+  isKeyringAvailable(): boolean {
+    try {
+      if (!safeStorage.isEncryptionAvailable()) return false;
+      return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // The scheme new secrets are written with; null when neither is usable yet
+  getScheme(): SecretScheme | null {
+    if (this.isKeyringAvailable()) return 'safe-storage';
+    if (this.passphrase) return 'passphrase';
+    return null;
+  }
+
+  canDecrypt(secret: EncryptedSecret): boolean {
+    return secret.scheme === 'safe-storage' ? this.isKeyringAvailable() : !!this.passphrase;
+  }
+
+  async encrypt(value: string): Promise<EncryptedSecret> {
+    const scheme = this.getScheme();
+    if (scheme === 'safe-storage') {
+      return { scheme, data: safeStorage.encryptString(value).toString('base64') };
+    }
+    if (scheme === 'passphrase') {
+      const salt = this.sessionSalt || crypto.randomBytes(16);
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', await this.deriveKey(salt), iv);
+      const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+      return {
+        scheme,
+        data: data.toString('base64'),
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64')
+      };
+    }
+    throw new Error('No OS keyring is available. Set a passphrase to store API keys.');
+  }
+
+  // Throws when the scheme is unavailable or the passphrase is wrong (GCM authentication fails)
+  async decrypt(secret: EncryptedSecret): Promise<string> {
+    if (secret.scheme === 'safe-storage') {
+      if (!this.isKeyringAvailable()) {
+        throw new Error('The OS keyring that encrypted this secret is not available');
+      }
+      return safeStorage.decryptString(Buffer.from(secret.data, 'base64'));
+    }
+
+    if (!this.passphrase) {
+      throw new Error('A passphrase is required to decrypt this secret');
+    }
+    const key = await this.deriveKey(Buffer.from(secret.salt!, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv!, 'base64'));
+    decipher.setAuthTag(Buffer.from(secret.tag!, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(secret.data, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  private deriveKey(salt: Buffer): Promise<Buffer> {
+    const cacheKey = salt.toString('base64');
+    let key = this.derivedKeys.get(cacheKey);
+    if (!key) {
+      const passphrase = this.passphrase!;
+      const derivation = new Promise<Buffer>((resolve, reject) => {
+        crypto.scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, derived) => error ? reject(error) : resolve(derived));
+      });
+      // A failed derivation is not cached, so the next call tries again
+      derivation.catch(() => {
+        if (this.derivedKeys.get(cacheKey) === derivation) this.derivedKeys.delete(cacheKey);
+        if (this.sessionSalt === salt) this.sessionSalt = null;
+      });
+      this.derivedKeys.set(cacheKey, derivation);
+      this.sessionSalt = this.sessionSalt || salt;
+      key = derivation;
+    }
+    return key;
+  }
+}
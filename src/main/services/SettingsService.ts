@@ -1,6 +1,10 @@
 import { app } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { CredentialProviderId, ModelConfig, ProviderBudget, RoutingMode, RoutingRule, SecretStorageStatus } from '../../shared/types/ai';
+import { CREDENTIAL_PROVIDERS } from '../ai/CredentialProvider';
+import { toAIError } from '../ai/errors';
+import { EncryptedSecret, SecretStore } from './SecretStore';
 
 export interface AISettings {
   apiKeys: {
@@ -13,13 +17,64 @@ export interface AISettings {
     preferLocal: boolean;
     maxTokens: number;
     temperature: number;
+    // Ordered fallback model ids per task (chat, code-completion, inline-completion)
+    fallbackChains: Record<string, string[]>;
+    routing: {
+      mode: RoutingMode;
+      rules: RoutingRule[];
+    };
+    budgets: ProviderBudget[];
+    // Model id used for semantic search; unset picks the first available embedding model
+    embeddingModel?: string;
   };
-  modelConfigs: Record<string, any>;
+  // User-defined models (e.g. OpenAI-compatible servers), keyed by model id
+  modelConfigs: Record<string, ModelConfig>;
+}
+
+// The settings file: keys and custom model headers are only written encrypted, under `secrets`
+interface StoredSettings extends Omit<AISettings, 'apiKeys'> {
+  // Plaintext keys from older versions, kept until they can be encrypted
+  apiKeys?: AISettings['apiKeys'];
+  secrets?: Record<string, EncryptedSecret>;
+}
+
+// Settings as the renderer sees them: whether a key is saved, never the key itself
+export interface PublicSettings extends Omit<AISettings, 'apiKeys'> {
+  apiKeys: Partial<Record<CredentialProviderId, boolean>>;
 }
 
+// Secret ids: "provider:anthropic" for provider keys, "model:<id>" for custom model keys and
+// "headers:<id>" for a custom model's request headers (JSON), which often carry credentials too
+type SecretKind = 'provider' | 'model' | 'headers';
+const providerSecretId = (provider: CredentialProviderId) => `provider:${provider}`;
+const modelSecretId = (modelId: string) => `model:${modelId}`;
+const headersSecretId = (modelId: string) => `headers:${modelId}`;
+const splitSecretId = (id: string): [SecretKind, string] => {
+  const separator = id.indexOf(':');
+  return [id.slice(0, separator) as SecretKind, id.slice(separator + 1)];
+};
+
+const hasHeaders = (config?: ModelConfig): boolean => Object.keys(config?.parameters?.headers || {}).length > 0;
+const withHeaders = (config: ModelConfig, headers: Record<string, string>): ModelConfig =>
+  ({ ...config, parameters: { ...config.parameters, headers } });
+
+// Without the API key and request headers
+const withoutSecrets = ({ apiKey: _apiKey, ...config }: ModelConfig): ModelConfig => {
+  if (!config.parameters?.headers) return config;
+  const { headers: _headers, ...parameters } = config.parameters;
+  return { ...config, parameters };
+};
+
+const withoutModelSecrets = (configs: Record<string, ModelConfig>): Record<string, ModelConfig> =>
+  Object.fromEntries(Object.entries(configs).map(([id, config]) => [id, withoutSecrets(config)]));
+
 export class SettingsService {
   private settingsPath: string;
+  // Decrypted keys live only here, in memory
   private settings: AISettings;
+  private secretStore = new SecretStore();
+  // Encrypted keys by secret id; ones that cannot be decrypted yet are saved back unchanged
+  private secrets: Record<string, EncryptedSecret> = {};
 
   constructor() {
     this.settingsPath = path.join(app.getPath('userData'), 'ai-ide-settings.json');
@@ -33,7 +88,13 @@ export class SettingsService {
         primaryModel: 'codellama-7b-instruct',
         preferLocal: true,
         maxTokens: 1024,
-        temperature: 0.3
+        temperature: 0.3,
+        fallbackChains: {},
+        routing: {
+          mode: 'pinned',
+          rules: []
+        },
+        budgets: []
       },
       modelConfigs: {}
     };
@@ -52,10 +113,30 @@ export class SettingsService {
   async loadSettings(): Promise<void> {
     try {
       const data = await fs.readFile(this.settingsPath, 'utf-8');
-      this.settings = { ...this.getDefaultSettings(), ...JSON.parse(data) };
+      const defaults = this.getDefaultSettings();
+      const { secrets = {}, apiKeys = {}, ...stored }: StoredSettings = JSON.parse(data);
+      this.secrets = secrets;
+      this.settings = {
+        ...defaults,
+        ...stored,
+        apiKeys: { ...apiKeys },
+        preferences: { ...defaults.preferences, ...stored.preferences },
+        modelConfigs: { ...stored.modelConfigs }
+      };
     } catch (error) {
       // File doesn't exist or is corrupted, use defaults
       this.settings = this.getDefaultSettings();
+      this.secrets = {};
+      return;
+    }
+
+    await this.decryptSecrets();
+    const locked = this.getLockedSecretIds().length;
+    if (locked > 0) {
+      console.warn(`🔐 ${locked} saved API key(s) stay locked until the passphrase is entered`);
+    }
+    if (await this.encryptPlaintextKeys() > 0) {
+      await this.saveSettings();
     }
   }
 
@@ -65,7 +146,7 @@ export class SettingsService {
       const dir = path.dirname(this.settingsPath);
       await fs.mkdir(dir, { recursive: true });
       
-      await fs.writeFile(this.settingsPath, JSON.stringify(this.settings, null, 2));
+      await fs.writeFile(this.settingsPath, JSON.stringify(this.toStoredSettings(), null, 2));
       console.log('✅ Settings saved');
     } catch (error) {
       console.error('❌ Failed to save settings:', error);
@@ -73,22 +154,66 @@ export class SettingsService {
     }
   }
 
+  // Main process only: includes decrypted API keys
   getSettings(): AISettings {
     return { ...this.settings };
   }
 
-  async updateApiKey(provider: 'anthropic' | 'openai' | 'mistral', apiKey: string): Promise<void> {
+  // Safe to send to the renderer
+  getPublicSettings(): PublicSettings {
+    const { apiKeys, modelConfigs, ...settings } = this.settings;
+    return {
+      ...settings,
+      apiKeys: Object.fromEntries(CREDENTIAL_PROVIDERS.map(provider => [
+        provider,
+        !!apiKeys[provider] || !!this.secrets[providerSecretId(provider)]
+      ])),
+      modelConfigs: withoutModelSecrets(modelConfigs)
+    };
+  }
+
+  getApiKey(provider: CredentialProviderId): string | undefined {
+    return this.settings.apiKeys[provider];
+  }
+
+  // Throws when there is no keyring and no passphrase to encrypt the key with
+  async updateApiKey(provider: CredentialProviderId, apiKey: string): Promise<void> {
+    this.secrets[providerSecretId(provider)] = await this.secretStore.encrypt(apiKey);
     this.settings.apiKeys[provider] = apiKey;
     await this.saveSettings();
   }
 
-  async removeApiKey(provider: 'anthropic' | 'openai' | 'mistral'): Promise<void> {
+  async removeApiKey(provider: CredentialProviderId): Promise<void> {
+    delete this.secrets[providerSecretId(provider)];
     delete this.settings.apiKeys[provider];
     await this.saveSettings();
   }
 
-  getApiKey(provider: 'anthropic' | 'openai' | 'mistral'): string | undefined {
-    return this.settings.apiKeys[provider] || process.env[`${provider.toUpperCase()}_API_KEY`];
+  getSecretStorageStatus(): SecretStorageStatus {
+    return {
+      scheme: this.secretStore.getScheme(),
+      keyringAvailable: this.secretStore.isKeyringAvailable(),
+      lockedSecrets: this.getLockedSecretIds().length
+    };
+  }
+
+  // Sets the passphrase used where there is no OS keyring, decrypting the keys saved with it
+  // and encrypting any still in plaintext. Returns what was unlocked so its models can reload.
+  async unlockSecrets(passphrase: string): Promise<{ providers: CredentialProviderId[]; modelIds: string[] }> {
+    const check = Object.values(this.secrets).find(secret => secret.scheme === 'passphrase');
+    await this.secretStore.setPassphrase(passphrase, check);
+
+    const unlocked = await this.decryptSecrets();
+    if (await this.encryptPlaintextKeys() > 0) {
+      await this.saveSettings();
+    }
+    console.log(`🔐 Unlocked ${unlocked.length} saved API key(s)`);
+
+    return {
+      providers: CREDENTIAL_PROVIDERS.filter(provider => unlocked.includes(providerSecretId(provider))),
+      modelIds: Object.keys(this.settings.modelConfigs)
+        .filter(modelId => unlocked.includes(modelSecretId(modelId)) || unlocked.includes(headersSecretId(modelId)))
+    };
   }
 
   async updatePreferences(preferences: Partial<AISettings['preferences']>): Promise<void> {
@@ -105,7 +230,34 @@ export class SettingsService {
     return this.settings.preferences.primaryModel;
   }
 
-  async testApiKey(provider: 'anthropic' | 'openai' | 'mistral', apiKey: string): Promise<boolean> {
+  getModelConfigs(): ModelConfig[] {
+    return Object.values(this.settings.modelConfigs);
+  }
+
+  async saveModelConfig(config: ModelConfig): Promise<void> {
+    if (config.apiKey) {
+      this.secrets[modelSecretId(config.id)] = await this.secretStore.encrypt(config.apiKey);
+    } else {
+      delete this.secrets[modelSecretId(config.id)];
+    }
+    if (hasHeaders(config)) {
+      this.secrets[headersSecretId(config.id)] = await this.secretStore.encrypt(JSON.stringify(config.parameters!.headers));
+    } else {
+      delete this.secrets[headersSecretId(config.id)];
+    }
+    this.settings.modelConfigs = { ...this.settings.modelConfigs, [config.id]: config };
+    await this.saveSettings();
+  }
+
+  async removeModelConfig(modelId: string): Promise<void> {
+    delete this.secrets[modelSecretId(modelId)];
+    delete this.secrets[headersSecretId(modelId)];
+    const { [modelId]: _removed, ...remaining } = this.settings.modelConfigs;
+    this.settings.modelConfigs = remaining;
+    await this.saveSettings();
+  }
+
+  async testApiKey(provider: CredentialProviderId, apiKey: string): Promise<boolean> {
     try {
       const axios = require('axios');
       
@@ -120,7 +272,7 @@ export class SettingsService {
             },
             {
               headers: {
-                'Authorization': `Bearer ${apiKey}`,
+                'x-api-key': apiKey,
                 'Content-Type': 'application/json',
                 'anthropic-version': '2023-06-01'
               },
@@ -169,22 +321,150 @@ export class SettingsService {
           return false;
       }
     } catch (error) {
-      console.warn(`API key test failed for ${provider}:`, error.message);
-      return false;
+      const aiError = await toAIError(error);
+      console.warn(`API key test failed for ${provider} [${aiError.code}]:`, aiError.message);
+      throw aiError;
     }
   }
 
-  async exportSettings(): Promise<string> {
-    return JSON.stringify(this.settings, null, 2);
+  // Secret-free unless asked; included keys are written in plaintext
+  async exportSettings(options: { includeSecrets?: boolean } = {}): Promise<string> {
+    if (options.includeSecrets) {
+      return JSON.stringify(this.settings, null, 2);
+    }
+    const { apiKeys: _apiKeys, modelConfigs, ...settings } = this.settings;
+    return JSON.stringify({ ...settings, modelConfigs: withoutModelSecrets(modelConfigs) }, null, 2);
   }
 
+  // Keys and headers already saved here are kept unless the import brings its own; encrypted secrets
+  // from another machine are ignored, as they can only be decrypted there
   async importSettings(settingsJson: string): Promise<void> {
+    let imported: StoredSettings;
     try {
-      const importedSettings = JSON.parse(settingsJson);
-      this.settings = { ...this.getDefaultSettings(), ...importedSettings };
-      await this.saveSettings();
+      imported = JSON.parse(settingsJson);
     } catch (error) {
       throw new Error('Invalid settings format');
     }
+
+    const { secrets: _secrets, apiKeys = {}, ...settings } = imported;
+    const defaults = this.getDefaultSettings();
+    const current = this.settings;
+    const modelConfigs: Record<string, ModelConfig> = Object.fromEntries(Object.entries(settings.modelConfigs || {}).map(([id, config]) => {
+      const saved = current.modelConfigs[id];
+      const merged = config.apiKey || !saved?.apiKey ? config : { ...config, apiKey: saved.apiKey };
+      return [id, hasHeaders(merged) || !hasHeaders(saved) ? merged : withHeaders(merged, saved.parameters!.headers)];
+    }));
+
+    // Model keys and headers that were removed or replaced by the import
+    for (const id of Object.keys(this.secrets)) {
+      const [kind, modelId] = splitSecretId(id);
+      const imported = modelConfigs[modelId];
+      const saved = current.modelConfigs[modelId];
+      if (kind === 'model' && (!imported || imported.apiKey !== saved?.apiKey)) {
+        delete this.secrets[id];
+      }
+      if (kind === 'headers' && (!imported || JSON.stringify(imported.parameters?.headers) !== JSON.stringify(saved?.parameters?.headers))) {
+        delete this.secrets[id];
+      }
+    }
+    for (const provider of Object.keys(apiKeys) as CredentialProviderId[]) {
+      delete this.secrets[providerSecretId(provider)];
+    }
+
+    this.settings = {
+      ...defaults,
+      ...settings,
+      apiKeys: { ...current.apiKeys, ...apiKeys },
+      preferences: { ...defaults.preferences, ...settings.preferences },
+      modelConfigs
+    };
+    await this.encryptPlaintextKeys();
+    await this.saveSettings();
+  }
+
+  // Decrypts the secrets that are still locked; returns the ids now available
+  private async decryptSecrets(): Promise<string[]> {
+    const unlocked: string[] = [];
+    for (const id of this.getLockedSecretIds()) {
+      const secret = this.secrets[id];
+      if (!this.secretStore.canDecrypt(secret)) {
+        continue;
+      }
+
+      try {
+        const value = await this.secretStore.decrypt(secret);
+        const [kind, name] = splitSecretId(id);
+        if (kind === 'provider') {
+          this.settings.apiKeys[name as CredentialProviderId] = value;
+        } else if (kind === 'headers') {
+          if (this.settings.modelConfigs[name]) {
+            this.settings.modelConfigs[name] = withHeaders(this.settings.modelConfigs[name], JSON.parse(value));
+          }
+        } else if (this.settings.modelConfigs[name]) {
+          this.settings.modelConfigs[name] = { ...this.settings.modelConfigs[name], apiKey: value };
+        }
+        unlocked.push(id);
+      } catch (error) {
+        console.warn(`⚠️ Could not decrypt saved API key ${id}:`, error.message);
+      }
+    }
+    return unlocked;
+  }
+
+  private getLockedSecretIds(): string[] {
+    return Object.keys(this.secrets).filter(id => {
+      const [kind, name] = splitSecretId(id);
+      if (kind === 'provider') return !this.settings.apiKeys[name as CredentialProviderId];
+      if (kind === 'headers') return !hasHeaders(this.settings.modelConfigs[name]);
+      return !this.settings.modelConfigs[name]?.apiKey;
+    });
+  }
+
+  // Keys and headers in plaintext (older settings files, imports) are encrypted once a scheme
+  // is available; until then they stay as they were rather than being lost
+  private async encryptPlaintextKeys(): Promise<number> {
+    const plaintext: Array<[string, string]> = [
+      ...CREDENTIAL_PROVIDERS
+        .filter(provider => this.settings.apiKeys[provider] && !this.secrets[providerSecretId(provider)])
+        .map(provider => [providerSecretId(provider), this.settings.apiKeys[provider]!] as [string, string]),
+      ...Object.values(this.settings.modelConfigs)
+        .filter(config => config.apiKey && !this.secrets[modelSecretId(config.id)])
+        .map(config => [modelSecretId(config.id), config.apiKey!] as [string, string]),
+      ...Object.values(this.settings.modelConfigs)
+        .filter(config => hasHeaders(config) && !this.secrets[headersSecretId(config.id)])
+        .map(config => [headersSecretId(config.id), JSON.stringify(config.parameters!.headers)] as [string, string])
+    ];
+    if (plaintext.length === 0) {
+      return 0;
+    }
+    if (!this.secretStore.getScheme()) {
+      console.warn(`⚠️ ${plaintext.length} API key(s) are stored in plaintext: no OS keyring is available and no passphrase is set`);
+      return 0;
+    }
+
+    for (const [id, value] of plaintext) {
+      this.secrets[id] = await this.secretStore.encrypt(value);
+    }
+    console.log(`🔐 Encrypted ${plaintext.length} plaintext API key(s) with ${this.secretStore.getScheme()}`);
+    return plaintext.length;
+  }
+
+  // Keys and headers that have an encrypted copy are left out; plaintext ones are only written until they can be encrypted
+  private toStoredSettings(): StoredSettings {
+    const { apiKeys, modelConfigs, ...settings } = this.settings;
+    const plaintextKeys = Object.fromEntries(Object.entries(apiKeys)
+      .filter(([provider, value]) => value && !this.secrets[providerSecretId(provider as CredentialProviderId)]));
+
+    return {
+      ...settings,
+      ...(Object.keys(plaintextKeys).length > 0 ? { apiKeys: plaintextKeys } : {}),
+      modelConfigs: Object.fromEntries(Object.entries(modelConfigs).map(([id, config]) => {
+        let stored = withoutSecrets(config);
+        if (config.apiKey && !this.secrets[modelSecretId(id)]) stored = { ...stored, apiKey: config.apiKey };
+        if (hasHeaders(config) && !this.secrets[headersSecretId(id)]) stored = withHeaders(stored, config.parameters!.headers);
+        return [id, stored];
+      })),
+      secrets: this.secrets
+    };
   }
 }
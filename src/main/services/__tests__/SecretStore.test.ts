@@ -0,0 +1,127 @@
+import * as crypto from 'crypto';
+import { safeStorage } from 'electron';
+import { SecretStore } from '../SecretStore';
+
+jest.mock('electron', () => ({
+  safeStorage: {
+    isEncryptionAvailable: jest.fn(),
+    getSelectedStorageBackend: jest.fn(),
+    encryptString: jest.fn((value: string) => Buffer.from(`enc:${value}`)),
+    decryptString: jest.fn((data: Buffer) => data.toString().replace(/^enc:/, ''))
+  }
+}));
+
+// Wrapped so the tests can count key derivations
+jest.mock('crypto', () => {
+  const actual = jest.requireActual('crypto');
+  return { ...actual, scrypt: jest.fn(actual.scrypt) };
+});
+
+const keyring = safeStorage as jest.Mocked<typeof safeStorage>;
+
+describe('SecretStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.AI_IDE_SECRETS_PASSPHRASE;
+  });
+
+  describe('with an OS keyring', () => {
+    beforeEach(() => {
+      keyring.isEncryptionAvailable.mockReturnValue(true);
+      keyring.getSelectedStorageBackend.mockReturnValue('gnome_libsecret');
+    });
+
+    it('encrypts with safeStorage', async () => {
+      const store = new SecretStore();
+      const secret = await store.encrypt('sk-test');
+
+      expect(secret).toEqual({ scheme: 'safe-storage', data: Buffer.from('enc:sk-test').toString('base64') });
+      expect(await store.decrypt(secret)).toBe('sk-test');
+    });
+
+    it('does not trust the basic_text backend on Linux', () => {
+      keyring.getSelectedStorageBackend.mockReturnValue('basic_text');
+      const store = new SecretStore();
+
+      expect(store.isKeyringAvailable()).toBe(process.platform !== 'linux');
+    });
+  });
+
+  describe('without an OS keyring', () => {
+    beforeEach(() => {
+      keyring.isEncryptionAvailable.mockReturnValue(false);
+    });
+
+    it('refuses to store secrets until a passphrase is set', async () => {
+      const store = new SecretStore();
+
+      expect(store.getScheme()).toBeNull();
+      await expect(store.encrypt('sk-test')).rejects.toThrow(/passphrase/);
+    });
+
+    it('round-trips secrets with the passphrase and never stores them in plain text', async () => {
+      const store = new SecretStore();
+      await store.setPassphrase('correct horse');
+      const secret = await store.encrypt('sk-test');
+
+      expect(secret.scheme).toBe('passphrase');
+      expect(Buffer.from(secret.data, 'base64').toString()).not.toContain('sk-test');
+      expect(await store.decrypt(secret)).toBe('sk-test');
+      expect(keyring.encryptString).not.toHaveBeenCalled();
+    });
+
+    it('derives the key once per session', async () => {
+      const store = new SecretStore();
+      await store.setPassphrase('correct horse');
+
+      const secrets = [await store.encrypt('a'), await store.encrypt('b'), await store.encrypt('c')];
+      await Promise.all(secrets.map(secret => store.decrypt(secret)));
+
+      expect(new Set(secrets.map(secret => secret.salt)).size).toBe(1);
+      expect(new Set(secrets.map(secret => secret.iv)).size).toBe(3);
+      expect(crypto.scrypt).toHaveBeenCalledTimes(1);
+    });
+
+    it('derives the key again after a failed derivation', async () => {
+      const scrypt = crypto.scrypt as unknown as jest.Mock;
+      scrypt.mockImplementationOnce((...args: any[]) => args[args.length - 1](new Error('out of memory')));
+      const store = new SecretStore();
+      await store.setPassphrase('correct horse');
+
+      await expect(store.encrypt('sk-test')).rejects.toThrow('out of memory');
+      const secret = await store.encrypt('sk-test');
+
+      expect(await store.decrypt(secret)).toBe('sk-test');
+      expect(scrypt).toHaveBeenCalledTimes(2);
+    });
+
+    it('unlocks secrets written in an earlier session', async () => {
+      const writer = new SecretStore();
+      await writer.setPassphrase('correct horse');
+      const secret = await writer.encrypt('sk-test');
+
+      const reader = new SecretStore();
+      expect(reader.canDecrypt(secret)).toBe(false);
+      await expect(reader.decrypt(secret)).rejects.toThrow(/passphrase is required/);
+
+      await reader.setPassphrase('correct horse', secret);
+      expect(await reader.decrypt(secret)).toBe('sk-test');
+    });
+
+    it('rejects a wrong passphrase and keeps the current one', async () => {
+      const store = new SecretStore();
+      await store.setPassphrase('correct horse');
+      const secret = await store.encrypt('sk-test');
+
+      await expect(store.setPassphrase('battery staple', secret)).rejects.toThrow('Incorrect passphrase');
+      expect(await store.decrypt(secret)).toBe('sk-test');
+    });
+
+    it('reads the passphrase from the environment', async () => {
+      process.env.AI_IDE_SECRETS_PASSPHRASE = 'correct horse';
+      const store = new SecretStore();
+
+      expect(store.getScheme()).toBe('passphrase');
+    });
+  });
+});
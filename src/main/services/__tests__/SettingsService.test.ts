@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { buildOpenAICompatibleConfig } from '../../ai/models/OpenAICompatibleModel';
+import { SettingsService } from '../SettingsService';
+
+const mockUserData = { dir: '' };
+
+jest.mock('electron', () => ({
+  app: { getPath: () => mockUserData.dir },
+  safeStorage: {
+    isEncryptionAvailable: () => true,
+    getSelectedStorageBackend: () => 'gnome_libsecret',
+    encryptString: (value: string) => Buffer.from(value).reverse(),
+    decryptString: (data: Buffer) => Buffer.from(data).reverse().toString()
+  }
+}));
+
+const HEADER_SECRET = 'org-secret-token-123';
+
+const customModel = () => buildOpenAICompatibleConfig({
+  name: 'vLLM',
+  baseUrl: 'http://gpu-box:8000/v1',
+  model: 'qwen',
+  apiKey: 'sk-custom-key',
+  headers: { 'X-Api-Token': HEADER_SECRET }
+});
+
+describe('SettingsService', () => {
+  const settingsFile = () => path.join(mockUserData.dir, 'ai-ide-settings.json');
+
+  beforeEach(async () => {
+    mockUserData.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-ide-settings-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await fs.rm(mockUserData.dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('writes custom model headers encrypted and restores them on load', async () => {
+    const settings = new SettingsService();
+    await settings.saveModelConfig(customModel());
+
+    const file = await fs.readFile(settingsFile(), 'utf-8');
+    expect(file).not.toContain(HEADER_SECRET);
+    expect(file).not.toContain('sk-custom-key');
+    expect(Object.keys(JSON.parse(file).secrets).sort()).toEqual(['headers:custom/vllm-qwen', 'model:custom/vllm-qwen']);
+
+    const reloaded = new SettingsService();
+    await reloaded.loadSettings();
+    expect(reloaded.getModelConfigs()[0]).toMatchObject({
+      apiKey: 'sk-custom-key',
+      parameters: { model: 'qwen', headers: { 'X-Api-Token': HEADER_SECRET } }
+    });
+  });
+
+  it('leaves headers out of exports and the renderer settings', async () => {
+    const settings = new SettingsService();
+    await settings.saveModelConfig(customModel());
+
+    expect(await settings.exportSettings()).not.toContain(HEADER_SECRET);
+    expect(JSON.stringify(settings.getPublicSettings())).not.toContain(HEADER_SECRET);
+    expect(await settings.exportSettings({ includeSecrets: true })).toContain(HEADER_SECRET);
+  });
+
+  it('keeps the saved headers when an import has none', async () => {
+    const settings = new SettingsService();
+    await settings.saveModelConfig(customModel());
+
+    await settings.importSettings(await settings.exportSettings());
+
+    expect(settings.getModelConfigs()[0].parameters?.headers).toEqual({ 'X-Api-Token': HEADER_SECRET });
+    expect(await fs.readFile(settingsFile(), 'utf-8')).not.toContain(HEADER_SECRET);
+  });
+
+  it('drops the encrypted headers with the model', async () => {
+    const settings = new SettingsService();
+    await settings.saveModelConfig(customModel());
+
+    await settings.removeModelConfig('custom/vllm-qwen');
+
+    expect(JSON.parse(await fs.readFile(settingsFile(), 'utf-8')).secrets).toEqual({});
+  });
+});
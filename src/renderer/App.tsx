@@ -8,6 +8,7 @@ import { MenuBar } from './components/MenuBar';
 import { AIInlineCompletion } from './components/AIInlineCompletion';
 import { SettingsDialog } from './components/SettingsDialog';
 import { AIDebugPanel } from './components/AIDebugPanel';
+import { AIResult, OpenAICompatibleOptions, ProviderBudget, RoutingPolicy, UsageSummary } from '../shared/types/ai';
 
 const AppContainer = styled.div`
   display: flex;
@@ -57,6 +58,7 @@ export interface OpenFile {
   language: string;
   isDirty: boolean;
   cursorPosition?: { line: number; column: number };
+  selection?: string;
 }
 
 const App: React.FC = () => {
@@ -69,6 +71,10 @@ const App: React.FC = () => {
   const [projectPath, setProjectPath] = useState<string | null>(null);
   const [availableModels, setAvailableModels] = useState<any[]>([]);
   const [currentModel, setCurrentModel] = useState<string>('');
+  const [fallbackChains, setFallbackChains] = useState<Record<string, string[]>>({});
+  const [routingPolicy, setRoutingPolicy] = useState<RoutingPolicy>({ mode: 'pinned', rules: [], preferLocal: true });
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [embeddingModel, setEmbeddingModel] = useState<{ selected?: string; active: string | null }>({ active: null });
   const [inlineCompletion, setInlineCompletion] = useState<{
     suggestion: string;
     position: { line: number; column: number };
@@ -78,6 +84,8 @@ const App: React.FC = () => {
     // Load initial data
     loadModels();
     loadCurrentModel();
+    loadFallbackChains();
+    loadRoutingPolicy();
 
     // Set up menu action listeners
     if (window.electronAPI) {
@@ -122,6 +130,14 @@ const App: React.FC = () => {
     };
   }, [debugPanelOpen]);
 
+  useEffect(() => {
+    // Spend changes with every request, so refresh it whenever settings open
+    if (settingsOpen) {
+      loadUsage();
+      loadEmbeddingModel();
+    }
+  }, [settingsOpen]);
+
   const loadModels = async () => {
     try {
       const models = await window.electronAPI.getModels();
@@ -140,6 +156,76 @@ const App: React.FC = () => {
     }
   };
 
+  const loadFallbackChains = async () => {
+    try {
+      const chains = await window.electronAPI.getFallbackChains();
+      setFallbackChains(chains);
+    } catch (error) {
+      console.error('Failed to load fallback chains:', error);
+    }
+  };
+
+  const handleFallbackChainsChange = async (chains: Record<string, string[]>) => {
+    setFallbackChains(chains);
+    try {
+      await window.electronAPI.setFallbackChains(chains);
+    } catch (error) {
+      console.error('Failed to save fallback chains:', error);
+    }
+  };
+
+  const loadRoutingPolicy = async () => {
+    try {
+      const policy = await window.electronAPI.getRoutingPolicy();
+      setRoutingPolicy(policy);
+    } catch (error) {
+      console.error('Failed to load routing policy:', error);
+    }
+  };
+
+  const handleRoutingPolicyChange = async (policy: RoutingPolicy) => {
+    setRoutingPolicy(policy);
+    try {
+      await window.electronAPI.setRoutingPolicy(policy);
+    } catch (error) {
+      console.error('Failed to save routing policy:', error);
+    }
+  };
+
+  const loadUsage = async () => {
+    try {
+      setUsageSummary(await window.electronAPI.getUsage());
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+    }
+  };
+
+  const handleBudgetsChange = async (budgets: ProviderBudget[]) => {
+    try {
+      await window.electronAPI.setBudgets(budgets);
+      await loadUsage();
+    } catch (error) {
+      console.error('Failed to save budgets:', error);
+    }
+  };
+
+  const loadEmbeddingModel = async () => {
+    try {
+      setEmbeddingModel(await window.electronAPI.getEmbeddingModel());
+    } catch (error) {
+      console.error('Failed to load embedding model:', error);
+    }
+  };
+
+  const handleEmbeddingModelChange = async (modelId?: string) => {
+    try {
+      await window.electronAPI.setEmbeddingModel(modelId);
+      await loadEmbeddingModel();
+    } catch (error) {
+      console.error('Failed to save embedding model:', error);
+    }
+  };
+
   const handleMenuAction = async (action: string, data?: any) => {
     console.log('Handling menu action:', action);
     try {
@@ -213,6 +299,7 @@ const App: React.FC = () => {
         const folderPath = result.filePaths[0];
         console.log('Setting project path:', folderPath);
         setProjectPath(folderPath);
+        await window.electronAPI.setWorkspaceRoot(folderPath);
       }
     } catch (error) {
       console.error('Failed to open folder:', error);
@@ -318,11 +405,12 @@ const App: React.FC = () => {
 
   const handleCursorPositionChange = (
     filePath: string,
-    position: { line: number; column: number }
+    position: { line: number; column: number },
+    selection?: string
   ) => {
     setOpenFiles(prev =>
       prev.map(f =>
-        f.path === filePath ? { ...f, cursorPosition: position } : f
+        f.path === filePath ? { ...f, cursorPosition: position, selection } : f
       )
     );
   };
@@ -385,7 +473,39 @@ const App: React.FC = () => {
     }
   };
 
-  const handleApiKeyTest = async (provider: string, apiKey: string): Promise<boolean> => {
+  const handleApiKeyRemove = async (provider: string) => {
+    await window.electronAPI.removeApiKey(provider);
+    // The provider's models are retired unless an environment key remains
+    await loadModels();
+  };
+
+  const handleRefreshModels = async () => {
+    try {
+      const discovered = await window.electronAPI.refreshModels();
+      console.log(`Discovered ${discovered} new Ollama model(s)`);
+      await loadModels();
+    } catch (error) {
+      console.error('Failed to refresh models:', error);
+    }
+  };
+
+  const handleAddCustomModel = async (options: OpenAICompatibleOptions): Promise<boolean> => {
+    const isAvailable = await window.electronAPI.addCustomModel(options);
+    await loadModels();
+    console.log(`Added OpenAI-compatible server ${options.name} (${isAvailable ? 'reachable' : 'unreachable'})`);
+    return isAvailable;
+  };
+
+  const handleRemoveCustomModel = async (modelId: string) => {
+    try {
+      await window.electronAPI.removeCustomModel(modelId);
+      await loadModels();
+    } catch (error) {
+      console.error('Failed to remove custom model:', error);
+    }
+  };
+
+  const handleApiKeyTest = async (provider: string, apiKey: string): Promise<AIResult<boolean>> => {
     try {
       // Add debug transaction for test start
       if ((window as any).addAITransaction) {
@@ -402,15 +522,17 @@ const App: React.FC = () => {
       const result = await window.electronAPI.testApiKey(provider, apiKey);
       const latency = Date.now() - startTime;
       
+      const isValid = result.success && result.data;
+
       // Add debug transaction for test result
       if ((window as any).addAITransaction) {
         (window as any).addAITransaction({
-          type: result ? 'response' : 'error',
+          type: isValid ? 'response' : 'error',
           model: provider,
           operation: 'chat',
-          response: result ? 'API key test successful' : undefined,
-          error: result ? undefined : 'API key test failed',
-          metadata: { latency, tokens: result ? 5 : 0 }
+          response: isValid ? 'API key test successful' : undefined,
+          error: isValid ? undefined : `API key test failed${result.success === false ? `: ${result.error.message}` : ''}`,
+          metadata: { latency, tokens: isValid ? 5 : 0, errorType: result.success === false ? result.error.code : undefined }
         });
       }
 
@@ -429,7 +551,7 @@ const App: React.FC = () => {
         });
       }
       
-      return false;
+      return { success: false, error: { code: 'unknown', message: error.message } };
     }
   };
 
@@ -510,6 +632,7 @@ const App: React.FC = () => {
           <AIChat
             activeFile={activeFileData}
             onClose={() => setChatOpen(false)}
+            onOpenSettings={() => setSettingsOpen(true)}
           />
         </ChatPanel>
       </MainContent>
@@ -532,6 +655,18 @@ const App: React.FC = () => {
         onModelSwitch={handleModelSwitch}
         onApiKeyUpdate={handleApiKeyUpdate}
         onApiKeyTest={handleApiKeyTest}
+        onApiKeyRemove={handleApiKeyRemove}
+        onRefreshModels={handleRefreshModels}
+        onAddCustomModel={handleAddCustomModel}
+        onRemoveCustomModel={handleRemoveCustomModel}
+        fallbackChains={fallbackChains}
+        onFallbackChainsChange={handleFallbackChainsChange}
+        routingPolicy={routingPolicy}
+        onRoutingPolicyChange={handleRoutingPolicyChange}
+        usageSummary={usageSummary}
+        onBudgetsChange={handleBudgetsChange}
+        embeddingModel={embeddingModel}
+        onEmbeddingModelChange={handleEmbeddingModelChange}
       />
     </AppContainer>
   );
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import styled from 'styled-components';
 import { OpenFile } from '../App';
+import { AIErrorInfo, ComparisonResult, ToolCall } from '../../shared/types/ai';
 
 const ChatContainer = styled.div`
   display: flex;
@@ -38,6 +39,26 @@ const CloseButton = styled.button`
   }
 `;
 
+const HeaderActions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+`;
+
+const ToolsToggle = styled.button<{ active: boolean }>`
+  background-color: ${props => props.active ? '#0e639c' : 'transparent'};
+  border: 1px solid ${props => props.active ? '#0e639c' : '#3e3e42'};
+  border-radius: 4px;
+  color: #cccccc;
+  cursor: pointer;
+  padding: 2px 8px;
+  font-size: 12px;
+
+  &:hover {
+    background-color: ${props => props.active ? '#1177bb' : '#3e3e42'};
+  }
+`;
+
 const MessagesContainer = styled.div`
   flex: 1;
   overflow-y: auto;
@@ -95,6 +116,65 @@ const MessageContent = styled.div`
   }
 `;
 
+const ComparePicker = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 16px;
+  background-color: #2d2d30;
+  border-bottom: 1px solid #3e3e42;
+  font-size: 12px;
+  color: #cccccc;
+`;
+
+const ModelChip = styled.label<{ selected: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 2px 8px;
+  border-radius: 10px;
+  border: 1px solid ${props => props.selected ? '#0e639c' : '#3e3e42'};
+  background-color: ${props => props.selected ? '#0e639c33' : 'transparent'};
+  cursor: pointer;
+`;
+
+const CompareColumns = styled.div`
+  display: flex;
+  gap: 8px;
+  overflow-x: auto;
+`;
+
+const CompareColumn = styled.div<{ isWinner: boolean }>`
+  flex: 1;
+  min-width: 220px;
+  padding: 8px;
+  border-radius: 6px;
+  background-color: #1e1e1e;
+  border: 1px solid ${props => props.isWinner ? '#89d185' : '#3e3e42'};
+  display: flex;
+  flex-direction: column;
+`;
+
+const ColumnTitle = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  margin-bottom: 6px;
+`;
+
+const ColumnStats = styled.div`
+  font-size: 11px;
+  color: #9d9d9d;
+  margin-top: 8px;
+`;
+
+const ToolActivity = styled.div<{ failed?: boolean }>`
+  font-size: 12px;
+  font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+  color: ${props => props.failed ? '#f48771' : '#9cdcfe'};
+  margin-bottom: 4px;
+`;
+
 const InputContainer = styled.div`
   display: flex;
   padding: 16px;
@@ -146,6 +226,34 @@ const SendButton = styled.button`
   }
 `;
 
+const StopButton = styled(SendButton)`
+  background-color: #a1260d;
+
+  &:hover {
+    background-color: #c72e0f;
+  }
+`;
+
+const ErrorActions = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-top: 8px;
+`;
+
+const FixButton = styled.button`
+  background-color: #3e3e42;
+  border: 1px solid #5a5a5e;
+  border-radius: 4px;
+  color: #ffffff;
+  padding: 4px 10px;
+  cursor: pointer;
+  font-size: 12px;
+
+  &:hover {
+    background-color: #4a4a4e;
+  }
+`;
+
 const ContextInfo = styled.div`
   padding: 8px 16px;
   background-color: #2d2d30;
@@ -159,17 +267,82 @@ interface ChatMessage {
   content: string;
   isUser: boolean;
   timestamp: number;
+  isStreaming?: boolean;
+  isStopped?: boolean;
+  error?: AIErrorInfo;
+  // The user message to resend when a fix action retries the request
+  retryOf?: ChatMessage;
+  // Tools the model called while working on this answer
+  toolCalls?: { call: ToolCall; failed?: boolean }[];
+  // Compare mode: one column per model, answering the retryOf message
+  comparison?: {
+    columns: ComparisonColumnState[];
+    context: any;
+    winner?: string;
+  };
+}
+
+interface ComparisonColumnState {
+  modelId: string;
+  modelName: string;
+  content: string;
+  result?: ComparisonResult;
+}
+
+interface ModelOption {
+  id: string;
+  name: string;
 }
 
 interface AIChatProps {
   activeFile: OpenFile | null;
   onClose: () => void;
+  onOpenSettings?: () => void;
+}
+
+interface FixAction {
+  label: string;
+  run: () => void;
 }
 
-export const AIChat: React.FC<AIChatProps> = ({ activeFile, onClose }) => {
+// Plain-language explanation shown under the provider's error message
+const ERROR_HINTS: Record<AIErrorInfo['code'], string> = {
+  'auth': 'The API key for this provider is missing or was rejected.',
+  'rate-limit': 'The provider is rate limiting requests.',
+  'timeout': 'The model took too long to answer.',
+  'context-overflow': 'The conversation and file context no longer fit in the model\'s context window.',
+  'model-not-pulled': 'This model is not installed in Ollama yet.',
+  'endpoint-unreachable': 'The model server could not be reached.',
+  'cancelled': 'The request was cancelled.',
+  'budget-exceeded': 'The spending budget for this provider has been reached.',
+  'invalid-output': 'The model kept answering in a format that could not be used.',
+  'blocked-by-policy': 'This workspace only allows local models. Select a local model or change .ai-ide/policy.json.',
+  'unknown': 'Something went wrong while talking to the model.'
+};
+
+// Model output and error text are untrusted; escape them before adding markup
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export const AIChat: React.FC<AIChatProps> = ({ activeFile, onClose, onOpenSettings }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Lets the model read files, list folders and search symbols in the open workspace
+  const [toolsEnabled, setToolsEnabled] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [availableModels, setAvailableModels] = useState<ModelOption[]>([]);
+  // Ollama pull progress shown under the failed message that started it
+  const [pullStatus, setPullStatus] = useState<Record<string, string>>({});
+  // Per-model request ids of the comparison in flight, so Stop can cancel every column
+  const activeCompareRef = useRef<string[]>([]);
+  const activeRequestRef = useRef<string | null>(null);
+  const stoppedRequestsRef = useRef<Set<string>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -199,6 +372,53 @@ What can I help you with today?`,
     }
   }, []);
 
+  useEffect(() => {
+    // Append streamed tokens to the message created for their request id
+    const unsubscribe = window.electronAPI.onChatStreamEvent(event => {
+      if (event.type === 'tool' && event.toolCall) {
+        setMessages(prev => prev.map(msg =>
+          msg.id === event.requestId && msg.isStreaming
+            ? { ...msg, toolCalls: [...(msg.toolCalls || []), { call: event.toolCall!, failed: event.toolError }] }
+            : msg
+        ));
+        return;
+      }
+      if (event.type !== 'token' || !event.content) return;
+
+      setMessages(prev => prev.map(msg => {
+        if (!msg.isStreaming) return msg;
+        if (msg.id === event.requestId) {
+          return { ...msg, content: msg.content + event.content };
+        }
+        if (msg.comparison && event.requestId.startsWith(`${msg.id}:`)) {
+          const modelId = event.requestId.substring(msg.id.length + 1);
+          return {
+            ...msg,
+            comparison: {
+              ...msg.comparison,
+              columns: msg.comparison.columns.map(column =>
+                column.modelId === modelId ? { ...column, content: column.content + event.content } : column
+              )
+            }
+          };
+        }
+        return msg;
+      }));
+    });
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!compareMode) return;
+
+    window.electronAPI.getModels()
+      .then(models => setAvailableModels(models
+        .filter(model => model.isAvailable && model.type !== 'embedding')
+        .map(model => ({ id: model.id, name: model.name }))))
+      .catch(error => console.error('Failed to load models for comparison:', error));
+  }, [compareMode]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -215,34 +435,79 @@ What can I help you with today?`,
 
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
+    if (compareMode && compareModels.length >= 2) {
+      await sendComparison(userMessage);
+    } else {
+      await sendToAI(userMessage);
+    }
+  };
+
+  // shortenContext drops the chat history, the active file and related code, keeping only the selection
+  const buildContext = (userMessage: ChatMessage, shortenContext: boolean) => {
+    // A comparison only continues the conversation once a winner was picked
+    const history = shortenContext ? [] : messages
+      .filter(msg => !msg.error && msg.id !== userMessage.id && (!msg.comparison || msg.comparison.winner))
+      .map(msg => ({
+        ...msg,
+        content: msg.comparison
+          ? msg.comparison.columns.find(column => column.modelId === msg.comparison!.winner)?.content || ''
+          : msg.content
+      }));
+
+    return {
+      activeFile: activeFile && !shortenContext ? {
+        path: activeFile.path,
+        name: activeFile.name,
+        language: activeFile.language,
+        content: activeFile.content,
+        cursorPosition: activeFile.cursorPosition
+      } : null,
+      selection: activeFile?.selection,
+      // The main process attaches similar code from indexed files unless this is false
+      relatedCode: !shortenContext,
+      useTools: toolsEnabled,
+      history: history.map(msg => ({
+        role: msg.isUser ? 'user' : 'assistant',
+        content: msg.content,
+        timestamp: msg.timestamp
+      }))
+    };
+  };
+
+  const sendToAI = async (userMessage: ChatMessage, shortenContext: boolean = false) => {
     setIsLoading(true);
 
     try {
-      // Prepare context for AI
-      const context = {
-        activeFile: activeFile ? {
-          path: activeFile.path,
-          name: activeFile.name,
-          language: activeFile.language,
-          content: activeFile.content
-        } : null,
-        history: messages.map(msg => ({
-          role: msg.isUser ? 'user' : 'assistant',
-          content: msg.content,
-          timestamp: msg.timestamp
-        }))
-      };
+      const context = buildContext(userMessage, shortenContext);
 
-      const response = await window.electronAPI.chat(inputValue.trim(), context);
-
-      const aiMessage: ChatMessage = {
-        id: `ai-${Date.now()}`,
-        content: response,
+      const requestId = `ai-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+      setMessages(prev => [...prev, {
+        id: requestId,
+        content: '',
         isUser: false,
-        timestamp: Date.now()
-      };
+        timestamp: Date.now(),
+        isStreaming: true
+      }]);
 
-      setMessages(prev => [...prev, aiMessage]);
+      activeRequestRef.current = requestId;
+      const result = await window.electronAPI.chatStream(requestId, userMessage.content, context);
+      const wasStopped = stoppedRequestsRef.current.delete(requestId);
+
+      if (result.success === false) {
+        setMessages(prev => prev.map(msg =>
+          msg.id === requestId
+            ? { ...msg, content: result.error.message, error: result.error, retryOf: userMessage, isStreaming: false, timestamp: Date.now() }
+            : msg
+        ));
+        return;
+      }
+
+      // The final response is authoritative in case any stream events were missed
+      setMessages(prev => prev.map(msg =>
+        msg.id === requestId
+          ? { ...msg, content: result.data, isStreaming: false, isStopped: wasStopped, timestamp: Date.now() }
+          : msg
+      ));
     } catch (error) {
       console.error('Failed to get AI response:', error);
       
@@ -253,12 +518,198 @@ What can I help you with today?`,
         timestamp: Date.now()
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(msg => !msg.isStreaming), errorMessage]);
+    } finally {
+      activeRequestRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Fans the message out to the selected models; each column streams on its own request id
+  const sendComparison = async (userMessage: ChatMessage) => {
+    setIsLoading(true);
+
+    const requestId = `compare-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+    const context = buildContext(userMessage, false);
+    const columns = compareModels.map(modelId => ({
+      modelId,
+      modelName: availableModels.find(model => model.id === modelId)?.name || modelId,
+      content: ''
+    }));
+
+    try {
+      setMessages(prev => [...prev, {
+        id: requestId,
+        content: '',
+        isUser: false,
+        timestamp: Date.now(),
+        isStreaming: true,
+        retryOf: userMessage,
+        comparison: { columns, context }
+      }]);
+
+      activeRequestRef.current = requestId;
+      activeCompareRef.current = compareModels.map(modelId => `${requestId}:${modelId}`);
+      const result = await window.electronAPI.compareChat(requestId, userMessage.content, context, compareModels);
+      const wasStopped = stoppedRequestsRef.current.delete(requestId);
+
+      setMessages(prev => prev.map(msg => {
+        if (msg.id !== requestId) return msg;
+        if (result.success === false) {
+          return { ...msg, content: result.error.message, error: result.error, comparison: undefined, isStreaming: false, timestamp: Date.now() };
+        }
+        return {
+          ...msg,
+          isStreaming: false,
+          isStopped: wasStopped,
+          timestamp: Date.now(),
+          comparison: {
+            ...msg.comparison!,
+            columns: result.data.map(columnResult => ({
+              modelId: columnResult.modelId,
+              modelName: columnResult.modelName,
+              content: columnResult.content,
+              result: columnResult
+            }))
+          }
+        };
+      }));
+    } catch (error) {
+      console.error('Failed to compare models:', error);
+      setMessages(prev => prev.filter(msg => msg.id !== requestId));
     } finally {
+      activeRequestRef.current = null;
+      activeCompareRef.current = [];
       setIsLoading(false);
     }
   };
 
+  const pickWinner = async (message: ChatMessage, modelId: string) => {
+    const comparison = message.comparison!;
+    setMessages(prev => prev.map(msg =>
+      msg.id === message.id ? { ...msg, comparison: { ...comparison, winner: modelId } } : msg
+    ));
+
+    try {
+      await window.electronAPI.recordComparisonVote(
+        message.retryOf!.content,
+        comparison.context,
+        modelId,
+        comparison.columns.map(column => column.modelId)
+      );
+    } catch (error) {
+      console.error('Failed to record comparison vote:', error);
+    }
+  };
+
+  const toggleCompareModel = (modelId: string) => {
+    setCompareModels(prev => prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]);
+  };
+
+  const formatColumnStats = (result: ComparisonResult): string => {
+    const tokensPerSecond = result.latency > 0 ? Math.round(result.tokens / (result.latency / 1000)) : 0;
+    const parts = [
+      `⏱️ ${(result.latency / 1000).toFixed(1)}s`,
+      result.timeToFirstToken !== undefined ? `first token ${(result.timeToFirstToken / 1000).toFixed(1)}s` : '',
+      `${result.tokens} tokens`,
+      `${tokensPerSecond} tok/s`,
+      result.costUsd ? `$${result.costUsd.toFixed(4)}` : ''
+    ];
+    return parts.filter(Boolean).join(' • ');
+  };
+
+  const handleStop = async () => {
+    const requestId = activeRequestRef.current;
+    if (!requestId) return;
+
+    stoppedRequestsRef.current.add(requestId);
+    try {
+      for (const id of activeCompareRef.current.length > 0 ? activeCompareRef.current : [requestId]) {
+        await window.electronAPI.cancelRequest(id);
+      }
+    } catch (error) {
+      console.error('Failed to cancel AI request:', error);
+    }
+  };
+
+  const retryFailed = async (failed: ChatMessage, shortenContext: boolean = false) => {
+    setMessages(prev => prev.filter(msg => msg.id !== failed.id));
+    await sendToAI(failed.retryOf!, shortenContext);
+  };
+
+  // Downloads the missing model through Ollama, then sends the message again
+  const pullAndRetry = async (failed: ChatMessage) => {
+    const modelName = failed.error!.modelName!;
+    const requestId = `pull-${Date.now()}`;
+    setPullStatus(prev => ({ ...prev, [failed.id]: `⬇️ Pulling ${modelName}...` }));
+
+    const unsubscribe = window.electronAPI.onOllamaPullProgress(progress => {
+      if (progress.requestId !== requestId) return;
+      const percent = progress.total ? ` ${Math.round(((progress.completed || 0) / progress.total) * 100)}%` : '';
+      setPullStatus(prev => ({ ...prev, [failed.id]: `⬇️ ${modelName}: ${progress.status}${percent}` }));
+    });
+
+    try {
+      const result = await window.electronAPI.pullOllamaModel(requestId, modelName);
+      if (result.success === false) {
+        setPullStatus(prev => ({ ...prev, [failed.id]: `❌ Pull failed: ${result.error.message}` }));
+        return;
+      }
+      setPullStatus(prev => {
+        const { [failed.id]: _, ...rest } = prev;
+        return rest;
+      });
+      await retryFailed(failed);
+    } catch (error) {
+      setPullStatus(prev => ({ ...prev, [failed.id]: `❌ Pull failed: ${error.message}` }));
+    } finally {
+      unsubscribe();
+    }
+  };
+
+  const getFixActions = (message: ChatMessage): FixAction[] => {
+    const error = message.error!;
+    const retry: FixAction = { label: 'Retry', run: () => retryFailed(message) };
+
+    switch (error.code) {
+      case 'auth':
+        return onOpenSettings ? [{ label: 'Check API key', run: onOpenSettings }] : [];
+      case 'model-not-pulled':
+        return error.modelName ? [{ label: 'Pull model', run: () => pullAndRetry(message) }, retry] : [retry];
+      case 'context-overflow':
+        return [{ label: 'Shorten context', run: () => retryFailed(message, true) }];
+      case 'budget-exceeded':
+        return onOpenSettings ? [{ label: 'Review budgets', run: onOpenSettings }] : [];
+      case 'endpoint-unreachable':
+        return [
+          {
+            label: 'Refresh models',
+            run: async () => {
+              await window.electronAPI.refreshModels();
+              await retryFailed(message);
+            }
+          }
+        ];
+      case 'rate-limit':
+      case 'timeout':
+      case 'unknown':
+        return [retry];
+      default:
+        return [];
+    }
+  };
+
+  const describeError = (error: AIErrorInfo): string => {
+    let hint = ERROR_HINTS[error.code];
+    if (error.code === 'rate-limit' && error.retryAfterMs) {
+      hint += ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.`;
+    }
+    if (error.code === 'model-not-pulled' && error.modelName) {
+      hint += ` Pull model downloads ${error.modelName} with Ollama and retries.`;
+    }
+    return `⚠️ ${hint}\n${error.message}`;
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -268,7 +719,7 @@ What can I help you with today?`,
 
   const formatMessage = (content: string) => {
     // Simple markdown-like formatting
-    return content
+    return escapeHtml(content)
       .replace(/`([^`]+)`/g, '<code>$1</code>')
       .replace(/```([\s\S]*?)```/g, '<pre><code>$1</code></pre>');
   };
@@ -277,7 +728,23 @@ What can I help you with today?`,
     <ChatContainer>
       <ChatHeader>
         <ChatTitle>AI Assistant</ChatTitle>
-        <CloseButton onClick={onClose}>×</CloseButton>
+        <HeaderActions>
+          <ToolsToggle
+            active={compareMode}
+            onClick={() => setCompareMode(!compareMode)}
+            title="Send each message to several models and compare their answers"
+          >
+            ⚖️ Compare
+          </ToolsToggle>
+          <ToolsToggle
+            active={toolsEnabled}
+            onClick={() => setToolsEnabled(!toolsEnabled)}
+            title="Let the assistant read files, list folders and search symbols in the open folder"
+          >
+            🔧 Tools {toolsEnabled ? 'On' : 'Off'}
+          </ToolsToggle>
+          <CloseButton onClick={onClose}>×</CloseButton>
+        </HeaderActions>
       </ChatHeader>
 
       {activeFile && (
@@ -286,27 +753,86 @@ What can I help you with today?`,
         </ContextInfo>
       )}
 
+      {compareMode && (
+        <ComparePicker>
+          <span>Compare:</span>
+          {availableModels.map(model => (
+            <ModelChip key={model.id} selected={compareModels.includes(model.id)}>
+              <input
+                type="checkbox"
+                checked={compareModels.includes(model.id)}
+                onChange={() => toggleCompareModel(model.id)}
+              />
+              {model.name}
+            </ModelChip>
+          ))}
+          {compareModels.length < 2 && <span>Select at least two models</span>}
+        </ComparePicker>
+      )}
+
       <MessagesContainer>
         {messages.map(message => (
-          <Message key={message.id} isUser={message.isUser}>
+          <Message key={message.id} isUser={message.isUser} style={message.comparison ? { marginRight: 0 } : undefined}>
             <MessageHeader>
-              {message.isUser ? 'You' : 'AI Assistant'} • {new Date(message.timestamp).toLocaleTimeString()}
+              {message.isUser ? 'You' : message.comparison ? `Comparing ${message.comparison.columns.length} models` : 'AI Assistant'} • {message.isStreaming
+                ? (message.content ? 'Typing...' : 'Thinking...')
+                : new Date(message.timestamp).toLocaleTimeString()}
+              {message.isStopped && ' • Stopped'}
             </MessageHeader>
-            <MessageContent 
-              dangerouslySetInnerHTML={{ 
-                __html: formatMessage(message.content) 
-              }}
-            />
+            {message.toolCalls?.map((tool, index) => (
+              <ToolActivity key={`${tool.call.id}-${index}`} failed={tool.failed}>
+                🔧 {tool.call.name}({Object.values(tool.call.arguments).map(value => JSON.stringify(value)).join(', ')}){tool.failed && ' • failed'}
+              </ToolActivity>
+            ))}
+            {message.comparison ? (
+              <CompareColumns>
+                {message.comparison.columns.map(column => (
+                  <CompareColumn key={column.modelId} isWinner={message.comparison!.winner === column.modelId}>
+                    <ColumnTitle>
+                      {message.comparison!.winner === column.modelId && '🏆 '}{column.modelName}
+                    </ColumnTitle>
+                    <MessageContent
+                      dangerouslySetInnerHTML={{
+                        __html: formatMessage(column.result?.error
+                          ? describeError(column.result.error)
+                          : column.content || (message.isStreaming ? '...' : ''))
+                      }}
+                    />
+                    {column.result && !column.result.error && (
+                      <ColumnStats>{formatColumnStats(column.result)}</ColumnStats>
+                    )}
+                    {!message.isStreaming && !message.comparison!.winner && column.result && !column.result.error && (
+                      <ErrorActions>
+                        <FixButton onClick={() => pickWinner(message, column.modelId)}>🏆 Pick winner</FixButton>
+                      </ErrorActions>
+                    )}
+                  </CompareColumn>
+                ))}
+              </CompareColumns>
+            ) : (
+              <MessageContent 
+                dangerouslySetInnerHTML={{ 
+                  __html: formatMessage(message.error
+                    ? describeError(message.error)
+                    : message.content || (message.isStreaming ? '...' : ''))
+                }}
+              />
+            )}
+            {pullStatus[message.id] && (
+              <ToolActivity failed={pullStatus[message.id].startsWith('❌')}>{pullStatus[message.id]}</ToolActivity>
+            )}
+            {message.error && !isLoading && !(pullStatus[message.id] || '').startsWith('⬇️') && (
+              <ErrorActions>
+                {getFixActions(message).map(action => (
+                  <FixButton key={action.label} onClick={action.run}>
+                    {action.label}
+                  </FixButton>
+                ))}
+              </ErrorActions>
+            )}
           </Message>
         ))}
         
-        {isLoading && (
-          <Message isUser={false}>
-            <MessageHeader>AI Assistant • Thinking...</MessageHeader>
-            <MessageContent>...</MessageContent>
-          </Message>
-        )}
-        
         <div ref={messagesEndRef} />
       </MessagesContainer>
 
@@ -319,12 +845,18 @@ What can I help you with today?`,
           placeholder="Ask me anything about your code..."
           disabled={isLoading}
         />
-        <SendButton
-          onClick={handleSendMessage}
-          disabled={!inputValue.trim() || isLoading}
-        >
-          Send
-        </SendButton>
+        {isLoading ? (
+          <StopButton onClick={handleStop}>
+            Stop
+          </StopButton>
+        ) : (
+          <SendButton
+            onClick={handleSendMessage}
+            disabled={!inputValue.trim()}
+          >
+            Send
+          </SendButton>
+        )}
       </InputContainer>
     </ChatContainer>
   );
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import styled from 'styled-components';
+import { BenchmarkProgress, BenchmarkSummary, CacheStatus, ModelPerformanceMetrics, RequestQueueStats, ResponseCacheStats, TokenUsage } from '../../shared/types/ai';
 
 const DebugContainer = styled.div<{ isOpen: boolean }>`
   position: fixed;
@@ -252,6 +253,31 @@ export interface AITransaction {
     responseSize?: number;
     responseTime?: number;
     tokensPerSecond?: number;
+    streamed?: boolean;
+    timeToFirstToken?: number;
+    fallbackHops?: number;
+    queueWaitMs?: number;
+    cache?: CacheStatus;
+    usage?: TokenUsage;
+    costUsd?: number;
+    toolCalls?: number;
+    toolName?: string;
+    toolRound?: number;
+    toolError?: boolean;
+    retries?: number;
+    retryDelayMs?: number;
+    fallbackHop?: number;
+    fallbackFrom?: string;
+    circuitState?: 'closed' | 'open' | 'half-open';
+    routingReason?: string;
+    promptTemplate?: string;
+    contextBudget?: {
+      tokenizer: string;
+      budget: number;
+      used: number;
+      included: Array<{ id: string; label: string; tokens: number; truncated: boolean }>;
+      dropped: Array<{ id: string; label: string; tokens: number }>;
+    };
   };
 }
 
@@ -274,6 +300,13 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
     successRate: 0,
     activeModel: 'Code Llama 7B'
   });
+  const [queueStats, setQueueStats] = useState<RequestQueueStats[]>([]);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null);
+  const [modelMetrics, setModelMetrics] = useState<ModelPerformanceMetrics[]>([]);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkSummary[]>([]);
+  const [benchmarkRunId, setBenchmarkRunId] = useState<string | null>(null);
+  const [benchmarkProgress, setBenchmarkProgress] = useState<BenchmarkProgress | null>(null);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
   const transactionListRef = useRef<HTMLDivElement>(null);
 
   // Format raw API call for Postman
@@ -345,6 +378,10 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
         console.log('🔍 Backend transactions received:', backendTransactions);
         setTransactions(backendTransactions);
         updateStats(backendTransactions);
+        setQueueStats(await window.electronAPI.getQueueStats());
+        setCacheStats(await window.electronAPI.getCacheStats());
+        setModelMetrics(await window.electronAPI.getPerformanceMetrics());
+        setBenchmarks(await window.electronAPI.getBenchmarks());
       } else {
         console.error('❌ getDebugTransactions not available on electronAPI');
         console.log('🔍 Available methods:', Object.keys(window.electronAPI || {}));
@@ -398,6 +435,48 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
     }
   };
 
+  const clearCache = async (modelId?: string) => {
+    try {
+      await window.electronAPI.clearCache(modelId);
+      setCacheStats(await window.electronAPI.getCacheStats());
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+    }
+  };
+
+  const runBenchmark = async () => {
+    const runId = `bench-${Date.now()}`;
+    setBenchmarkRunId(runId);
+    setBenchmarkProgress(null);
+    setBenchmarkError(null);
+
+    const unsubscribe = window.electronAPI.onBenchmarkProgress(progress => {
+      if (progress.runId === runId) {
+        setBenchmarkProgress(progress);
+      }
+    });
+
+    try {
+      const result = await window.electronAPI.runBenchmark(runId);
+      if (result.success === false) {
+        setBenchmarkError(result.error.message);
+      }
+      setBenchmarks(await window.electronAPI.getBenchmarks());
+    } catch (error) {
+      console.error('Failed to run benchmark:', error);
+      setBenchmarkError(error.message);
+    } finally {
+      unsubscribe();
+      setBenchmarkRunId(null);
+    }
+  };
+
+  const stopBenchmark = async () => {
+    if (benchmarkRunId) {
+      await window.electronAPI.cancelRequest(benchmarkRunId);
+    }
+  };
+
   const formatTimestamp = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString();
   };
@@ -413,6 +492,7 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
       case 'chat': return '💬';
       case 'completion': return '🔧';
       case 'inline-completion': return '⚡';
+      case 'embedding': return '🧬';
       default: return '🤖';
     }
   };
@@ -489,6 +569,12 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
                         🌡️ Temp: {transaction.metadata?.temperature} | 
                         📚 Context: {transaction.metadata?.contextLength} items
                       </small>
+                      {transaction.metadata?.routingReason && (
+                        <>
+                          <br />
+                          <small>🧭 Routing: {transaction.metadata.routingReason}</small>
+                        </>
+                      )}
                     </div>
                   )}
                   
@@ -500,7 +586,46 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
                         ⚡ Latency: {transaction.metadata?.latency}ms | 
                         🎯 Tokens: {transaction.metadata?.tokens} | 
                         🚀 Speed: {transaction.metadata?.tokensPerSecond || 'N/A'} tokens/sec
+                        {transaction.metadata?.streamed && (
+                          <> | ⏱️ First Token: {formatLatency(transaction.metadata.timeToFirstToken)}</>
+                        )}
+                        {!!transaction.metadata?.fallbackHops && (
+                          <> | ↪️ Fallback hops: {transaction.metadata.fallbackHops}</>
+                        )}
+                        {transaction.metadata?.cache && (
+                          <> | 💾 Cache: {transaction.metadata.cache}</>
+                        )}
+                        {!!transaction.metadata?.queueWaitMs && (
+                          <> | ⏳ Queued: {formatLatency(transaction.metadata.queueWaitMs)}</>
+                        )}
+                        {!!transaction.metadata?.retries && (
+                          <> | 🔁 Retries: {transaction.metadata.retries}</>
+                        )}
+                        {transaction.metadata?.usage && (
+                          <> | 🧮 Usage: {transaction.metadata.usage.inputTokens} in / {transaction.metadata.usage.outputTokens} out{transaction.metadata.usage.estimated ? ' (estimated)' : ''}</>
+                        )}
+                        {!!transaction.metadata?.toolCalls && (
+                          <> | 🔧 Tool calls: {transaction.metadata.toolCalls}</>
+                        )}
+                        {!!transaction.metadata?.costUsd && (
+                          <> | 💰 Cost: ${transaction.metadata.costUsd.toFixed(4)}</>
+                        )}
                       </small>
+                      {transaction.metadata?.contextBudget && (
+                        <>
+                          <br />
+                          <small>
+                            {transaction.metadata.promptTemplate && <>📝 Template: {transaction.metadata.promptTemplate} | </>}
+                            🧮 Context: {transaction.metadata.contextBudget.used}/{transaction.metadata.contextBudget.budget} tokens ({transaction.metadata.contextBudget.tokenizer})
+                            {transaction.metadata.contextBudget.included.some(entry => entry.truncated) && (
+                              <> | ✂️ Truncated: {transaction.metadata.contextBudget.included.filter(entry => entry.truncated).map(entry => entry.label).join(', ')}</>
+                            )}
+                            {transaction.metadata.contextBudget.dropped.length > 0 && (
+                              <> | 🗑️ Dropped: {transaction.metadata.contextBudget.dropped.map(entry => entry.label).join(', ')}</>
+                            )}
+                          </small>
+                        </>
+                      )}
                       <br />
                       <small>
                         📏 Size: {transaction.metadata?.responseSize} chars | 
@@ -516,6 +641,9 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
                       <small>
                         ❌ Type: {transaction.metadata?.errorType || 'Unknown'} | 
                         📍 Endpoint: {transaction.metadata?.endpoint || 'Unknown'}
+                        {transaction.metadata?.circuitState && (
+                          <> | 🔌 Circuit: {transaction.metadata.circuitState}</>
+                        )}
                       </small>
                     </div>
                   )}
@@ -577,6 +705,125 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
               </DetailContent>
             </DetailSection>
 
+            <DetailSection>
+              <DetailTitle>Request Queues</DetailTitle>
+              <DetailContent>
+                {queueStats.length === 0 && (
+                  <MetricItem>
+                    <span>No requests scheduled yet</span>
+                  </MetricItem>
+                )}
+                {queueStats.map(queue => (
+                  <div key={queue.endpoint} style={{ marginBottom: '6px' }}>
+                    <MetricItem>
+                      <span>{queue.endpoint}</span>
+                      <span>{queue.active}/{queue.limit} active</span>
+                    </MetricItem>
+                    <MetricItem>
+                      <span>Queued (chat / inline / background):</span>
+                      <span>{queue.queued.interactive} / {queue.queued.inline} / {queue.queued.background}</span>
+                    </MetricItem>
+                    <MetricItem>
+                      <span>Completed / retries:</span>
+                      <span>{queue.completed} / {queue.retries}</span>
+                    </MetricItem>
+                    {queue.pausedUntil && (
+                      <MetricItem>
+                        <span>⏸️ Backing off:</span>
+                        <span>{formatLatency(queue.pausedUntil - Date.now())}</span>
+                      </MetricItem>
+                    )}
+                  </div>
+                ))}
+              </DetailContent>
+            </DetailSection>
+
+            <DetailSection>
+              <DetailTitle>Response Cache</DetailTitle>
+              <DetailContent>
+                {!cacheStats ? (
+                  <MetricItem>
+                    <span>Cache disabled</span>
+                  </MetricItem>
+                ) : (
+                  <>
+                    <MetricItem>
+                      <span>Entries:</span>
+                      <span>{cacheStats.entries} ({(cacheStats.bytes / 1024).toFixed(1)} / {Math.round(cacheStats.maxBytes / 1024 / 1024)} MB)</span>
+                    </MetricItem>
+                    <MetricItem>
+                      <span>Hits / misses / bypassed:</span>
+                      <span>{cacheStats.hits} / {cacheStats.misses} / {cacheStats.bypasses}</span>
+                    </MetricItem>
+                    {Object.entries(cacheStats.byModel).map(([modelId, count]) => (
+                      <MetricItem key={modelId}>
+                        <span>{modelId}: {count}</span>
+                        <ActionButton onClick={() => clearCache(modelId)}>Clear</ActionButton>
+                      </MetricItem>
+                    ))}
+                    <ActionButton onClick={() => clearCache()} disabled={cacheStats.entries === 0}>
+                      🧹 Clear All Cached Responses
+                    </ActionButton>
+                  </>
+                )}
+              </DetailContent>
+            </DetailSection>
+
+            <DetailSection>
+              <DetailTitle>Model Comparisons</DetailTitle>
+              <DetailContent>
+                {modelMetrics.length === 0 ? (
+                  <MetricItem>
+                    <span>No comparisons yet</span>
+                  </MetricItem>
+                ) : modelMetrics.map(metric => (
+                  <MetricItem key={`${metric.modelId}-${metric.taskType}`}>
+                    <span>{metric.modelId} ({metric.taskType}):</span>
+                    <span>
+                      🏆 {metric.wins}/{metric.comparisons} • ⏱️ {formatLatency(metric.avgLatency)} • ✅ {Math.round(metric.successRate * 100)}% of {metric.runs}
+                    </span>
+                  </MetricItem>
+                ))}
+              </DetailContent>
+            </DetailSection>
+
+            <DetailSection>
+              <DetailTitle>Benchmarks</DetailTitle>
+              <DetailContent>
+                {benchmarks.length === 0 ? (
+                  <MetricItem>
+                    <span>No local models benchmarked yet</span>
+                  </MetricItem>
+                ) : benchmarks.map(summary => (
+                  <MetricItem key={`${summary.modelId}-${summary.language}`}>
+                    <span>{summary.modelId} ({summary.language}):</span>
+                    <span>
+                      ✅ {Math.round(summary.passRate * 100)}% of {summary.tasks} • ⏱️ {formatLatency(summary.avgLatency)} • ⚡ {summary.tokensPerSecond} tok/s
+                    </span>
+                  </MetricItem>
+                ))}
+                {benchmarkProgress && (
+                  <MetricItem>
+                    <span>{benchmarkRunId ? 'Running' : 'Last run'}:</span>
+                    <span>
+                      {benchmarkProgress.completed}/{benchmarkProgress.total} • {benchmarkProgress.modelId} {benchmarkProgress.taskId} {benchmarkProgress.result?.passed ? '✅' : '❌'}
+                    </span>
+                  </MetricItem>
+                )}
+                {benchmarkError && (
+                  <MetricItem>
+                    <span>Error:</span>
+                    <span>{benchmarkError}</span>
+                  </MetricItem>
+                )}
+                {benchmarkRunId ? (
+                  <ActionButton onClick={stopBenchmark}>⏹️ Stop Benchmark</ActionButton>
+                ) : (
+                  <ActionButton onClick={runBenchmark}>📊 Benchmark Local Models</ActionButton>
+                )}
+              </DetailContent>
+            </DetailSection>
+
             <DetailSection>
               <DetailTitle>Debug Controls</DetailTitle>
               <DetailContent>
@@ -728,6 +975,12 @@ export const AIDebugPanel: React.FC<AIDebugPanelProps> = ({
                         <span>{formatLatency(selectedTransaction.metadata.latency)}</span>
                       </MetricItem>
                     )}
+                    {selectedTransaction.metadata.timeToFirstToken !== undefined && (
+                      <MetricItem>
+                        <span>Time to First Token:</span>
+                        <span>{formatLatency(selectedTransaction.metadata.timeToFirstToken)}</span>
+                      </MetricItem>
+                    )}
                     {selectedTransaction.metadata.tokens && (
                       <MetricItem>
                         <span>Response Tokens:</span>
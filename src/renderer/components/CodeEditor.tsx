@@ -145,7 +145,7 @@ interface CodeEditorProps {
   onFileSelect: (filePath: string) => void;
   onFileClose: (filePath: string) => void;
   onContentChange: (filePath: string, content: string) => void;
-  onCursorPositionChange: (filePath: string, position: { line: number; column: number }) => void;
+  onCursorPositionChange: (filePath: string, position: { line: number; column: number }, selection?: string) => void;
   onInlineCompletionRequest: (
     code: string,
     position: { line: number; column: number },
@@ -211,8 +211,10 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       const line = lines.length;
       const column = lines[lines.length - 1].length + 1;
       
+      const selection = textarea.selectionEnd > cursorPos ? text.substring(cursorPos, textarea.selectionEnd) : undefined;
+
       setCursorPosition({ line, column });
-      onCursorPositionChange(activeFile, { line, column });
+      onCursorPositionChange(activeFile, { line, column }, selection);
     }
   };
 
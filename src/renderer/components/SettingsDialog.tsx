@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
+import { AIErrorInfo, AIResult, ApiKeyStatus, BudgetPeriod, OllamaModelInfo, OllamaPullProgress, OllamaRunningModel, OpenAICompatibleOptions, ProviderBudget, RoutingPolicy, RoutingRule, SecretStorageStatus, UsageSummary } from '../../shared/types/ai';
 
 const Overlay = styled.div`
   position: fixed;
@@ -140,6 +141,106 @@ const ApiKeyInput = styled.input`
   }
 `;
 
+const CustomModelRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  background-color: #252526;
+  border: 1px solid #3e3e42;
+  border-radius: 6px;
+  padding: 8px 12px;
+  margin-bottom: 8px;
+`;
+
+const HeadersInput = styled.textarea`
+  width: 100%;
+  min-height: 48px;
+  background-color: #1e1e1e;
+  border: 1px solid #3e3e42;
+  border-radius: 4px;
+  color: #d4d4d4;
+  padding: 8px 12px;
+  font-size: 13px;
+  font-family: 'Consolas', monospace;
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: #007acc;
+  }
+
+  &::placeholder {
+    color: #6f6f6f;
+  }
+`;
+
+const ChainRow = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 6px;
+  margin-bottom: 12px;
+  font-size: 12px;
+  color: #cccccc;
+`;
+
+const ChainLabel = styled.span`
+  width: 120px;
+  font-weight: 600;
+`;
+
+const ChainItem = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  background-color: #252526;
+  border: 1px solid #3e3e42;
+  border-radius: 4px;
+  padding: 2px 6px;
+
+  button {
+    background: none;
+    border: none;
+    color: #f14c4c;
+    cursor: pointer;
+    padding: 0;
+  }
+`;
+
+const ChainSelect = styled.select`
+  background-color: #1e1e1e;
+  border: 1px solid #3e3e42;
+  border-radius: 4px;
+  color: #d4d4d4;
+  padding: 2px 6px;
+  font-size: 12px;
+`;
+
+const BudgetInput = styled.input`
+  width: 80px;
+  background-color: #1e1e1e;
+  border: 1px solid #3e3e42;
+  border-radius: 4px;
+  color: #d4d4d4;
+  padding: 2px 6px;
+  font-size: 12px;
+`;
+
+const BudgetState = styled.span<{ state: 'ok' | 'warning' | 'exceeded' }>`
+  color: ${props =>
+    props.state === 'exceeded' ? '#f14c4c' :
+    props.state === 'warning' ? '#cca700' : '#89d185'
+  };
+`;
+
+const PullProgressBar = styled.div<{ percent: number }>`
+  height: 4px;
+  margin-top: 6px;
+  border-radius: 2px;
+  background: linear-gradient(to right, #0e639c ${props => props.percent}%, #3e3e42 ${props => props.percent}%);
+`;
+
 const ButtonGroup = styled.div`
   display: flex;
   gap: 8px;
@@ -198,8 +299,92 @@ interface Model {
   isAvailable: boolean;
   latency: string;
   type: string;
+  contextWindow?: number;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  isCustom?: boolean;
+  endpoint?: string;
+  health?: 'closed' | 'open' | 'half-open';
 }
 
+const FALLBACK_TASKS = [
+  { id: 'chat', label: 'Chat' },
+  { id: 'code-completion', label: 'Code Completion' },
+  { id: 'inline-completion', label: 'Inline Completion' }
+];
+
+const ROUTING_TASKS = [
+  ...FALLBACK_TASKS,
+  { id: 'code-review', label: 'Code Review' },
+  { id: 'debugging', label: 'Debugging' },
+  { id: 'architecture', label: 'Architecture' }
+];
+
+const ROUTING_LANGUAGES = ['apex', 'javascript', 'python', 'java', 'soql'];
+
+const API_KEY_PROVIDERS = [
+  { id: 'anthropic', label: 'Anthropic (Claude)', placeholder: 'sk-ant-api03-...' },
+  { id: 'openai', label: 'OpenAI (GPT-4)', placeholder: 'sk-...' },
+  { id: 'mistral', label: 'Mistral (Codestral)', placeholder: '...' }
+];
+
+const BUDGET_PROVIDERS = [
+  { id: 'anthropic', label: 'Anthropic' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'mistral', label: 'Mistral' }
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+};
+
+const getPullPercent = (progress: OllamaPullProgress) =>
+  progress.total ? Math.round(((progress.completed || 0) / progress.total) * 100) : 0;
+
+// Where the provider's key comes from and which of its models are running with it
+const describeKeyStatus = (status: ApiKeyStatus) => {
+  const source = status.source === 'settings'
+    ? `Saved key ${status.maskedKey}`
+    : status.source === 'environment'
+      ? `Key ${status.maskedKey} from environment variable`
+      : 'No key';
+  const models = status.models.map(model => `${model.name} ${model.active ? 'active' : 'inactive'}`).join(', ');
+  return models ? `${source} • ${models}` : source;
+};
+
+// How saved keys are protected on this machine
+const describeSecretStorage = (status: SecretStorageStatus) => {
+  if (status.lockedSecrets > 0) {
+    return `${status.lockedSecrets} saved key(s) are locked. Enter your passphrase to use them.`;
+  }
+  if (status.scheme === 'safe-storage') return 'Saved keys are encrypted with the system keychain';
+  if (status.scheme === 'passphrase') return 'Saved keys are encrypted with your passphrase';
+  return 'No system keychain is available. Set a passphrase to save API keys.';
+};
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+
+// What the user should do about a failed key test
+const describeKeyTestError = (error: AIErrorInfo): { status: 'success' | 'error'; message: string } => {
+  switch (error.code) {
+    case 'auth':
+      return { status: 'error', message: 'Key rejected. Check that it was copied completely and is still active in the provider console.' };
+    case 'rate-limit':
+      // The provider only rate limits requests it has authenticated
+      return {
+        status: 'success',
+        message: `API key is valid, but the account is rate limited${error.retryAfterMs ? ` for ${Math.ceil(error.retryAfterMs / 1000)}s` : ''}.`
+      };
+    case 'timeout':
+    case 'endpoint-unreachable':
+      return { status: 'error', message: 'Could not reach the provider. Check your network connection or proxy and try again.' };
+    default:
+      return { status: 'error', message: 'Test failed: ' + error.message };
+  }
+};
+
 interface SettingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -207,7 +392,19 @@ interface SettingsDialogProps {
   currentModel: string;
   onModelSwitch: (modelId: string) => void;
   onApiKeyUpdate: (provider: string, apiKey: string) => void;
-  onApiKeyTest: (provider: string, apiKey: string) => Promise<boolean>;
+  onApiKeyTest: (provider: string, apiKey: string) => Promise<AIResult<boolean>>;
+  onApiKeyRemove: (provider: string) => Promise<void>;
+  onRefreshModels: () => Promise<void>;
+  onAddCustomModel: (options: OpenAICompatibleOptions) => Promise<boolean>;
+  onRemoveCustomModel: (modelId: string) => Promise<void>;
+  fallbackChains: Record<string, string[]>;
+  onFallbackChainsChange: (chains: Record<string, string[]>) => void;
+  routingPolicy: RoutingPolicy;
+  onRoutingPolicyChange: (policy: RoutingPolicy) => void;
+  usageSummary: UsageSummary | null;
+  onBudgetsChange: (budgets: ProviderBudget[]) => void;
+  embeddingModel: { selected?: string; active: string | null };
+  onEmbeddingModelChange: (modelId?: string) => void;
 }
 
 export const SettingsDialog: React.FC<SettingsDialogProps> = ({
@@ -217,14 +414,76 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
   currentModel,
   onModelSwitch,
   onApiKeyUpdate,
-  onApiKeyTest
+  onApiKeyTest,
+  onApiKeyRemove,
+  onRefreshModels,
+  onAddCustomModel,
+  onRemoveCustomModel,
+  fallbackChains,
+  onFallbackChainsChange,
+  routingPolicy,
+  onRoutingPolicyChange,
+  usageSummary,
+  onBudgetsChange,
+  embeddingModel,
+  onEmbeddingModelChange
 }) => {
   const [apiKeys, setApiKeys] = useState({
     anthropic: '',
     openai: '',
     mistral: ''
   });
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [customModel, setCustomModel] = useState({
+    name: '',
+    baseUrl: 'http://127.0.0.1:8080/v1',
+    model: '',
+    headers: '',
+    apiKey: ''
+  });
+  const [customModelStatus, setCustomModelStatus] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { status: 'success' | 'error' | 'testing'; message: string }>>({});
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus[]>([]);
+  const [secretStatus, setSecretStatus] = useState<SecretStorageStatus | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockStatus, setUnlockStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [ollamaModels, setOllamaModels] = useState<OllamaModelInfo[]>([]);
+  const [loadedModels, setLoadedModels] = useState<OllamaRunningModel[]>([]);
+  const [pullName, setPullName] = useState('');
+  const [pullRequestId, setPullRequestId] = useState<string | null>(null);
+  const [pullProgress, setPullProgress] = useState<OllamaPullProgress | null>(null);
+  const [ollamaStatus, setOllamaStatus] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
+
+  const loadOllamaModels = async () => {
+    const [installed, loaded] = await Promise.all([
+      window.electronAPI.listOllamaModels(),
+      window.electronAPI.listLoadedOllamaModels()
+    ]);
+    if (installed.success === false) {
+      setOllamaModels([]);
+      setLoadedModels([]);
+      setOllamaStatus({ type: 'error', message: 'Could not reach Ollama: ' + installed.error.message });
+      return;
+    }
+    setOllamaModels(installed.data);
+    setLoadedModels(loaded.success === false ? [] : loaded.data);
+  };
+
+  const loadKeyStatus = async () => {
+    const [status, storage] = await Promise.all([
+      window.electronAPI.getApiKeyStatus(),
+      window.electronAPI.getSecretStorageStatus()
+    ]);
+    setKeyStatus(status);
+    setSecretStatus(storage);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadOllamaModels().catch(error => console.error('Failed to load Ollama models:', error));
+      loadKeyStatus().catch(error => console.error('Failed to load API key status:', error));
+    }
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -248,13 +507,15 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
     }));
 
     try {
-      const isValid = await onApiKeyTest(provider, apiKey);
+      const result = await onApiKeyTest(provider, apiKey);
       setTestResults(prev => ({ 
         ...prev, 
-        [provider]: { 
-          status: isValid ? 'success' : 'error', 
-          message: isValid ? 'API key is valid!' : 'Invalid API key'
-        }
+        [provider]: result.success === false
+          ? describeKeyTestError(result.error)
+          : {
+              status: result.data ? 'success' : 'error',
+              message: result.data ? 'API key is valid!' : 'Invalid API key'
+            }
       }));
     } catch (error) {
       setTestResults(prev => ({ 
@@ -267,14 +528,209 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
   const handleApiKeySave = async (provider: string) => {
     const apiKey = apiKeys[provider as keyof typeof apiKeys];
     if (apiKey.trim()) {
-      await onApiKeyUpdate(provider, apiKey);
-      setTestResults(prev => ({ 
-        ...prev, 
-        [provider]: { status: 'success', message: 'API key saved!' }
+      try {
+        await onApiKeyUpdate(provider, apiKey);
+        setApiKeys(prev => ({ ...prev, [provider]: '' }));
+        setTestResults(prev => ({ 
+          ...prev, 
+          [provider]: { status: 'success', message: 'API key saved!' }
+        }));
+        await loadKeyStatus();
+      } catch (error) {
+        setTestResults(prev => ({
+          ...prev,
+          [provider]: { status: 'error', message: 'Failed to save API key: ' + error.message }
+        }));
+      }
+    }
+  };
+
+  const handleUnlockSecrets = async () => {
+    try {
+      await window.electronAPI.unlockSecrets(passphrase);
+      setPassphrase('');
+      setUnlockStatus({ type: 'success', message: 'Passphrase accepted' });
+      await loadKeyStatus();
+      await onRefreshModels();
+    } catch (error) {
+      setUnlockStatus({ type: 'error', message: error.message.includes('Incorrect passphrase') ? 'Incorrect passphrase' : 'Failed to unlock: ' + error.message });
+    }
+  };
+
+  const handleApiKeyRemove = async (provider: string) => {
+    try {
+      await onApiKeyRemove(provider);
+      setTestResults(prev => ({
+        ...prev,
+        [provider]: { status: 'success', message: 'Saved API key removed' }
+      }));
+      await loadKeyStatus();
+    } catch (error) {
+      setTestResults(prev => ({
+        ...prev,
+        [provider]: { status: 'error', message: 'Failed to remove API key: ' + error.message }
       }));
     }
   };
 
+  const budgets: ProviderBudget[] = (usageSummary?.budgets || []).map(({ spentUsd, state, ...budget }) => budget);
+
+  const updateBudget = (provider: string, changes: Partial<ProviderBudget>) => {
+    const existing = budgets.find(budget => budget.provider === provider) || { provider, period: 'monthly' as BudgetPeriod };
+    onBudgetsChange([...budgets.filter(budget => budget.provider !== provider), { ...existing, ...changes }]);
+  };
+
+  const parseLimit = (value: string): number | undefined => {
+    const amount = parseFloat(value);
+    return isNaN(amount) || amount < 0 ? undefined : amount;
+  };
+
+  const handleRefreshModels = async () => {
+    setIsRefreshing(true);
+    try {
+      await onRefreshModels();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handlePullModel = async () => {
+    const name = pullName.trim();
+    const requestId = `pull-${Date.now()}`;
+    setPullRequestId(requestId);
+    setPullProgress(null);
+    setOllamaStatus({ type: 'info', message: `Pulling ${name}...` });
+
+    const unsubscribe = window.electronAPI.onOllamaPullProgress(progress => {
+      if (progress.requestId === requestId) {
+        setPullProgress(progress);
+      }
+    });
+
+    try {
+      const result = await window.electronAPI.pullOllamaModel(requestId, name);
+      if (result.success === false) {
+        setOllamaStatus({
+          type: 'error',
+          message: result.error.code === 'cancelled' ? 'Pull cancelled' : 'Pull failed: ' + result.error.message
+        });
+      } else {
+        setOllamaStatus({ type: 'success', message: `${name} is ready` });
+        setPullName('');
+        await onRefreshModels();
+      }
+      await loadOllamaModels();
+    } catch (error) {
+      setOllamaStatus({ type: 'error', message: 'Pull failed: ' + error.message });
+    } finally {
+      unsubscribe();
+      setPullRequestId(null);
+      setPullProgress(null);
+    }
+  };
+
+  const handleCancelPull = async () => {
+    if (pullRequestId) {
+      await window.electronAPI.cancelRequest(pullRequestId);
+    }
+  };
+
+  const handleDeleteModel = async (name: string) => {
+    if (!window.confirm(`Delete ${name} from Ollama? It has to be pulled again to use it.`)) return;
+
+    const result = await window.electronAPI.deleteOllamaModel(name);
+    setOllamaStatus(result.success === false
+      ? { type: 'error', message: 'Delete failed: ' + result.error.message }
+      : { type: 'success', message: `${name} deleted` });
+    await onRefreshModels();
+    await loadOllamaModels();
+  };
+
+  const describeLoaded = (name: string) => {
+    const loaded = loadedModels.find(model => model.name === name);
+    if (!loaded) return null;
+    const placement = loaded.sizeVram >= loaded.size ? 'GPU' : loaded.sizeVram > 0 ? 'GPU/CPU' : 'CPU';
+    const expires = loaded.expiresAt ? `, unloads ${new Date(loaded.expiresAt).toLocaleTimeString()}` : '';
+    return `🟢 Loaded in memory (${formatBytes(loaded.size)} ${placement}${expires})`;
+  };
+
+  const formatModelDetails = (model: Model) => {
+    const details = [
+      model.family,
+      model.parameterSize,
+      model.quantization,
+      model.contextWindow ? `${Math.round(model.contextWindow / 1024)}k ctx` : undefined
+    ].filter(Boolean);
+    return details.join(' • ');
+  };
+
+  const parseHeaders = (text: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+      }
+    }
+    return headers;
+  };
+
+  const handleAddCustomModel = async () => {
+    setCustomModelStatus({ type: 'info', message: 'Connecting...' });
+    try {
+      const isAvailable = await onAddCustomModel({
+        name: customModel.name.trim(),
+        baseUrl: customModel.baseUrl.trim(),
+        model: customModel.model.trim(),
+        headers: parseHeaders(customModel.headers),
+        apiKey: customModel.apiKey.trim() || undefined
+      });
+      setCustomModelStatus(isAvailable
+        ? { type: 'success', message: 'Server added and reachable!' }
+        : { type: 'error', message: 'Server saved, but it could not be reached' });
+      setCustomModel(prev => ({ ...prev, name: '', model: '', apiKey: '' }));
+    } catch (error) {
+      setCustomModelStatus({ type: 'error', message: 'Failed to add server: ' + error.message });
+    }
+  };
+
+  const updateFallbackChain = (task: string, chain: string[]) => {
+    onFallbackChainsChange({ ...fallbackChains, [task]: chain });
+  };
+
+  const updateRoutingRule = (ruleId: string, changes: Partial<RoutingRule>) => {
+    onRoutingPolicyChange({
+      ...routingPolicy,
+      rules: routingPolicy.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const addRoutingRule = () => {
+    const modelId = models.find(m => m.type !== 'embedding')?.id;
+    if (!modelId) return;
+
+    onRoutingPolicyChange({
+      ...routingPolicy,
+      rules: [...routingPolicy.rules, { id: `rule-${Date.now()}`, task: 'chat', modelId, enabled: true }]
+    });
+  };
+
+  const removeRoutingRule = (ruleId: string) => {
+    onRoutingPolicyChange({
+      ...routingPolicy,
+      rules: routingPolicy.rules.filter(rule => rule.id !== ruleId)
+    });
+  };
+
+  const getModelName = (modelId: string) => models.find(m => m.id === modelId)?.name || modelId;
+
+  const getStatusText = (model: Model, unavailableText: string) => {
+    if (!model.isAvailable) return unavailableText;
+    if (model.health === 'open') return '⚠️ Failing (skipped until it recovers)';
+    if (model.health === 'half-open') return '🔁 Recovering';
+    return '✅ Ready';
+  };
+
   const handleModelSelect = (modelId: string) => {
     const model = models.find(m => m.id === modelId);
     if (model && model.isAvailable) {
@@ -282,8 +738,10 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
     }
   };
 
-  const localModels = models.filter(m => m.isLocal);
-  const cloudModels = models.filter(m => !m.isLocal);
+  const embeddingModels = models.filter(m => m.type === 'embedding');
+  const localModels = models.filter(m => m.isLocal && !m.isCustom);
+  const cloudModels = models.filter(m => !m.isLocal && !m.isCustom);
+  const customModels = models.filter(m => m.isCustom);
 
   return (
     <Overlay onClick={onClose}>
@@ -306,131 +764,437 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({
                 >
                   <ModelName>{model.name}</ModelName>
                   <ModelInfo>{model.type} • {model.latency} latency</ModelInfo>
+                  {formatModelDetails(model) && (
+                    <ModelInfo>{formatModelDetails(model)}</ModelInfo>
+                  )}
                   <ModelStatus isAvailable={model.isAvailable}>
-                    {model.isAvailable ? '✅ Ready' : '❌ Not Available'}
+                    {getStatusText(model, '❌ Not Available')}
                   </ModelStatus>
                 </ModelCard>
               ))}
             </ModelGrid>
+            <ButtonGroup>
+              <Button variant="secondary" onClick={handleRefreshModels} disabled={isRefreshing}>
+                {isRefreshing ? 'Scanning Ollama...' : '🔄 Refresh Ollama Models'}
+              </Button>
+            </ButtonGroup>
           </Section>
 
           <Section>
-            <SectionTitle>Cloud Models (Require API Keys)</SectionTitle>
-            <ModelGrid>
-              {cloudModels.map(model => (
-                <ModelCard
-                  key={model.id}
-                  isActive={model.id === currentModel}
-                  isAvailable={model.isAvailable}
-                  onClick={() => handleModelSelect(model.id)}
-                >
+            <SectionTitle>Ollama Models</SectionTitle>
+            {ollamaModels.map(model => (
+              <CustomModelRow key={model.name}>
+                <div style={{ flex: 1 }}>
                   <ModelName>{model.name}</ModelName>
-                  <ModelInfo>{model.type} • {model.latency} latency</ModelInfo>
-                  <ModelStatus isAvailable={model.isAvailable}>
-                    {model.isAvailable ? '✅ Ready' : '🔑 API Key Required'}
-                  </ModelStatus>
-                </ModelCard>
-              ))}
-            </ModelGrid>
-          </Section>
-
-          <Section>
-            <SectionTitle>API Key Configuration</SectionTitle>
-            
+                  <ModelInfo>
+                    {[formatBytes(model.size), model.parameterSize, model.quantization].filter(Boolean).join(' • ')}
+                  </ModelInfo>
+                  {describeLoaded(model.name) && (
+                    <ModelStatus isAvailable={true}>{describeLoaded(model.name)}</ModelStatus>
+                  )}
+                </div>
+                <Button variant="danger" onClick={() => handleDeleteModel(model.name)} disabled={!!pullRequestId}>
+                  Delete
+                </Button>
+              </CustomModelRow>
+            ))}
             <ApiKeySection>
-              <ApiKeyLabel>Anthropic (Claude) API Key:</ApiKeyLabel>
+              <ApiKeyLabel>Pull Model:</ApiKeyLabel>
               <ApiKeyInput
-                type="password"
-                value={apiKeys.anthropic}
-                onChange={(e) => handleApiKeyChange('anthropic', e.target.value)}
-                placeholder="sk-ant-api03-..."
+                value={pullName}
+                onChange={(e) => setPullName(e.target.value)}
+                placeholder="qwen2.5-coder:7b"
+                disabled={!!pullRequestId}
               />
               <ButtonGroup>
-                <Button 
-                  variant="primary" 
-                  onClick={() => handleApiKeyTest('anthropic')}
-                  disabled={!apiKeys.anthropic.trim()}
-                >
-                  Test
-                </Button>
-                <Button 
-                  variant="secondary" 
-                  onClick={() => handleApiKeySave('anthropic')}
-                  disabled={!apiKeys.anthropic.trim()}
-                >
-                  Save
+                {pullRequestId ? (
+                  <Button variant="danger" onClick={handleCancelPull}>Cancel Pull</Button>
+                ) : (
+                  <Button variant="primary" onClick={handlePullModel} disabled={!pullName.trim()}>
+                    ⬇️ Pull
+                  </Button>
+                )}
+                <Button variant="secondary" onClick={() => loadOllamaModels()} disabled={!!pullRequestId}>
+                  🔄 Refresh
                 </Button>
               </ButtonGroup>
-              {testResults.anthropic && (
-                <StatusMessage type={testResults.anthropic.status}>
-                  {testResults.anthropic.message}
+              {pullProgress && (
+                <>
+                  <ModelInfo style={{ marginTop: '8px' }}>
+                    {pullProgress.status}
+                    {pullProgress.total ? ` • ${formatBytes(pullProgress.completed || 0)} / ${formatBytes(pullProgress.total)} (${getPullPercent(pullProgress)}%)` : ''}
+                  </ModelInfo>
+                  {pullProgress.total ? <PullProgressBar percent={getPullPercent(pullProgress)} /> : null}
+                </>
+              )}
+              {ollamaStatus && (
+                <StatusMessage type={ollamaStatus.type}>
+                  {ollamaStatus.message}
                 </StatusMessage>
               )}
             </ApiKeySection>
+          </Section>
+
+          <Section>
+            <SectionTitle>OpenAI-Compatible Servers (llama.cpp, vLLM, LM Studio)</SectionTitle>
+            {customModels.map(model => (
+              <CustomModelRow key={model.id}>
+                <div
+                  style={{ cursor: model.isAvailable ? 'pointer' : 'not-allowed', flex: 1 }}
+                  onClick={() => handleModelSelect(model.id)}
+                >
+                  <ModelName>{model.name}{model.id === currentModel ? ' (active)' : ''}</ModelName>
+                  <ModelInfo>{model.endpoint}</ModelInfo>
+                  <ModelStatus isAvailable={model.isAvailable}>
+                    {getStatusText(model, '❌ Unreachable')}
+                  </ModelStatus>
+                </div>
+                <Button variant="danger" onClick={() => onRemoveCustomModel(model.id)}>
+                  Remove
+                </Button>
+              </CustomModelRow>
+            ))}
 
             <ApiKeySection>
-              <ApiKeyLabel>OpenAI (GPT-4) API Key:</ApiKeyLabel>
+              <ApiKeyLabel>Display Name:</ApiKeyLabel>
               <ApiKeyInput
-                type="password"
-                value={apiKeys.openai}
-                onChange={(e) => handleApiKeyChange('openai', e.target.value)}
-                placeholder="sk-..."
+                value={customModel.name}
+                onChange={(e) => setCustomModel(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="LM Studio"
+              />
+            </ApiKeySection>
+            <ApiKeySection>
+              <ApiKeyLabel>Base URL:</ApiKeyLabel>
+              <ApiKeyInput
+                value={customModel.baseUrl}
+                onChange={(e) => setCustomModel(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="http://127.0.0.1:8080/v1"
               />
-              <ButtonGroup>
-                <Button 
-                  variant="primary" 
-                  onClick={() => handleApiKeyTest('openai')}
-                  disabled={!apiKeys.openai.trim()}
-                >
-                  Test
-                </Button>
-                <Button 
-                  variant="secondary" 
-                  onClick={() => handleApiKeySave('openai')}
-                  disabled={!apiKeys.openai.trim()}
-                >
-                  Save
-                </Button>
-              </ButtonGroup>
-              {testResults.openai && (
-                <StatusMessage type={testResults.openai.status}>
-                  {testResults.openai.message}
-                </StatusMessage>
-              )}
             </ApiKeySection>
-
             <ApiKeySection>
-              <ApiKeyLabel>Mistral (Codestral) API Key:</ApiKeyLabel>
+              <ApiKeyLabel>Model Name:</ApiKeyLabel>
+              <ApiKeyInput
+                value={customModel.model}
+                onChange={(e) => setCustomModel(prev => ({ ...prev, model: e.target.value }))}
+                placeholder="qwen2.5-coder-7b-instruct"
+              />
+            </ApiKeySection>
+            <ApiKeySection>
+              <ApiKeyLabel>Extra Headers (one "Name: value" per line):</ApiKeyLabel>
+              <HeadersInput
+                value={customModel.headers}
+                onChange={(e) => setCustomModel(prev => ({ ...prev, headers: e.target.value }))}
+                placeholder="X-Api-Version: 2"
+              />
+            </ApiKeySection>
+            <ApiKeySection>
+              <ApiKeyLabel>API Key (optional):</ApiKeyLabel>
               <ApiKeyInput
                 type="password"
-                value={apiKeys.mistral}
-                onChange={(e) => handleApiKeyChange('mistral', e.target.value)}
-                placeholder="..."
+                value={customModel.apiKey}
+                onChange={(e) => setCustomModel(prev => ({ ...prev, apiKey: e.target.value }))}
               />
               <ButtonGroup>
-                <Button 
-                  variant="primary" 
-                  onClick={() => handleApiKeyTest('mistral')}
-                  disabled={!apiKeys.mistral.trim()}
-                >
-                  Test
-                </Button>
-                <Button 
-                  variant="secondary" 
-                  onClick={() => handleApiKeySave('mistral')}
-                  disabled={!apiKeys.mistral.trim()}
+                <Button
+                  variant="primary"
+                  onClick={handleAddCustomModel}
+                  disabled={!customModel.name.trim() || !customModel.baseUrl.trim() || !customModel.model.trim()}
                 >
-                  Save
+                  Add Server
                 </Button>
               </ButtonGroup>
-              {testResults.mistral && (
-                <StatusMessage type={testResults.mistral.status}>
-                  {testResults.mistral.message}
+              {customModelStatus && (
+                <StatusMessage type={customModelStatus.type}>
+                  {customModelStatus.message}
                 </StatusMessage>
               )}
             </ApiKeySection>
           </Section>
 
+          <Section>
+            <SectionTitle>Cloud Models (Require API Keys)</SectionTitle>
+            <ModelGrid>
+              {cloudModels.map(model => (
+                <ModelCard
+                  key={model.id}
+                  isActive={model.id === currentModel}
+                  isAvailable={model.isAvailable}
+                  onClick={() => handleModelSelect(model.id)}
+                >
+                  <ModelName>{model.name}</ModelName>
+                  <ModelInfo>{model.type} • {model.latency} latency</ModelInfo>
+                  <ModelStatus isAvailable={model.isAvailable}>
+                    {getStatusText(model, '🔑 API Key Required')}
+                  </ModelStatus>
+                </ModelCard>
+              ))}
+            </ModelGrid>
+          </Section>
+
+          <Section>
+            <SectionTitle>Model Routing</SectionTitle>
+            <ChainRow>
+              <ChainLabel>Mode:</ChainLabel>
+              <ChainSelect
+                value={routingPolicy.mode}
+                onChange={(e) => onRoutingPolicyChange({ ...routingPolicy, mode: e.target.value as RoutingPolicy['mode'] })}
+              >
+                <option value="pinned">Pinned (always use the selected model)</option>
+                <option value="auto">Automatic (rules, then best match)</option>
+              </ChainSelect>
+            </ChainRow>
+            <ChainRow>
+              <ChainLabel>Privacy:</ChainLabel>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={routingPolicy.preferLocal}
+                  onChange={(e) => onRoutingPolicyChange({ ...routingPolicy, preferLocal: e.target.checked })}
+                />
+                {' '}Prefer local models when routing automatically
+              </label>
+            </ChainRow>
+            <ModelInfo style={{ marginBottom: '12px' }}>
+              Rules are checked top to bottom in automatic mode; the first enabled rule whose model is available wins.
+            </ModelInfo>
+            {routingPolicy.rules.map(rule => (
+              <ChainRow key={rule.id}>
+                <input
+                  type="checkbox"
+                  title="Enabled"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRoutingRule(rule.id, { enabled: e.target.checked })}
+                />
+                <ChainSelect
+                  value={rule.task || ''}
+                  onChange={(e) => updateRoutingRule(rule.id, { task: e.target.value || undefined })}
+                >
+                  <option value="">Any task</option>
+                  {ROUTING_TASKS.map(task => (
+                    <option key={task.id} value={task.id}>{task.label}</option>
+                  ))}
+                </ChainSelect>
+                <ChainSelect
+                  value={rule.language || ''}
+                  onChange={(e) => updateRoutingRule(rule.id, { language: e.target.value || undefined })}
+                >
+                  <option value="">Any language</option>
+                  {ROUTING_LANGUAGES.map(language => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
+                </ChainSelect>
+                <span>→</span>
+                <ChainSelect
+                  value={rule.modelId}
+                  onChange={(e) => updateRoutingRule(rule.id, { modelId: e.target.value })}
+                >
+                  {models.filter(m => m.type !== 'embedding').map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </ChainSelect>
+                <Button variant="danger" onClick={() => removeRoutingRule(rule.id)}>Remove</Button>
+              </ChainRow>
+            ))}
+            <ButtonGroup>
+              <Button onClick={addRoutingRule} disabled={models.length === 0}>
+                + Add Rule
+              </Button>
+            </ButtonGroup>
+          </Section>
+
+          <Section>
+            <SectionTitle>Embeddings (Semantic Search)</SectionTitle>
+            <ChainRow>
+              <ChainLabel>Embedding model</ChainLabel>
+              <ChainSelect
+                value={embeddingModel.selected || ''}
+                onChange={(e) => onEmbeddingModelChange(e.target.value || undefined)}
+              >
+                <option value="">Automatic (local first)</option>
+                {embeddingModels.map(model => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}{model.isAvailable ? '' : ' (unavailable)'}
+                  </option>
+                ))}
+              </ChainSelect>
+            </ChainRow>
+            <ModelInfo>
+              {embeddingModel.active
+                ? `Embeddings come from ${getModelName(embeddingModel.active)}. Code embedded by another model is not searched.`
+                : 'No embedding model is available. Pull nomic-embed-text above or add an OpenAI API key.'}
+            </ModelInfo>
+          </Section>
+
+          <Section>
+            <SectionTitle>Usage &amp; Budgets</SectionTitle>
+            <ModelInfo style={{ marginBottom: '12px' }}>
+              Token counts come from the providers; cost uses the built-in price table. A hard budget blocks
+              requests to that provider once reached, a soft budget only warns.
+            </ModelInfo>
+            {usageSummary && Object.keys(usageSummary.month).length === 0 && (
+              <ModelInfo style={{ marginBottom: '12px' }}>No usage recorded this month.</ModelInfo>
+            )}
+            {usageSummary && Object.entries(usageSummary.month).map(([provider, totals]) => (
+              <ChainRow key={provider}>
+                <ChainLabel>{provider}:</ChainLabel>
+                <span>
+                  today {formatUsd(usageSummary.today[provider]?.costUsd || 0)} • this month {formatUsd(totals.costUsd)}
+                  {' '}({totals.requests} requests, {totals.inputTokens.toLocaleString()} in / {totals.outputTokens.toLocaleString()} out tokens)
+                </span>
+              </ChainRow>
+            ))}
+            {BUDGET_PROVIDERS.map(provider => {
+              const budget = budgets.find(entry => entry.provider === provider.id);
+              const status = usageSummary?.budgets.find(entry => entry.provider === provider.id);
+              return (
+                <ChainRow key={provider.id}>
+                  <ChainLabel>{provider.label} budget:</ChainLabel>
+                  <ChainSelect
+                    value={budget?.period || 'monthly'}
+                    onChange={(e) => updateBudget(provider.id, { period: e.target.value as BudgetPeriod })}
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="monthly">Monthly</option>
+                  </ChainSelect>
+                  <span>soft $</span>
+                  <BudgetInput
+                    key={`${provider.id}-soft-${budget?.softLimitUsd ?? ''}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    defaultValue={budget?.softLimitUsd ?? ''}
+                    onBlur={(e) => updateBudget(provider.id, { softLimitUsd: parseLimit(e.target.value) })}
+                  />
+                  <span>hard $</span>
+                  <BudgetInput
+                    key={`${provider.id}-hard-${budget?.hardLimitUsd ?? ''}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    defaultValue={budget?.hardLimitUsd ?? ''}
+                    onBlur={(e) => updateBudget(provider.id, { hardLimitUsd: parseLimit(e.target.value) })}
+                  />
+                  {status && (status.softLimitUsd !== undefined || status.hardLimitUsd !== undefined) && (
+                    <BudgetState state={status.state}>
+                      {formatUsd(status.spentUsd)} spent{status.state === 'exceeded' ? ' • blocked' : status.state === 'warning' ? ' • over soft budget' : ''}
+                    </BudgetState>
+                  )}
+                </ChainRow>
+              );
+            })}
+          </Section>
+
+          <Section>
+            <SectionTitle>Fallback Chains</SectionTitle>
+            <ModelInfo style={{ marginBottom: '12px' }}>
+              Models tried in order when the selected model fails or is unhealthy.
+            </ModelInfo>
+            {FALLBACK_TASKS.map(task => {
+              const chain = fallbackChains[task.id] || [];
+              return (
+                <ChainRow key={task.id}>
+                  <ChainLabel>{task.label}:</ChainLabel>
+                  <span>Selected model</span>
+                  {chain.map((modelId, index) => (
+                    <React.Fragment key={modelId}>
+                      <span>→</span>
+                      <ChainItem>
+                        {getModelName(modelId)}
+                        <button
+                          title="Remove from chain"
+                          onClick={() => updateFallbackChain(task.id, chain.filter((_, i) => i !== index))}
+                        >
+                          ×
+                        </button>
+                      </ChainItem>
+                    </React.Fragment>
+                  ))}
+                  <ChainSelect
+                    value=""
+                    onChange={(e) => e.target.value && updateFallbackChain(task.id, [...chain, e.target.value])}
+                  >
+                    <option value="">+ Add fallback</option>
+                    {models.filter(m => !chain.includes(m.id)).map(m => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </ChainSelect>
+                </ChainRow>
+              );
+            })}
+          </Section>
+
+          <Section>
+            <SectionTitle>API Key Configuration</SectionTitle>
+
+            {secretStatus && (
+              <ModelInfo style={{ marginBottom: 12 }}>{describeSecretStorage(secretStatus)}</ModelInfo>
+            )}
+            {secretStatus && (!secretStatus.scheme || secretStatus.lockedSecrets > 0) && (
+              <ApiKeySection>
+                <ApiKeyLabel>Passphrase:</ApiKeyLabel>
+                <ApiKeyInput
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={secretStatus.lockedSecrets > 0 ? 'Passphrase the keys were saved with' : 'Used to encrypt saved API keys'}
+                />
+                <ButtonGroup>
+                  <Button variant="secondary" onClick={handleUnlockSecrets} disabled={!passphrase}>
+                    {secretStatus.lockedSecrets > 0 ? 'Unlock' : 'Set passphrase'}
+                  </Button>
+                </ButtonGroup>
+                {unlockStatus && (
+                  <StatusMessage type={unlockStatus.type}>{unlockStatus.message}</StatusMessage>
+                )}
+              </ApiKeySection>
+            )}
+
+            {API_KEY_PROVIDERS.map(provider => {
+              const status = keyStatus.find(entry => entry.provider === provider.id);
+              const apiKey = apiKeys[provider.id as keyof typeof apiKeys];
+              return (
+                <ApiKeySection key={provider.id}>
+                  <ApiKeyLabel>{provider.label} API Key:</ApiKeyLabel>
+                  {status && (
+                    <ModelInfo style={{ marginBottom: 6 }}>{describeKeyStatus(status)}</ModelInfo>
+                  )}
+                  <ApiKeyInput
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => handleApiKeyChange(provider.id, e.target.value)}
+                    placeholder={status?.source === 'settings' ? 'Enter a new key to replace the saved one' : provider.placeholder}
+                  />
+                  <ButtonGroup>
+                    <Button 
+                      variant="primary" 
+                      onClick={() => handleApiKeyTest(provider.id)}
+                      disabled={!apiKey.trim()}
+                    >
+                      Test
+                    </Button>
+                    <Button 
+                      variant="secondary" 
+                      onClick={() => handleApiKeySave(provider.id)}
+                      disabled={!apiKey.trim()}
+                    >
+                      Save
+                    </Button>
+                    {status?.source === 'settings' && (
+                      <Button variant="danger" onClick={() => handleApiKeyRemove(provider.id)}>
+                        Remove
+                      </Button>
+                    )}
+                  </ButtonGroup>
+                  {testResults[provider.id] && (
+                    <StatusMessage type={testResults[provider.id].status}>
+                      {testResults[provider.id].message}
+                    </StatusMessage>
+                  )}
+                </ApiKeySection>
+              );
+            })}
+          </Section>
+
           <Section>
             <ButtonGroup style={{ justifyContent: 'flex-end' }}>
               <Button variant="secondary" onClick={onClose}>
@@ -1,6 +1,18 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { OpenFile } from '../App';
+import { ModelLoadStatus, WorkspacePolicy } from '../../shared/types/ai';
+
+// Load state changes slowly (warm-up, Ollama's unload timer), so a relaxed poll is enough
+const MODEL_STATUS_POLL_MS = 5000;
+
+const MODEL_STATE_LABELS: Record<ModelLoadStatus['state'], string> = {
+  loaded: '🟢 loaded',
+  loading: '⏳ loading',
+  unloaded: '💤 not loaded',
+  unavailable: '🔴 unavailable',
+  remote: '☁️ ready'
+};
 
 const StatusContainer = styled.div`
   display: flex;
@@ -40,6 +52,33 @@ export const StatusBar: React.FC<StatusBarProps> = ({
   activeFile,
   projectPath
 }) => {
+  const [modelStatus, setModelStatus] = useState<ModelLoadStatus | null>(null);
+  const [policy, setPolicy] = useState<WorkspacePolicy | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        setModelStatus(await window.electronAPI.getModelStatus());
+        setPolicy(await window.electronAPI.getWorkspacePolicy());
+      } catch (error) {
+        console.error('Failed to load model status:', error);
+      }
+    };
+
+    loadStatus();
+    const interval = setInterval(loadStatus, MODEL_STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const getModelTooltip = () => {
+    if (!modelStatus) return undefined;
+    if (modelStatus.state === 'loaded' && modelStatus.expiresAt) {
+      return `Ollama unloads it at ${new Date(modelStatus.expiresAt).toLocaleTimeString()} unless it is used`;
+    }
+    if (modelStatus.state === 'unloaded') return 'The next request loads the model first and will be slower';
+    return undefined;
+  };
+
   const getFileInfo = () => {
     if (!activeFile) return 'No file open';
     
@@ -76,8 +115,14 @@ export const StatusBar: React.FC<StatusBarProps> = ({
           {getFileInfo()}
         </StatusItem>
         
-        <StatusItem>
-          🤖 AI Ready
+        {policy?.localModelsOnly && (
+          <StatusItem title="Set by .ai-ide/policy.json: requests to cloud models are blocked">
+            🔒 Local only
+          </StatusItem>
+        )}
+
+        <StatusItem title={getModelTooltip()}>
+          🤖 {modelStatus ? `${modelStatus.modelName} ${MODEL_STATE_LABELS[modelStatus.state]}` : 'AI starting...'}
         </StatusItem>
         
         <StatusItem>
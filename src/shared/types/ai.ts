@@ -15,6 +15,81 @@ export interface ModelConfig {
   parameters?: Record<string, any>;
 }
 
+// User-defined endpoint speaking the OpenAI /v1/chat/completions + /v1/completions API
+// (llama.cpp server, vLLM, LM Studio, ...)
+export interface OpenAICompatibleOptions {
+  id?: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  headers?: Record<string, string>;
+  apiKey?: string;
+  contextWindow?: number;
+}
+
+// 'pinned' always uses the model selected in settings; 'auto' applies rules, then scoring
+export type RoutingMode = 'pinned' | 'auto';
+
+// Sends matching requests to modelId; task and language are optional filters
+export interface RoutingRule {
+  id: string;
+  task?: string;
+  language?: string;
+  modelId: string;
+  enabled: boolean;
+}
+
+export interface RoutingPolicy {
+  mode: RoutingMode;
+  rules: RoutingRule[];
+  preferLocal: boolean;
+}
+
+// Cloud providers whose API key is managed in settings
+export type CredentialProviderId = 'anthropic' | 'openai' | 'mistral';
+
+export type ApiKeySource = 'settings' | 'environment' | 'none';
+
+export interface ApiKeyStatus {
+  provider: CredentialProviderId;
+  source: ApiKeySource;
+  // First and last characters only; the key itself never leaves the main process
+  maskedKey?: string;
+  models: Array<{ id: string; name: string; active: boolean }>;
+}
+
+// How saved API keys are encrypted: the OS keyring, or a key derived from the user's passphrase
+export type SecretScheme = 'safe-storage' | 'passphrase';
+
+export interface SecretStorageStatus {
+  // Scheme new keys are saved with; null until a passphrase is entered where there is no keyring
+  scheme: SecretScheme | null;
+  keyringAvailable: boolean;
+  // Saved keys that cannot be decrypted yet, e.g. before the passphrase is entered
+  lockedSecrets: number;
+}
+
+// Read from <workspace>/.ai-ide/policy.json
+export interface WorkspacePolicy {
+  // Cloud providers are refused for every request in this workspace
+  localModelsOnly: boolean;
+  // Secrets and personal data are replaced with placeholders before reaching cloud providers
+  redactSecrets: boolean;
+}
+
+export interface RoutingDecision {
+  modelId: string;
+  reason: string;
+  ruleId?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Counted locally because the provider reported nothing
+  estimated?: boolean;
+}
+
 export interface CompletionRequest {
   prompt: string;
   context: any;
@@ -22,6 +97,12 @@ export interface CompletionRequest {
   temperature: number;
   stopSequences?: string[];
   language?: string;
+  requestId?: string;
+  signal?: AbortSignal;
+  // Called with id@version of each prompt template the model renders
+  onPromptTemplate?: (templateRef: string) => void;
+  // Called with the token counts the provider reported for this request
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface ChatRequest {
@@ -31,6 +112,12 @@ export interface ChatRequest {
   maxTokens: number;
   temperature: number;
   systemPrompt?: string;
+  requestId?: string;
+  signal?: AbortSignal;
+  // Called with id@version of each prompt template the model renders
+  onPromptTemplate?: (templateRef: string) => void;
+  // Called with the token counts the provider reported for this request
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface InlineCompletionRequest {
@@ -43,6 +130,58 @@ export interface InlineCompletionRequest {
   language: string;
   maxTokens: number;
   temperature: number;
+  requestId?: string;
+  signal?: AbortSignal;
+  // Called with id@version of each prompt template the model renders
+  onPromptTemplate?: (templateRef: string) => void;
+  // Called with the token counts the provider reported for this request
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// A tool the model may call; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+// A model turn that asked for tools, together with what the tools returned
+export interface ToolRound {
+  content: string;
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+export interface ToolChatRequest extends ChatRequest {
+  tools: ToolDefinition[];
+  // Earlier rounds of this turn, replayed after the user's message
+  toolRounds: ToolRound[];
+}
+
+// The final answer when toolCalls is empty, otherwise the tools to run first
+export interface ToolChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+// Chat whose answer must be JSON matching schema (a JSON Schema object)
+export interface StructuredChatRequest extends ChatRequest {
+  schema: Record<string, any>;
+  // Identifier-style name some providers require (OpenAI json_schema, Anthropic tool name)
+  schemaName: string;
 }
 
 export interface ChatMessage {
@@ -59,13 +198,211 @@ export interface AIResponse {
   confidence?: number;
 }
 
+export interface AIStreamEvent {
+  requestId: string;
+  type: 'token' | 'tool' | 'done' | 'error';
+  content?: string;
+  error?: string;
+  // Set on 'tool' events: the call the model made and whether it failed
+  toolCall?: ToolCall;
+  toolError?: boolean;
+}
+
+export type AIErrorCode =
+  | 'auth'
+  | 'rate-limit'
+  | 'timeout'
+  | 'context-overflow'
+  | 'model-not-pulled'
+  | 'endpoint-unreachable'
+  | 'cancelled'
+  | 'budget-exceeded'
+  | 'invalid-output'
+  | 'blocked-by-policy'
+  | 'unknown';
+
+// Serializable form of AIError sent to the renderer
+export interface AIErrorInfo {
+  code: AIErrorCode;
+  message: string;
+  provider?: string;
+  modelId?: string;
+  // Ollama tag for model-not-pulled, so the UI can offer to pull it
+  modelName?: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// IPC result for AI operations
+export type AIResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: AIErrorInfo };
+
+// One model's answer in compare mode
+export interface ComparisonResult {
+  modelId: string;
+  modelName: string;
+  content: string;
+  latency: number;
+  timeToFirstToken?: number;
+  tokens: number;
+  costUsd?: number;
+  cancelled?: boolean;
+  error?: AIErrorInfo;
+}
+
+export interface BenchmarkTaskResult {
+  taskId: string;
+  modelId: string;
+  language: string;
+  passed: boolean;
+  checksPassed: number;
+  checksTotal: number;
+  // Descriptions of the failed checks, or the request error
+  failures: string[];
+  latency: number;
+  tokens: number;
+  tokensPerSecond: number;
+}
+
+// Latest benchmark outcome of one model for one language
+export interface BenchmarkSummary {
+  modelId: string;
+  language: string;
+  tasks: number;
+  passRate: number;
+  avgLatency: number;
+  tokensPerSecond: number;
+  runAt: number;
+}
+
+export interface BenchmarkReport {
+  runId: string;
+  startedAt: number;
+  finishedAt: number;
+  results: BenchmarkTaskResult[];
+  summaries: BenchmarkSummary[];
+  cancelled?: boolean;
+}
+
+export interface BenchmarkProgress {
+  runId: string;
+  modelId: string;
+  taskId: string;
+  completed: number;
+  total: number;
+  result?: BenchmarkTaskResult;
+}
+
+// Scheduler lanes, highest priority first
+export type RequestPriority = 'interactive' | 'inline' | 'background';
+
+export interface RequestQueueStats {
+  endpoint: string;
+  limit: number;
+  active: number;
+  queued: Record<RequestPriority, number>;
+  // Set while the endpoint is backing off after a rate limit
+  pausedUntil?: number;
+  completed: number;
+  retries: number;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  bypasses: number;
+  // Cached entries per model id
+  byModel: Record<string, number>;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+// Spending limits for one provider: soft warns, hard blocks requests before they are sent
+export interface ProviderBudget {
+  provider: string;
+  period: BudgetPeriod;
+  softLimitUsd?: number;
+  hardLimitUsd?: number;
+}
+
+export interface BudgetStatus extends ProviderBudget {
+  spentUsd: number;
+  state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  // Keyed by provider
+  today: Record<string, UsageTotals>;
+  month: Record<string, UsageTotals>;
+  // This month's usage keyed by model id
+  monthByModel: Record<string, UsageTotals>;
+  budgets: BudgetStatus[];
+}
+
+// A model installed in Ollama (/api/tags); size in bytes
+export interface OllamaModelInfo {
+  name: string;
+  size: number;
+  digest: string;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+// A model currently loaded in memory (/api/ps)
+export interface OllamaRunningModel {
+  name: string;
+  size: number;
+  sizeVram: number;
+  expiresAt?: string;
+}
+
+// Whether a model can answer right away. Local models are 'loaded' while Ollama holds them
+// in memory; cloud and other remote models are always 'remote'.
+export type ModelLoadState = 'loaded' | 'loading' | 'unloaded' | 'unavailable' | 'remote';
+
+export interface ModelLoadStatus {
+  modelId: string;
+  modelName: string;
+  state: ModelLoadState;
+  // When Ollama will unload the model unless it is used again
+  expiresAt?: string;
+}
+
+// One /api/pull status line; total and completed are bytes of the layer being downloaded
+export interface OllamaPullProgress {
+  requestId: string;
+  model: string;
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
 export interface EmbeddingRequest {
-  text: string;
-  model?: string;
+  // Sent in one request where the provider accepts batches
+  texts: string[];
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface EmbeddingResponse {
-  embedding: number[];
+  // One vector per text, in request order
+  embeddings: number[][];
   model: string;
   dimensions: number;
 }
@@ -82,10 +419,31 @@ export abstract class AIModel {
   abstract chat(request: ChatRequest): Promise<string>;
   abstract inlineComplete(request: InlineCompletionRequest): Promise<string>;
   abstract cleanup(): Promise<void>;
+
+  // Streams the chat response token by token and resolves with the full text.
+  // Models without native streaming emit their whole response as one chunk.
+  async chatStream(request: ChatRequest, onToken: (token: string) => void): Promise<string> {
+    const response = await this.chat(request);
+    if (response) {
+      onToken(response);
+    }
+    return response;
+  }
   
-  // Optional embedding method
-  async embed?(request: EmbeddingRequest): Promise<EmbeddingResponse> {
-    throw new Error('Embedding not implemented for this model');
+  // Native tool calling; models without it are driven through the prompt-based fallback
+  chatWithTools?(request: ToolChatRequest): Promise<ToolChatResponse>;
+
+  // Schema-constrained decoding; resolves with the raw JSON text. Models without it are
+  // prompted for JSON, and the manager validates the answer either way.
+  chatStructured?(request: StructuredChatRequest): Promise<string>;
+  
+  // Only implemented by providers that serve embedding models
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+
+  // Cheap reachability check used to re-probe models after failures. Local models re-run
+  // initialize(), which contacts their server; cloud providers override it with a real request.
+  async healthCheck(): Promise<void> {
+    await this.initialize();
   }
 
   getConfig(): ModelConfig {
@@ -122,14 +480,19 @@ export interface TaskContext {
   };
 }
 
+// taskType is the task or chat intent, suffixed with the language when known (e.g. 'chat:apex')
 export interface ModelPerformanceMetrics {
   modelId: string;
   taskType: string;
   avgLatency: number;
   successRate: number;
+  // Share of the comparisons this model took part in that it won
   userSatisfaction: number;
   errorRate: number;
   lastUpdated: number;
+  runs: number;
+  comparisons: number;
+  wins: number;
 }
 
 export interface AITransaction {